@@ -4,7 +4,7 @@ module.exports = {
     parserOptions: {
         ecmaVersion: 6,
         sourceType: 'module',
-        project: './tsconfig.json'
+        project: './tsconfig.eslint.json'
     },
     plugins: [
         '@typescript-eslint',
@@ -12,9 +12,9 @@ module.exports = {
     ],
     extends: [
         'eslint:recommended',
-        '@typescript-eslint/recommended',
+        'plugin:@typescript-eslint/recommended',
         'plugin:@typescript-eslint/recommended-requiring-type-checking',
-        'plugin:security/recommended'
+        'plugin:security/recommended-legacy'
     ],
     rules: {
         '@typescript-eslint/naming-convention': [
@@ -32,7 +32,7 @@ module.exports = {
         '@typescript-eslint/no-unused-vars': ['error', { 'argsIgnorePattern': '^_' }],
         '@typescript-eslint/explicit-function-return-type': 'warn',
         '@typescript-eslint/no-explicit-any': 'warn',
-        '@typescript-eslint/prefer-const': 'error',
+        'prefer-const': 'error',
         '@typescript-eslint/no-inferrable-types': 'off',
         'security/detect-object-injection': 'warn',
         'security/detect-non-literal-fs-filename': 'warn',
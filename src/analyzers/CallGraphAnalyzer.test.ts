@@ -0,0 +1,103 @@
+import { CallGraphAnalyzer } from '@/analyzers/CallGraphAnalyzer';
+import { FileRelationship, RelationshipType, ResolvedImport } from '@/types';
+import * as vscode from 'vscode';
+
+function uri(name: string): vscode.Uri {
+  const value = `file:///workspace/src/${name}`;
+  return { toString: () => value, fsPath: `/workspace/src/${name}` } as vscode.Uri;
+}
+
+const SOURCE = uri('main.ts');
+const UTILS = uri('utils.ts');
+const BASE = uri('base.ts');
+
+function resolved(specifier: string, target: vscode.Uri): ResolvedImport {
+  return { specifier, uri: target };
+}
+
+function analyze(content: string, imports: ResolvedImport[], language: string = 'typescript'): FileRelationship[] {
+  return new CallGraphAnalyzer().analyze(SOURCE, content, language, imports);
+}
+
+function describeByType(relationships: FileRelationship[]): Array<[RelationshipType, string, string]> {
+  return relationships.map(relationship => [relationship.type, relationship.toFile.toString(), relationship.description]);
+}
+
+describe('CallGraphAnalyzer', () => {
+  const imports = [resolved('./utils', UTILS), resolved('./base', BASE)];
+
+  it('supports TS and JS languages only', () => {
+    const analyzer = new CallGraphAnalyzer();
+    expect(['typescript', 'TypeScriptReact', 'javascript', 'javascriptreact'].map(language => analyzer.isSupported(language)))
+      .toEqual([true, true, true, true]);
+    expect(analyzer.isSupported('python')).toBe(false);
+  });
+
+  it('follows named, aliased, default and namespace import bindings', () => {
+    const relationships = analyze([
+      "import format, { parse, stringify as toText } from './utils';",
+      "import * as base from './base';",
+      'format(parse(input));',
+      'toText(parse(other));',
+      'base.helpers.run();',
+      'new base.Widget();'
+    ].join('\n'), imports);
+
+    expect(describeByType(relationships)).toEqual([
+      [RelationshipType.CALLS, UTILS.toString(), 'Calls parse, format, stringify (4 call sites)'],
+      [RelationshipType.CALLS, BASE.toString(), 'Calls helpers.run, Widget (2 call sites)']
+    ]);
+    expect(relationships[0]!.strength).toBeGreaterThan(relationships[1]!.strength);
+  });
+
+  it('follows require() and import = require() bindings, including destructured properties', () => {
+    const relationships = analyze([
+      "const utils = require('./utils');",
+      "const { Model: BaseModel } = require('./base');",
+      "import legacy = require('./base');",
+      'utils.format();',
+      'BaseModel.create();',
+      'legacy.init();'
+    ].join('\n'), imports, 'javascript');
+
+    expect(describeByType(relationships)).toEqual([
+      [RelationshipType.CALLS, UTILS.toString(), 'Calls format (1 call site)'],
+      [RelationshipType.CALLS, BASE.toString(), 'Calls Model.create, init (2 call sites)']
+    ]);
+  });
+
+  it('records extends as INHERITS and implements as IMPLEMENTS', () => {
+    const relationships = analyze([
+      "import { Base, Serializable } from './base';",
+      "import * as utils from './utils';",
+      'class Child extends Base implements Serializable, utils.Disposable {}',
+      'interface Options extends utils.Config {}'
+    ].join('\n'), imports);
+
+    expect(describeByType(relationships)).toEqual([
+      [RelationshipType.INHERITS, BASE.toString(), 'Extends Base'],
+      [RelationshipType.IMPLEMENTS, BASE.toString(), 'Implements Serializable'],
+      [RelationshipType.INHERITS, UTILS.toString(), 'Extends Config'],
+      [RelationshipType.IMPLEMENTS, UTILS.toString(), 'Implements Disposable']
+    ]);
+  });
+
+  it('ignores local names, unresolved imports and re-assigned aliases', () => {
+    const relationships = analyze([
+      "import { parse } from './utils';",
+      "import { missing } from './unresolved';",
+      'function local() {}',
+      'local();',
+      'missing();',
+      'const alias = parse;',
+      'alias();'
+    ].join('\n'), imports);
+
+    expect(relationships).toEqual([]);
+  });
+
+  it('returns nothing without resolved imports or for unsupported languages', () => {
+    expect(analyze("import { parse } from './utils';\nparse();", [])).toEqual([]);
+    expect(analyze('from utils import parse\nparse()', imports, 'python')).toEqual([]);
+  });
+});
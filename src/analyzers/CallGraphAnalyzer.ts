@@ -0,0 +1,229 @@
+import { FileRelationship, RelationshipType, ResolvedImport } from '@/types';
+import * as ts from 'typescript';
+import * as vscode from 'vscode';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  typescript: ts.ScriptKind.TS,
+  typescriptreact: ts.ScriptKind.TSX,
+  javascript: ts.ScriptKind.JS,
+  javascriptreact: ts.ScriptKind.JSX
+};
+
+// Names listed in a relationship description before it is cut off
+const MAX_LISTED_NAMES = 5;
+
+interface ImportedBinding {
+  target: vscode.Uri;
+  name: string; // Exported name, or '*' for namespace imports and require() results
+}
+
+interface TargetUsage {
+  target: vscode.Uri;
+  calls: Map<string, number>;
+  inherits: Set<string>;
+  implements: Set<string>;
+}
+
+/**
+ * Extracts cross-file CALLS, INHERITS and IMPLEMENTS relationships from TS/JS sources by parsing
+ * each file with the TypeScript compiler API and following identifiers bound by its imports.
+ * Only syntax is analyzed (no type checker), so calls through re-assigned aliases are not tracked.
+ */
+export class CallGraphAnalyzer {
+  public isSupported(language: string): boolean {
+    return language.toLowerCase() in SCRIPT_KINDS;
+  }
+
+  public analyze(uri: vscode.Uri, content: string, language: string, imports: ResolvedImport[]): FileRelationship[] {
+    const scriptKind = SCRIPT_KINDS[language.toLowerCase()];
+    if (scriptKind === undefined || imports.length === 0) {
+      return [];
+    }
+
+    const sourceFile = ts.createSourceFile(uri.fsPath, content, ts.ScriptTarget.Latest, true, scriptKind);
+    const bindings = this.collectBindings(sourceFile, new Map(imports.map(i => [i.specifier, i.uri])));
+    if (bindings.size === 0) {
+      return [];
+    }
+
+    const usage = new Map<string, TargetUsage>();
+    const getUsage = (target: vscode.Uri): TargetUsage => {
+      let entry = usage.get(target.toString());
+      if (!entry) {
+        entry = { target, calls: new Map(), inherits: new Set(), implements: new Set() };
+        usage.set(target.toString(), entry);
+      }
+      return entry;
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const callee = this.resolveReference(node.expression, bindings);
+        if (callee) {
+          const calls = getUsage(callee.target).calls;
+          calls.set(callee.name, (calls.get(callee.name) ?? 0) + 1);
+        }
+      } else if (ts.isHeritageClause(node)) {
+        for (const type of node.types) {
+          const base = this.resolveReference(type.expression, bindings);
+          if (!base) {
+            continue;
+          }
+          // "extends" on a class or interface is inheritance; "implements" only appears on classes
+          const entry = getUsage(base.target);
+          if (node.token === ts.SyntaxKind.ImplementsKeyword) {
+            entry.implements.add(base.name);
+          } else {
+            entry.inherits.add(base.name);
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    const relationships: FileRelationship[] = [];
+    for (const entry of usage.values()) {
+      if (entry.calls.size > 0) {
+        const callCount = [...entry.calls.values()].reduce((sum, count) => sum + count, 0);
+        const names = [...entry.calls.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+        relationships.push({
+          fromFile: uri,
+          toFile: entry.target,
+          type: RelationshipType.CALLS,
+          strength: this.callStrength(callCount),
+          description: `Calls ${this.listNames(names)} (${callCount} call site${callCount === 1 ? '' : 's'})`
+        });
+      }
+      if (entry.inherits.size > 0) {
+        relationships.push({
+          fromFile: uri,
+          toFile: entry.target,
+          type: RelationshipType.INHERITS,
+          strength: 1.0,
+          description: `Extends ${this.listNames([...entry.inherits])}`
+        });
+      }
+      if (entry.implements.size > 0) {
+        relationships.push({
+          fromFile: uri,
+          toFile: entry.target,
+          type: RelationshipType.IMPLEMENTS,
+          strength: 1.0,
+          description: `Implements ${this.listNames([...entry.implements])}`
+        });
+      }
+    }
+
+    return relationships;
+  }
+
+  /**
+   * Map local identifiers to the file and export they were imported from
+   */
+  private collectBindings(sourceFile: ts.SourceFile, targets: Map<string, vscode.Uri>): Map<string, ImportedBinding> {
+    const bindings = new Map<string, ImportedBinding>();
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const target = targets.get(node.moduleSpecifier.text);
+        const clause = node.importClause;
+        if (target && clause) {
+          if (clause.name) {
+            bindings.set(clause.name.text, { target, name: 'default' });
+          }
+          if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+            bindings.set(clause.namedBindings.name.text, { target, name: '*' });
+          } else if (clause.namedBindings) {
+            for (const element of clause.namedBindings.elements) {
+              bindings.set(element.name.text, { target, name: (element.propertyName ?? element.name).text });
+            }
+          }
+        }
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+        // import x = require('./y')
+        const expression = node.moduleReference.expression;
+        const target = ts.isStringLiteral(expression) ? targets.get(expression.text) : undefined;
+        if (target) {
+          bindings.set(node.name.text, { target, name: '*' });
+        }
+      } else if (ts.isVariableDeclaration(node) && node.initializer && this.isRequireCall(node.initializer)) {
+        // const x = require('./y') and const { a, b: c } = require('./y')
+        const target = targets.get((node.initializer.arguments[0] as ts.StringLiteral).text);
+        if (target && ts.isIdentifier(node.name)) {
+          bindings.set(node.name.text, { target, name: '*' });
+        } else if (target && ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            if (!ts.isIdentifier(element.name)) {
+              continue;
+            }
+            const exported = element.propertyName && ts.isIdentifier(element.propertyName)
+              ? element.propertyName.text
+              : element.name.text;
+            bindings.set(element.name.text, { target, name: exported });
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return bindings;
+  }
+
+  private isRequireCall(node: ts.Expression): node is ts.CallExpression {
+    return ts.isCallExpression(node)
+      && ts.isIdentifier(node.expression)
+      && node.expression.text === 'require'
+      && node.arguments.length === 1
+      && node.arguments[0] !== undefined
+      && ts.isStringLiteral(node.arguments[0]);
+  }
+
+  /**
+   * Resolve `foo`, `ns.foo` or `Class.method` to the imported file and the name used there
+   */
+  private resolveReference(expression: ts.Expression, bindings: Map<string, ImportedBinding>): ImportedBinding | undefined {
+    if (ts.isIdentifier(expression)) {
+      const binding = bindings.get(expression.text);
+      if (!binding) {
+        return undefined;
+      }
+      return { target: binding.target, name: binding.name === 'default' || binding.name === '*' ? expression.text : binding.name };
+    }
+
+    if (ts.isPropertyAccessExpression(expression)) {
+      const path: string[] = [expression.name.text];
+      let root: ts.Expression = expression.expression;
+      while (ts.isPropertyAccessExpression(root)) {
+        path.unshift(root.name.text);
+        root = root.expression;
+      }
+      if (!ts.isIdentifier(root)) {
+        return undefined;
+      }
+
+      const binding = bindings.get(root.text);
+      if (!binding) {
+        return undefined;
+      }
+      // Members of a namespace import are named as exported; members of an imported value keep the prefix
+      const prefix = binding.name === '*' ? [] : [binding.name === 'default' ? root.text : binding.name];
+      return { target: binding.target, name: [...prefix, ...path].join('.') };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Saturating weight: a single call site is a weak link, ten or more are close to 1
+   */
+  private callStrength(callCount: number): number {
+    return Math.round((1 - Math.exp(-callCount / 3)) * 100) / 100;
+  }
+
+  private listNames(names: string[]): string {
+    const listed = names.slice(0, MAX_LISTED_NAMES).join(', ');
+    return names.length > MAX_LISTED_NAMES ? `${listed} and ${names.length - MAX_LISTED_NAMES} more` : listed;
+  }
+}
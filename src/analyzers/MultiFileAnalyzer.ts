@@ -1,17 +1,24 @@
 import { ContextStore } from '@/services/ContextStore';
-import { OllamaService } from '@/services/OllamaService';
-import { AnalysisResult, FileContext, WorkspaceSummary } from '@/types';
+import { SuggestionApplier } from '@/services/SuggestionApplier';
+import { AIProvider, AnalysisResult, AnalyzeFilesOptions, FileContext, WorkspaceFolderSummary, WorkspaceSummary } from '@/types';
 import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { isIncrementalAnalysisEnabled } from '@/utils/configuration';
+import { getRelativePathFromWorkspace } from '@/utils/fileUtils';
+import { buildAnalysisReport, formatReport, getReportFormat } from '@/utils/reportFormatter';
+import { toSarif } from '@/utils/sarif';
+import { computeOverallMetrics, mergeWorkspaceSummaries } from '@/utils/workspaceSummary';
 import pLimit from 'p-limit';
 import * as vscode from 'vscode';
 
 export class MultiFileAnalyzer {
   private contextStore: ContextStore;
-  private ollamaService: OllamaService;
+  private aiProvider: AIProvider;
+  private suggestionApplier: SuggestionApplier;
 
-  constructor(contextStore: ContextStore, ollamaService: OllamaService) {
+  constructor(contextStore: ContextStore, aiProvider: AIProvider, suggestionApplier: SuggestionApplier) {
     this.contextStore = contextStore;
-    this.ollamaService = ollamaService;
+    this.aiProvider = aiProvider;
+    this.suggestionApplier = suggestionApplier;
   }
 
   public async analyzeWorkspace(): Promise<void> {
@@ -20,10 +27,14 @@ export class MultiFileAnalyzer {
     const maxConcurrent = DEFAULT_CONFIG.ANALYSIS.MAX_CONCURRENT_FILES;
 
     const files = await this.findFiles([...include], [...exclude]);
-    await this.analyzeFiles(files, maxConcurrent);
+    await this.analyzeFiles(files, maxConcurrent, { incremental: isIncrementalAnalysisEnabled() });
   }
 
-  public async analyzeFiles(uris: vscode.Uri[] | undefined, maxConcurrent?: number): Promise<WorkspaceSummary | undefined> {
+  public async analyzeFiles(
+    uris: vscode.Uri[] | undefined,
+    maxConcurrent?: number,
+    options: AnalyzeFilesOptions = {}
+  ): Promise<WorkspaceSummary | undefined> {
     if (!uris || uris.length === 0) {
       vscode.window.showWarningMessage('BuildAI: No files selected for analysis.');
       return undefined;
@@ -34,19 +45,44 @@ export class MultiFileAnalyzer {
     return await vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
       title: `Analyzing ${uris.length} file(s) with AI...`,
-      cancellable: false
-    }, async (progress) => {
+      cancellable: true
+    }, async (progress, token) => {
       let processed = 0;
       const results: AnalysisResult[] = [];
       const errors: string[] = [];
 
-      await Promise.all(uris.map(uri => limit(async () => {
+      // Incremental runs reuse stored results for files whose content (and dependencies) did not change
+      let reusable = new Map<string, AnalysisResult>();
+      if (options.incremental) {
+        progress.report({ message: 'Checking for changed files...' });
+        reusable = await this.findReusableResults(uris);
+        await this.contextStore.touchFiles([...reusable.values()].map(result => result.fileUri));
+        results.push(...reusable.values());
+        processed = reusable.size;
+        console.log(`♻️ Incremental analysis: reusing ${reusable.size} unchanged file(s)`);
+      }
+      const pending = uris.filter(uri => !reusable.has(uri.fsPath));
+
+      // Cancelling the notification aborts in-flight requests; queued files are skipped below
+      const abortController = new AbortController();
+      const cancellation = token.onCancellationRequested(() => {
+        console.log('⏹️ Analysis cancelled by user');
+        abortController.abort();
+      });
+
+      await Promise.all(pending.map(uri => limit(async () => {
+        if (token.isCancellationRequested) {
+          return;
+        }
         try {
-          const fileResult = await this.analyzeFile(uri);
+          const fileResult = await this.analyzeFile(uri, abortController.signal);
           if (fileResult) {
             results.push(fileResult);
           }
         } catch (error) {
+          if (token.isCancellationRequested) {
+            return;
+          }
           const errorMsg = error instanceof Error ? error.message : String(error);
           errors.push(`${uri.fsPath}: ${errorMsg}`);
           console.error(`Failed to analyze ${uri.fsPath}:`, error);
@@ -55,22 +91,49 @@ export class MultiFileAnalyzer {
         progress.report({ message: `${processed}/${uris.length} analyzed` });
       })));
 
-      // Save workspace summary
-      const summary: WorkspaceSummary = {
-        totalFiles: uris.length,
-        analysisResults: results,
-        overallMetrics: this.computeOverallMetrics(results),
-        relationships: await this.contextStore.getAllRelationships(),
-        suggestions: results.flatMap(r => r.suggestions),
-        timestamp: new Date()
-      } as WorkspaceSummary;
-
-      await this.contextStore.storeWorkspaceSummary(summary);
+      cancellation.dispose();
+      const cancelled = token.isCancellationRequested;
+
+      // Save one summary per workspace folder so multi-root folders keep separate results
+      const relationships = await this.contextStore.getAllRelationships();
+      const timestamp = new Date();
+      const folderSummaries: WorkspaceFolderSummary[] = this.groupByWorkspaceFolder(uris).map(({ folder, uris: folderUris }) => {
+        const folderPaths = new Set(folderUris.map(uri => uri.fsPath));
+        const folderResults = results.filter(r => folderPaths.has(r.fileUri.fsPath));
+        const reusedCount = folderUris.filter(uri => reusable.has(uri.fsPath)).length;
+        const isInFolder = (uri: vscode.Uri): boolean =>
+          vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === folder?.uri.toString();
+
+        return {
+          folder,
+          summary: {
+            totalFiles: folderUris.length,
+            analysisResults: folderResults,
+            overallMetrics: computeOverallMetrics(folderResults),
+            relationships: relationships.filter(r => isInFolder(r.fromFile)),
+            suggestions: folderResults.flatMap(r => r.suggestions),
+            timestamp,
+            ...(cancelled && { incomplete: true }),
+            ...(options.incremental && {
+              skippedFiles: reusedCount,
+              reanalyzedFiles: folderResults.length - reusedCount
+            })
+          } as WorkspaceSummary
+        };
+      });
+
+      await this.contextStore.storeWorkspaceSummaries(folderSummaries);
+      const summary = mergeWorkspaceSummaries(folderSummaries.map(entry => entry.summary))!;
       
       // Show completion message with stats
       const successCount = results.length;
       const failCount = errors.length;
-      let message = `BuildAI: Analysis complete. ${successCount} file(s) analyzed successfully`;
+      let message = cancelled
+        ? `BuildAI: Analysis cancelled. ${successCount} of ${uris.length} file(s) analyzed; partial results saved`
+        : `BuildAI: Analysis complete. ${successCount} file(s) analyzed successfully`;
+      if (options.incremental) {
+        message += ` (${successCount - reusable.size} re-analyzed, ${reusable.size} unchanged and skipped)`;
+      }
       if (failCount > 0) {
         message += `, ${failCount} failed`;
       }
@@ -80,8 +143,11 @@ export class MultiFileAnalyzer {
     });
   }
 
-  public async generateWorkspaceSummary(): Promise<string> {
-    const summary = await this.contextStore.getWorkspaceSummary();
+  /**
+   * Summarize the stored results of one workspace folder, or of the whole workspace
+   */
+  public async generateWorkspaceSummary(folder?: vscode.WorkspaceFolder): Promise<string> {
+    const summary = await this.contextStore.getWorkspaceSummary(folder);
     if (!summary) {
       vscode.window.showWarningMessage('BuildAI: No workspace summary available. Run an analysis first.');
       return 'No workspace summary available. Please run an analysis first.';
@@ -94,14 +160,14 @@ export class MultiFileAnalyzer {
       if (ctx) fileContexts.push(ctx);
     }
 
-    const aiSummary = await this.ollamaService.generateSummary(fileContexts);
+    const aiSummary = await this.aiProvider.generateSummary(fileContexts);
     
     // Format the complete summary
-    const formattedSummary = `# BuildAI Workspace Analysis Summary
+    const formattedSummary = `# BuildAI Workspace Analysis Summary${folder ? `: ${folder.name}` : ''}
 
 ## Overview
-- **Files Analyzed:** ${summary.totalFiles}
-- **Suggestions:** ${summary.suggestions.length}
+- **Files Analyzed:** ${summary.incomplete ? `${summary.analysisResults.length} of ${summary.totalFiles} (run cancelled, results are partial)` : summary.totalFiles}
+${summary.skippedFiles !== undefined ? `- **Incremental Run:** ${summary.reanalyzedFiles ?? 0} re-analyzed, ${summary.skippedFiles} unchanged\n` : ''}- **Suggestions:** ${summary.suggestions.length}
 - **Analysis Date:** ${summary.timestamp.toLocaleString()}
 
 ## Metrics
@@ -127,6 +193,73 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
     return formattedSummary;
   }
 
+  /**
+   * Export the stored workspace summary as Markdown, HTML or JSON, chosen by the saved file's extension
+   */
+  public async exportReport(): Promise<void> {
+    const summary = await this.contextStore.getWorkspaceSummary();
+    if (!summary) {
+      void vscode.window.showWarningMessage('BuildAI: No analysis results to export. Run an analysis first.');
+      return;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+      saveLabel: 'Export Report',
+      filters: {
+        'Markdown': ['md'],
+        'HTML': ['html'],
+        'JSON': ['json']
+      },
+      ...(workspaceFolder && { defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'buildai-report.md') })
+    });
+    if (!target) {
+      return;
+    }
+
+    const format = getReportFormat(target.path);
+    const report = buildAnalysisReport(summary, getRelativePathFromWorkspace);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(formatReport(report, format), 'utf8'));
+
+    const action = await vscode.window.showInformationMessage(
+      `BuildAI: Exported analysis report to ${target.fsPath}`,
+      'Open Report'
+    );
+    if (action === 'Open Report') {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+
+  /**
+   * Export the stored workspace summary as a SARIF 2.1.0 log for code-scanning tools
+   */
+  public async exportSarif(toolVersion: string): Promise<void> {
+    const summary = await this.contextStore.getWorkspaceSummary();
+    if (!summary) {
+      void vscode.window.showWarningMessage('BuildAI: No analysis results to export. Run an analysis first.');
+      return;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+      saveLabel: 'Export SARIF',
+      filters: { 'SARIF': ['sarif', 'json'] },
+      ...(workspaceFolder && { defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'buildai.sarif') })
+    });
+    if (!target) {
+      return;
+    }
+
+    const log = toSarif(summary, {
+      toolVersion,
+      ...(workspaceFolder && { rootUri: workspaceFolder.uri.toString() })
+    });
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(log, null, 2), 'utf8'));
+
+    const resultCount = log.runs[0]?.results.length ?? 0;
+    void vscode.window.showInformationMessage(`BuildAI: Exported ${resultCount} finding(s) to ${target.fsPath}`);
+  }
+
   public async applyAISuggestions(): Promise<void> {
     const summary = await this.contextStore.getWorkspaceSummary();
     if (!summary) {
@@ -134,8 +267,7 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
       return;
     }
 
-    // For now, just show a quick pick to select a file to apply suggestions
-    const pick = await vscode.window.showQuickPick(
+    const filePick = await vscode.window.showQuickPick(
       summary.analysisResults.map(r => ({
         label: r.fileUri.fsPath.split('/').pop() || r.fileUri.fsPath,
         description: r.fileUri.fsPath,
@@ -144,25 +276,37 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
       { placeHolder: 'Select a file to apply AI suggestions' }
     );
 
-    if (!pick) return;
+    if (!filePick) {
+      return;
+    }
 
-    const doc = await vscode.workspace.openTextDocument(pick.uri);
-    const editor = await vscode.window.showTextDocument(doc);
+    const doc = await vscode.workspace.openTextDocument(filePick.uri);
+    await vscode.window.showTextDocument(doc);
 
-    // Apply first suggestion as a placeholder
-    const result = await this.contextStore.getAnalysisResult(pick.uri);
-    const suggestion = result?.suggestions[0];
-    if (suggestion) {
-      await editor.edit(editBuilder => {
-        editBuilder.replace(suggestion.range, suggestion.suggestedCode || suggestion.originalCode);
-      });
-      vscode.window.showInformationMessage('BuildAI: Applied first suggestion to the document.');
-    } else {
-      vscode.window.showWarningMessage('BuildAI: No suggestions to apply for the selected file.');
+    const suggestions = await this.suggestionApplier.getApplicableSuggestions(doc);
+    if (suggestions.length === 0) {
+      void vscode.window.showWarningMessage('BuildAI: No applicable suggestions for the selected file.');
+      return;
+    }
+
+    const suggestionPick = await vscode.window.showQuickPick(
+      suggestions.map(s => ({
+        label: s.title,
+        description: `Lines ${s.range.start.line + 1}-${s.range.end.line + 1} • ${s.type} • ${Math.round(s.confidence * 100)}%`,
+        detail: s.description,
+        suggestion: s
+      })),
+      { placeHolder: 'Select a suggestion to apply' }
+    );
+
+    if (!suggestionPick) {
+      return;
     }
+
+    await this.suggestionApplier.applySuggestion(filePick.uri, suggestionPick.suggestion.id);
   }
 
-  private async analyzeFile(uri: vscode.Uri): Promise<AnalysisResult | undefined> {
+  private async analyzeFile(uri: vscode.Uri, signal?: AbortSignal): Promise<AnalysisResult | undefined> {
     try {
       const fileName = uri.fsPath.split('/').pop() || uri.fsPath;
       console.log(`🔍 Starting analysis of ${fileName}...`);
@@ -178,19 +322,19 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
       const relationships = await this.contextStore.analyzeFileRelationships(uri, fileContext.content, fileContext.language);
 
       console.log(`🤖 Running AI analysis on ${fileName}...`);
-      // Ask Ollama AI for analysis and suggestions
-      const ai = await this.ollamaService.analyzeCode(fileContext);
-      const suggestions = await this.ollamaService.getSuggestions(fileContext, ai.summary);
+      // The structured analysis already carries the suggestions; no second request for them
+      const ai = await this.aiProvider.analyzeCode(fileContext, signal);
 
       const result: AnalysisResult = {
         fileUri: uri,
         language: fileContext.language,
         summary: ai.summary,
-        suggestions: suggestions,
+        suggestions: ai.suggestions,
         relationships: relationships,
         metrics: this.computeFileMetrics(fileContext.content),
         timestamp: new Date(),
-        confidence: ai.confidence
+        confidence: ai.confidence,
+        fileHash: fileContext.hash
       };
 
       await this.contextStore.storeAnalysisResult(result);
@@ -203,6 +347,71 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
     }
   }
 
+  /**
+   * Stored results that are still valid for this run, keyed by fsPath. A result is reused when its
+   * fileHash matches the current content and none of the files it depends on, directly or through
+   * other files, changed in this run.
+   */
+  private async findReusableResults(uris: vscode.Uri[]): Promise<Map<string, AnalysisResult>> {
+    const reusable = new Map<string, AnalysisResult>();
+    const changed = new Set<string>();
+
+    for (const uri of uris) {
+      const stored = await this.contextStore.getAnalysisResult(uri);
+      const fileContext = await this.contextStore.createFileContext(uri);
+      if (stored?.fileHash && fileContext && stored.fileHash === fileContext.hash) {
+        reusable.set(uri.fsPath, stored);
+      } else {
+        changed.add(uri.fsPath);
+      }
+    }
+
+    // Dependencies by fsPath, shared by the walks so each file's relationships are read once
+    const dependencies = new Map<string, vscode.Uri[]>();
+    for (const [fsPath, result] of reusable) {
+      const changedDependency = await this.findChangedDependency(result.fileUri, changed, dependencies);
+      if (changedDependency) {
+        console.log(`🔗 Re-analyzing ${fsPath}: its dependency ${changedDependency} changed`);
+        reusable.delete(fsPath);
+      }
+    }
+
+    return reusable;
+  }
+
+  /**
+   * Walk the files a file depends on, and the files those depend on, until one of them changed.
+   * Import cycles are walked once.
+   */
+  private async findChangedDependency(
+    uri: vscode.Uri,
+    changed: Set<string>,
+    dependencies: Map<string, vscode.Uri[]>
+  ): Promise<string | undefined> {
+    const visited = new Set<string>([uri.fsPath]);
+    const pending = [uri];
+
+    for (let current = pending.pop(); current; current = pending.pop()) {
+      let direct = dependencies.get(current.fsPath);
+      if (!direct) {
+        const from = current.fsPath;
+        direct = (await this.contextStore.getRelationships(current)).filter(r => r.fromFile.fsPath === from).map(r => r.toFile);
+        dependencies.set(from, direct);
+      }
+      for (const dependency of direct) {
+        if (changed.has(dependency.fsPath)) {
+          return dependency.fsPath;
+        }
+        if (!visited.has(dependency.fsPath)) {
+          visited.add(dependency.fsPath);
+          pending.push(dependency);
+        }
+      }
+    }
+
+    return undefined;
+  }
+
   private async findFiles(include: string[], exclude: string[]): Promise<vscode.Uri[]> {
     const uris: vscode.Uri[] = [];
 
@@ -226,16 +435,22 @@ ${summary.suggestions.slice(0, 5).map((s, i) => `${i + 1}. **${s.title}**: ${s.d
     };
   }
 
-  private computeOverallMetrics(results: AnalysisResult[]) {
-    const totalLines = results.reduce((sum, r) => sum + r.metrics.linesOfCode, 0);
-    const avgComplexity = results.length ? results.reduce((sum, r) => sum + r.metrics.complexity, 0) / results.length : 0;
-
-    return {
-      linesOfCode: totalLines,
-      complexity: avgComplexity,
-      maintainabilityIndex: Math.max(0, 100 - avgComplexity * 2),
-      technicalDebt: Math.max(0, avgComplexity - 10)
-    };
+  /**
+   * Split files by workspace folder; files outside every folder form one group without a folder
+   */
+  private groupByWorkspaceFolder(uris: vscode.Uri[]): Array<{ folder: vscode.WorkspaceFolder | undefined; uris: vscode.Uri[] }> {
+    const groups = new Map<string, { folder: vscode.WorkspaceFolder | undefined; uris: vscode.Uri[] }>();
+    for (const uri of uris) {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      const key = folder?.uri.toString() ?? '';
+      let group = groups.get(key);
+      if (!group) {
+        group = { folder, uris: [] };
+        groups.set(key, group);
+      }
+      group.uris.push(uri);
+    }
+    return [...groups.values()];
   }
 }
 
@@ -10,11 +10,33 @@ export const DEFAULT_CONFIG = {
   OLLAMA: {
     BASE_URL: 'https://gpu1.oginnovation.com:11433/v1',
     MODEL: 'mistral:7b',
+    EMBEDDING_MODEL: 'nomic-embed-text',
     TIMEOUT: 60000, // 60 seconds in milliseconds
     MAX_RETRIES: 2,
     API_KEY: 'ollama', // Default API key for local Ollama instances
-    USERNAME: 'bala', // Hardcoded username - replace with actual value
-    PASSWORD: 'Isys@969Isys@969', // Hardcoded password - replace with actual value
+  },
+
+  // Generic OpenAI-compatible servers (llama.cpp server, vLLM, LM Studio)
+  OPENAI_COMPATIBLE: {
+    BASE_URL: 'http://localhost:8080/v1',
+    MODEL: 'default', // Single-model servers such as llama.cpp accept any name
+    CAPABILITIES: { streaming: true, jsonMode: true, embeddings: false },
+  },
+
+  // Model backends offered by the provider picker
+  PROVIDERS: {
+    ollama: {
+      LABEL: 'Ollama',
+      DETAIL: 'Ollama through its OpenAI-compatible /v1 API',
+    },
+    ollamaNative: {
+      LABEL: 'Ollama (native API)',
+      DETAIL: 'Ollama through /api/chat and /api/embed; sets the context window of every request',
+    },
+    openaiCompatible: {
+      LABEL: 'OpenAI-compatible server',
+      DETAIL: 'llama.cpp server, vLLM, LM Studio or any other server with an OpenAI-style /v1 API',
+    },
   },
 
   // Analysis Configuration
@@ -33,12 +55,69 @@ export const DEFAULT_CONFIG = {
     MAX_RELATIONSHIPS: 1000,
     MAX_HISTORY_LENGTH: 50,
     MAX_CONTEXT_WINDOW: 20, // Number of messages to include in context
+    HOUSEKEEPING_INTERVAL: 6 * 60 * 60 * 1000, // Retention and size checks every 6 hours
   },
 
   // AI Configuration
   AI: {
     ENABLE_SUGGESTIONS: true,
     CONFIDENCE_THRESHOLD: 0.7,
+    JSON_REPAIR_ATTEMPTS: 2, // Extra requests when the model returns malformed JSON
+  },
+
+  // Semantic search index
+  EMBEDDINGS: {
+    CHUNK_LINES: 40,
+    CHUNK_OVERLAP: 10, // Lines shared by consecutive chunks
+    MAX_CHUNK_CHARS: 4000, // Keeps minified or generated files within the model's context
+    BATCH_SIZE: 16, // Chunks per embedding request
+    MAX_RESULTS: 20,
+    UPDATE_DELAY: 2000, // Quiet time after the last stored analysis result before analyzed files are embedded
+  },
+
+  // Chat context window management
+  CHAT: {
+    DEFAULT_CONTEXT_LENGTH: 4096, // Ollama's default num_ctx, the window of /v1 requests without the contextLength setting
+    MAX_AUTO_CONTEXT_LENGTH: 16384, // Largest num_ctx the native provider picks by itself; longer windows may not fit in server memory
+    MAX_RESPONSE_TOKENS: 1500,
+    MIN_RESPONSE_TOKENS: 256,
+    RETRIEVAL_SHARE: 0.4, // Most of the prompt budget retrieved code may take
+    SUMMARY_MAX_TOKENS: 400,
+  },
+
+  // Context window in tokens of known models, matched by full name and then by family. Used when
+  // the server cannot report the window of a model through /api/show.
+  MODEL_CONTEXT_LENGTHS: {
+    'mistral': 32768,
+    'mistral-nemo': 131072,
+    'devstral': 131072,
+    'codestral': 32768,
+    'qwen3': 40960,
+    'qwen2.5': 32768,
+    'qwen2.5-coder': 32768,
+    'deepseek-r1': 131072,
+    'deepseek-coder-v2': 163840,
+    'gemma3': 131072,
+    'gemma3:1b': 32768,
+    'llama3': 8192,
+    'llama3.1': 131072,
+    'llama3.2': 131072,
+    'llama3.3': 131072,
+    'codellama': 16384,
+    'phi4': 16384,
+    'gpt-oss': 131072,
+  },
+
+  // Workspace code retrieved for chat answers
+  RETRIEVAL: {
+    MAX_CONTEXT_TOKENS: 3000,
+    MAX_CHUNKS: 8,
+    CANDIDATES: 30, // Semantic and keyword candidates ranked before the budget is applied
+    KEYWORD_FILES: 20, // Best keyword index matches whose chunks are scored
+    MAX_INDEXED_TERMS: 200, // Most frequent terms of a file's content kept in the keyword index
+    ACTIVE_FILE_BOOST: 0.2,
+    RELATED_FILE_BOOST: 0.1, // Files the active file imports, calls or is imported by
+    MIN_RELATIVE_SCORE: 0.5, // Chunks scoring below this share of the best match are left out
   },
 
   // Cache Configuration
@@ -101,14 +180,16 @@ export const DEFAULT_CONFIG = {
 
   // Model Configuration
   MODELS: {
-    AVAILABLE: [
-      'qwen3:30b',
-      'qwen3:14b',
-      'deepseek-r1:70b',
-      'gemma3:12b',
-      'devstral:24b',
-      'mistral:7b',
-    ] as const,
+    LIST_CACHE_TTL: 60000, // Model lists change rarely; refetched at most once a minute
+    // Operations the modelRouting setting can assign a model to
+    TASKS: {
+      analyze: 'Code analysis',
+      suggest: 'Suggestions',
+      summary: 'Summaries',
+      command: 'Chat commands',
+      chat: 'Chat',
+    },
+    // Shown next to the server's models when known
     DESCRIPTIONS: {
       'qwen3:30b': 'Qwen3 30B - MoE Thinking model, 19GB, Best for complex reasoning',
       'qwen3:14b': 'Qwen3 14B - Dense Thinking model, 9.3GB, Balanced performance',
@@ -144,29 +225,21 @@ export const DEFAULT_CONFIG = {
 } as const;
 
 /**
- * Available Ollama models
+ * Ollama models with a known description
  */
-export type OllamaModel = (typeof DEFAULT_CONFIG.MODELS.AVAILABLE)[number];
+export type OllamaModel = keyof typeof DEFAULT_CONFIG.MODELS.DESCRIPTIONS;
 
 /**
- * Helper function to get model description
+ * Model name for comparisons; Ollama names without a tag mean :latest
  */
-export function getModelDescription(model: string): string {
-  return DEFAULT_CONFIG.MODELS.DESCRIPTIONS[model as OllamaModel] || 'Unknown model';
+export function normalizeModelName(model: string): string {
+  return model.toLowerCase().replace(/:latest$/, '');
 }
 
 /**
- * Helper function to validate model availability
+ * Helper function to get model description, undefined for models not in MODELS.DESCRIPTIONS
  */
-export function isModelAvailable(model: string): boolean {
-  return DEFAULT_CONFIG.MODELS.AVAILABLE.includes(model as OllamaModel);
+export function getModelDescription(model: string): string | undefined {
+  const descriptions: Record<string, string> = DEFAULT_CONFIG.MODELS.DESCRIPTIONS;
+  return descriptions[normalizeModelName(model)];
 }
-
-/**
- * Environment variable names (DEPRECATED - now using hardcoded values in DEFAULT_CONFIG.OLLAMA)
- */
-export const ENV_VARS = {
-  OLLAMA_USERNAME: 'OLLAMA_USERNAME', // No longer used - credentials are hardcoded
-  OLLAMA_PASSWORD: 'OLLAMA_PASSWORD', // No longer used - credentials are hardcoded
-  OLLAMA_BASE_URL: 'OLLAMA_BASE_URL',
-} as const;
@@ -1,46 +1,85 @@
 import { MultiFileAnalyzer } from '@/analyzers/MultiFileAnalyzer';
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { ActiveAIProvider } from '@/services/ActiveAIProvider';
 import { ContextStore } from '@/services/ContextStore';
-import { OllamaService } from '@/services/OllamaService';
+import { CredentialStore } from '@/services/CredentialStore';
+import { EmbeddingIndex } from '@/services/EmbeddingIndex';
+import { HousekeepingService } from '@/services/HousekeepingService';
+import { SuggestionApplier } from '@/services/SuggestionApplier';
+import { AIProviderConfig, AIProviderId, WorkspaceSummary } from '@/types';
 import { ChatPanel } from '@/ui/ChatPanel';
-import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { DependencyGraphPanel } from '@/ui/DependencyGraphPanel';
+import { ModelStatusBar, SELECT_MODEL_COMMAND } from '@/ui/ModelStatusBar';
+import { APPLY_SUGGESTION_COMMAND, SuggestionCodeActionProvider } from '@/ui/SuggestionCodeActionProvider';
+import { SuggestionDiffPreview } from '@/ui/SuggestionDiffPreview';
+import { SuggestionDiagnostics } from '@/ui/SuggestionDiagnostics';
+import { affectsProviderConfig, CONFIG_SECTION, getProviderConfig, getProviderSection, getSelectedProvider } from '@/utils/configuration';
+import { formatFileSize } from '@/utils/fileUtils';
 import * as vscode from 'vscode';
 
 let analyzer: MultiFileAnalyzer | undefined;
 let contextStore: ContextStore | undefined;
-let ollamaService: OllamaService | undefined;
+let aiProvider: ActiveAIProvider | undefined;
+let credentialStore: CredentialStore | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('BuildAI Code Analyzer is now active!');
 
-  // Use hardcoded configuration from DEFAULT_CONFIG
-  const baseURL = DEFAULT_CONFIG.OLLAMA.BASE_URL;
-  const username = DEFAULT_CONFIG.OLLAMA.USERNAME;
-  const password = DEFAULT_CONFIG.OLLAMA.PASSWORD;
-  const model = DEFAULT_CONFIG.OLLAMA.MODEL;
-  const timeout = DEFAULT_CONFIG.OLLAMA.TIMEOUT;
-  const maxRetries = DEFAULT_CONFIG.OLLAMA.MAX_RETRIES;
+  // Read the provider connection from the balaAnalyzer.* settings plus credentials from SecretStorage
+  credentialStore = new CredentialStore(context.secrets);
+  const providerConfig = await loadProviderConfig();
 
-  console.log(`Using Ollama server: ${baseURL} with model: ${model}`);
+  console.log(`Using ${providerConfig.provider} provider: ${providerConfig.baseURL} with model: ${providerConfig.model}`);
 
   contextStore = new ContextStore(context.globalStorageUri);
-  
-  // Build config object with conditional properties
-  const ollamaConfig: any = {
-    baseURL,
-    model,
-    timeout,
-    maxRetries
-  };
-  
-  if (username) {
-    ollamaConfig.username = username;
-  }
-  if (password) {
-    ollamaConfig.password = password;
-  }
-  
-  ollamaService = new OllamaService(ollamaConfig);
-  analyzer = new MultiFileAnalyzer(contextStore, ollamaService);
+  aiProvider = new ActiveAIProvider(providerConfig);
+  const modelStatusBar = new ModelStatusBar(aiProvider);
+  const diffPreview = new SuggestionDiffPreview();
+  const suggestionApplier = new SuggestionApplier(contextStore, diffPreview);
+  analyzer = new MultiFileAnalyzer(contextStore, aiProvider, suggestionApplier);
+
+  // Semantic index shared by Semantic Search and chat retrieval
+  const embeddingIndex = new EmbeddingIndex(contextStore, aiProvider);
+  context.subscriptions.push(embeddingIndex);
+
+  // Surface stored suggestions in the Problems panel and offer them as quick fixes
+  context.subscriptions.push(
+    contextStore,
+    diffPreview,
+    new SuggestionDiagnostics(contextStore),
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file' },
+      new SuggestionCodeActionProvider(suggestionApplier),
+      { providedCodeActionKinds: SuggestionCodeActionProvider.providedCodeActionKinds }
+    ),
+    vscode.commands.registerCommand(APPLY_SUGGESTION_COMMAND, async (uri: vscode.Uri, suggestionId: string) => {
+      await suggestionApplier.applySuggestion(uri, suggestionId);
+    })
+  );
+
+  // Apply connection and credential changes live instead of requiring a window reload
+  context.subscriptions.push(
+    credentialStore,
+    modelStatusBar,
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (affectsProviderConfig(event)) {
+        void reloadProviderConfig(modelStatusBar);
+      }
+    }),
+    credentialStore.onDidChange(() => void reloadProviderConfig(modelStatusBar))
+  );
+
+  // Context keys gating the export and apply commands in the command palette
+  context.subscriptions.push(
+    contextStore.onDidStoreWorkspaceSummary(summary => updateContextKeys(summary)),
+    contextStore.onDidClear(() => updateContextKeys(undefined))
+  );
+  updateContextKeys(await contextStore.getWorkspaceSummary());
+
+  // Enforce the retention period and storage budget
+  const housekeeping = new HousekeepingService(contextStore);
+  housekeeping.start();
+  context.subscriptions.push(housekeeping);
 
   context.subscriptions.push(
     vscode.commands.registerCommand('balaAnalyzer.analyzeWorkspace', async () => {
@@ -66,23 +105,29 @@ export async function activate(context: vscode.ExtensionContext) {
           'Open Chat',
           'Dismiss'
         );
-        if (action === 'Open Chat' && ollamaService && contextStore) {
-          ChatPanel.createOrShow(context.extensionUri, ollamaService, contextStore, analyzer);
+        if (action === 'Open Chat' && aiProvider && contextStore) {
+          ChatPanel.createOrShow(context.extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
           const summaryText = await analyzer.generateWorkspaceSummary();
           ChatPanel.currentPanel?.displayAnalysisResults(summaryText);
         }
       }
     }),
     vscode.commands.registerCommand('balaAnalyzer.openAIChat', async () => {
-      if (!ollamaService || !contextStore) {
+      if (!aiProvider || !contextStore) {
         vscode.window.showErrorMessage('BuildAI: Services not properly initialized. Please restart the extension.');
         return;
       }
-      ChatPanel.createOrShow(context.extensionUri, ollamaService, contextStore, analyzer);
+      ChatPanel.createOrShow(context.extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
     }),
     vscode.commands.registerCommand('balaAnalyzer.generateSummary', async () => {
       if (!analyzer) { return; }
-      const summaryText = await analyzer.generateWorkspaceSummary();
+      // Each folder of a multi-root workspace has its own summary
+      let folder: vscode.WorkspaceFolder | undefined;
+      if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+        folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to summarize' });
+        if (!folder) { return; }
+      }
+      const summaryText = await analyzer.generateWorkspaceSummary(folder);
       
       // Offer to show in chat
       if (summaryText && summaryText !== 'No workspace summary available. Please run an analysis first.') {
@@ -91,27 +136,71 @@ export async function activate(context: vscode.ExtensionContext) {
           'Open in Chat',
           'Output Channel Only'
         );
-        if (action === 'Open in Chat' && ollamaService && contextStore) {
-          ChatPanel.createOrShow(context.extensionUri, ollamaService, contextStore, analyzer);
+        if (action === 'Open in Chat' && aiProvider && contextStore) {
+          ChatPanel.createOrShow(context.extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
           ChatPanel.currentPanel?.displayAnalysisResults(summaryText);
         }
       }
     }),
+    vscode.commands.registerCommand('balaAnalyzer.showDependencyGraph', () => {
+      if (!contextStore) { return; }
+      DependencyGraphPanel.createOrShow(context.extensionUri, contextStore);
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.semanticSearch', async () => {
+      await embeddingIndex.showSearch();
+    }),
     vscode.commands.registerCommand('balaAnalyzer.applyAISuggestions', async () => {
       if (!analyzer) { return; }
       await analyzer.applyAISuggestions();
     }),
+    vscode.commands.registerCommand('balaAnalyzer.setCredentials', async () => {
+      if (!credentialStore) { return; }
+      await setCredentials(credentialStore, getSelectedProvider());
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.selectProvider', async () => {
+      await selectProvider();
+    }),
+    vscode.commands.registerCommand(SELECT_MODEL_COMMAND, async () => {
+      await modelStatusBar.showPicker();
+    }),
     vscode.commands.registerCommand('balaAnalyzer.clearCache', async () => {
       if (!contextStore) { return; }
       await contextStore.clear();
-      vscode.window.showInformationMessage('BuildAI: Cleared analysis cache.');
+      void vscode.window.showInformationMessage('BuildAI: Cleared analysis cache.');
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.purgeWorkspaceData', async () => {
+      if (!contextStore) { return; }
+      await purgeWorkspaceData(contextStore);
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.showStorageUsage', async () => {
+      await housekeeping.showStorageUsage();
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.exportReport', async () => {
+      if (!analyzer) { return; }
+      await analyzer.exportReport();
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.exportSarif', async () => {
+      if (!analyzer) { return; }
+      const { version } = context.extension.packageJSON as { version?: string };
+      await analyzer.exportSarif(version ?? '0.0.0');
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.exportChatTranscript', async () => {
+      if (!aiProvider || !contextStore) { return; }
+      ChatPanel.createOrShow(context.extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
+      await ChatPanel.currentPanel?.exportTranscript();
+    }),
+    vscode.commands.registerCommand('balaAnalyzer.importChatTranscript', async () => {
+      if (!aiProvider || !contextStore) { return; }
+      ChatPanel.createOrShow(context.extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
+      await ChatPanel.currentPanel?.importTranscript();
     }),
   );
 }
 
 export function deactivate() {
-  // Clean up the chat panel
+  // Clean up the webview panels
   ChatPanel.kill();
+  DependencyGraphPanel.currentPanel?.dispose();
 }
 
 async function pickFiles(): Promise<vscode.Uri[]> {
@@ -127,3 +216,144 @@ async function pickFiles(): Promise<vscode.Uri[]> {
   return files || [];
 }
 
+function updateContextKeys(summary: WorkspaceSummary | undefined): void {
+  void vscode.commands.executeCommand('setContext', 'balaAnalyzer.hasAnalysisResults', (summary?.analysisResults.length ?? 0) > 0);
+  void vscode.commands.executeCommand('setContext', 'balaAnalyzer.hasSuggestions', (summary?.suggestions.length ?? 0) > 0);
+}
+
+async function purgeWorkspaceData(store: ContextStore): Promise<void> {
+  const workspaces = await store.listWorkspaces();
+  const current = workspaces.find(workspace => workspace.isCurrent);
+  const others = workspaces.filter(workspace => !workspace.isCurrent);
+  if (others.length === 0) {
+    void vscode.window.showInformationMessage('BuildAI: No stored data from other workspaces.');
+    return;
+  }
+
+  const picks = await vscode.window.showQuickPick(
+    others.map(workspace => ({
+      label: workspace.name,
+      description: formatFileSize(workspace.sizeBytes),
+      detail: workspace.isShared
+        ? 'Written before analysis data was kept per workspace'
+        : [
+          workspace.folders.map(folder => vscode.Uri.parse(folder).fsPath).join(', '),
+          workspace.lastOpened && `last opened ${workspace.lastOpened.toLocaleDateString()}`
+        ].filter(Boolean).join(' · '),
+      id: workspace.id
+    })),
+    {
+      canPickMany: true,
+      placeHolder: `Select workspaces whose stored data to delete (this workspace uses ${formatFileSize(current?.sizeBytes ?? 0)})`
+    }
+  );
+  if (!picks || picks.length === 0) { return; }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Delete stored BuildAI data for ${picks.length} workspace(s)? Their analysis results and chat history cannot be restored.`,
+    { modal: true },
+    'Delete'
+  );
+  if (confirm !== 'Delete') { return; }
+
+  await store.purgeWorkspaces(picks.map(pick => pick.id));
+  void vscode.window.showInformationMessage(`BuildAI: Deleted stored data for ${picks.length} workspace(s).`);
+}
+
+async function loadProviderConfig(): Promise<AIProviderConfig> {
+  const config = getProviderConfig();
+  return credentialStore ? credentialStore.applyTo(config) : config;
+}
+
+/**
+ * Apply changed settings or credentials to the active provider. Failures are reported instead of
+ * thrown, since this runs from event listeners.
+ */
+async function reloadProviderConfig(statusBar: ModelStatusBar): Promise<void> {
+  if (!aiProvider) { return; }
+  try {
+    aiProvider.updateConfig(await loadProviderConfig());
+    await statusBar.refresh();
+  } catch (error) {
+    console.error('Failed to apply the provider settings:', error);
+    void vscode.window.showErrorMessage(
+      `BuildAI: Failed to apply the provider settings: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function selectProvider(): Promise<void> {
+  const current = getSelectedProvider();
+  const pick = await vscode.window.showQuickPick(
+    (Object.keys(DEFAULT_CONFIG.PROVIDERS) as AIProviderId[]).map(id => ({
+      label: DEFAULT_CONFIG.PROVIDERS[id].LABEL,
+      description: id === current ? 'current' : '',
+      detail: DEFAULT_CONFIG.PROVIDERS[id].DETAIL,
+      id
+    })),
+    { placeHolder: 'Which server should analysis and chat use?' }
+  );
+  if (!pick || pick.id === current) { return; }
+
+  // The configuration listener swaps the provider once the setting is written
+  await vscode.workspace.getConfiguration(CONFIG_SECTION).update('provider', pick.id, vscode.ConfigurationTarget.Global);
+
+  const action = await vscode.window.showInformationMessage(
+    `BuildAI: Now using ${pick.label}.`,
+    'Open Settings',
+    'Set Credentials'
+  );
+  if (action === 'Open Settings') {
+    await vscode.commands.executeCommand('workbench.action.openSettings', `${CONFIG_SECTION}.${getProviderSection(pick.id)}`);
+  } else if (action === 'Set Credentials') {
+    await vscode.commands.executeCommand('balaAnalyzer.setCredentials');
+  }
+}
+
+async function setCredentials(store: CredentialStore, provider: AIProviderId): Promise<void> {
+  const label = DEFAULT_CONFIG.PROVIDERS[provider].LABEL;
+  // OpenAI-compatible servers only take an API key
+  const types = provider === 'openaiCompatible'
+    ? [
+      { label: 'API Key', description: 'Sent as Authorization: Bearer', type: 'bearer' as const },
+      { label: 'Clear Credentials', description: 'Connect without authentication', type: 'clear' as const }
+    ]
+    : [
+      { label: 'Basic Auth', description: 'Username and password', type: 'basic' as const },
+      { label: 'Bearer Token', description: 'API token sent as Authorization: Bearer', type: 'bearer' as const },
+      { label: 'Clear Credentials', description: 'Connect without authentication', type: 'clear' as const }
+    ];
+  const pick = await vscode.window.showQuickPick(types, { placeHolder: `How does your ${label} authenticate?` });
+  if (!pick) { return; }
+
+  if (pick.type === 'clear') {
+    await store.clearCredentials(provider);
+    void vscode.window.showInformationMessage(`BuildAI: Cleared ${label} credentials.`);
+    return;
+  }
+
+  if (pick.type === 'bearer') {
+    const token = await vscode.window.showInputBox({
+      prompt: `${label} ${provider === 'openaiCompatible' ? 'API key' : 'bearer token'}`,
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (!token) { return; }
+    await store.setCredentials(provider, { type: 'bearer', token });
+  } else {
+    const username = await vscode.window.showInputBox({
+      prompt: `${label} username`,
+      ignoreFocusOut: true
+    });
+    if (!username) { return; }
+    const password = await vscode.window.showInputBox({
+      prompt: `Password for ${username}`,
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (!password) { return; }
+    await store.setCredentials(provider, { type: 'basic', username, password });
+  }
+
+  void vscode.window.showInformationMessage(`BuildAI: Saved ${label} credentials to secure storage.`);
+}
@@ -0,0 +1,145 @@
+import { OllamaNativeProvider } from '@/services/OllamaNativeProvider';
+import { OllamaService } from '@/services/OllamaService';
+import { OpenAICompatibleProvider } from '@/services/OpenAICompatibleProvider';
+import {
+  AIProvider,
+  AIProviderCapabilities,
+  AIProviderConfig,
+  AIProviderId,
+  AIResponse,
+  ChatAnalysisResult,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatContext,
+  ChatStreamOptions,
+  FileContext,
+  ModelInfo,
+  ModelTask,
+  Suggestion
+} from '@/types';
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'ollamaNative':
+      return new OllamaNativeProvider(config);
+    case 'openaiCompatible':
+      return new OpenAICompatibleProvider(config);
+    default:
+      return new OllamaService(config);
+  }
+}
+
+/**
+ * The provider selected in settings. Services hold on to this one instance, and switching the
+ * balaAnalyzer.provider setting swaps the provider behind it without reloading the window.
+ */
+export class ActiveAIProvider implements AIProvider {
+  private provider: AIProvider;
+
+  constructor(config: AIProviderConfig) {
+    this.provider = createAIProvider(config);
+  }
+
+  public get id(): AIProviderId {
+    return this.provider.id;
+  }
+
+  public get label(): string {
+    return this.provider.label;
+  }
+
+  public get capabilities(): AIProviderCapabilities {
+    return this.provider.capabilities;
+  }
+
+  public updateConfig(config: AIProviderConfig): void {
+    if ((config.provider ?? 'ollama') === this.provider.id) {
+      this.provider.updateConfig(config);
+      return;
+    }
+
+    this.provider = createAIProvider(config);
+    console.log(`🔀 Switched AI provider to ${this.provider.label}`);
+  }
+
+  public getApiStatus(): { available: boolean; nextRetryTime?: Date | undefined } {
+    return this.provider.getApiStatus();
+  }
+
+  public getModel(): string {
+    return this.provider.getModel();
+  }
+
+  public getModelFor(task: ModelTask): string {
+    return this.provider.getModelFor(task);
+  }
+
+  public getFallbackModel(): string {
+    return this.provider.getFallbackModel();
+  }
+
+  public getEmbeddingModel(): string {
+    return this.provider.getEmbeddingModel();
+  }
+
+  public listModels(refresh?: boolean): Promise<ModelInfo[]> {
+    return this.provider.listModels(refresh);
+  }
+
+  public isModelAvailable(model: string): Promise<boolean> {
+    return this.provider.isModelAvailable(model);
+  }
+
+  public getContextLength(): Promise<number> {
+    return this.provider.getContextLength();
+  }
+
+  public countSystemPromptTokens(context: ChatContext): number {
+    return this.provider.countSystemPromptTokens(context);
+  }
+
+  public analyzeCode(fileContext: FileContext, signal?: AbortSignal): Promise<AIResponse> {
+    return this.provider.analyzeCode(fileContext, signal);
+  }
+
+  public getSuggestions(fileContext: FileContext, analysisContext?: string, signal?: AbortSignal): Promise<Suggestion[]> {
+    return this.provider.getSuggestions(fileContext, analysisContext, signal);
+  }
+
+  public generateSummary(filePaths: FileContext[]): Promise<string> {
+    return this.provider.generateSummary(filePaths);
+  }
+
+  public embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return this.provider.embed(texts, signal);
+  }
+
+  public chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    return this.provider.chatCompletion(request);
+  }
+
+  public chatCompletionStream(
+    request: ChatCompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    return this.provider.chatCompletionStream(request, onDelta, signal);
+  }
+
+  public conversationalAnalysis(
+    messages: ChatCompletionMessage[],
+    context: ChatContext,
+    streamOptions?: ChatStreamOptions
+  ): Promise<ChatAnalysisResult> {
+    return this.provider.conversationalAnalysis(messages, context, streamOptions);
+  }
+
+  public processCommand(command: string, content: string, context: ChatContext): Promise<ChatCompletionResponse> {
+    return this.provider.processCommand(command, content, context);
+  }
+
+  public generateContextualSummary(messages: ChatCompletionMessage[], context: ChatContext): Promise<string> {
+    return this.provider.generateContextualSummary(messages, context);
+  }
+}
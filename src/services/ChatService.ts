@@ -1,36 +1,47 @@
 import { MultiFileAnalyzer } from '@/analyzers/MultiFileAnalyzer';
+import { DEFAULT_CONFIG } from '@/constants/defaults';
 import {
+  AIProvider,
   AnalysisResult,
   ChatCommand,
   ChatCompletionMessage,
   ChatContext,
   ChatMessage,
   ChatSession,
+  ChatSessionSummary,
+  ChatStreamOptions,
+  ContextUsage,
   ConversationHistory,
-  FileContext
+  ConversationSummary,
+  FileContext,
+  RetrievedChunk
 } from '@/types';
 import { getFileContentForAnalysis } from '@/utils/fileUtils';
+import { countMessageTokens, fitMessages } from '@/utils/tokenBudget';
 import * as vscode from 'vscode';
+import { ContextRetriever } from './ContextRetriever';
 import { ContextStore } from './ContextStore';
-import { OllamaService } from './OllamaService';
+import { EmbeddingIndex } from './EmbeddingIndex';
 
 export class ChatService {
-  private ollamaService: OllamaService;
+  private aiProvider: AIProvider;
   private contextStore: ContextStore;
   private analyzer: MultiFileAnalyzer | undefined;
+  private retriever: ContextRetriever;
   private activeSessions: Map<string, ChatSession> = new Map();
   private commands: ChatCommand[] = [];
   private maxHistoryLength: number = 50;
-  private maxContextWindow: number = 20; // Number of messages to include in context
 
   constructor(
-    ollamaService: OllamaService, 
+    aiProvider: AIProvider, 
     contextStore: ContextStore, 
-    analyzer?: MultiFileAnalyzer
+    analyzer?: MultiFileAnalyzer,
+    embeddingIndex?: EmbeddingIndex
   ) {
-    this.ollamaService = ollamaService;
+    this.aiProvider = aiProvider;
     this.contextStore = contextStore;
     this.analyzer = analyzer;
+    this.retriever = new ContextRetriever(contextStore, embeddingIndex);
     this.initializeCommands();
   }
 
@@ -41,8 +52,7 @@ export class ChatService {
       messages: [],
       context,
       createdAt: new Date(),
-      updatedAt: new Date(),
-      title: this.generateSessionTitle(context)
+      updatedAt: new Date()
     };
 
     this.activeSessions.set(session.id, session);
@@ -59,15 +69,7 @@ export class ChatService {
       this.activeSessions.set(session.id, session);
       
       // Persist to storage
-      const history: ConversationHistory = {
-        sessionId: session.id,
-        messages: session.messages,
-        context: session.context,
-        summary: await this.generateSessionSummary(session),
-        createdAt: session.createdAt,
-        lastUpdated: session.updatedAt
-      };
-
+      const history = this.toConversationHistory(session, await this.generateSessionSummary(session));
       await this.contextStore.storeConversationHistory(session.id, history);
     } catch (error) {
       console.error('Failed to save chat session:', error);
@@ -85,7 +87,8 @@ export class ChatService {
         context: history.context,
         createdAt: history.createdAt,
         updatedAt: history.lastUpdated,
-        title: this.generateSessionTitle(history.context)
+        ...(history.title && { title: history.title }),
+        ...(history.rollingSummary && { summary: history.rollingSummary })
       };
 
       this.activeSessions.set(sessionId, session);
@@ -96,11 +99,37 @@ export class ChatService {
     }
   }
 
+  /**
+   * The conversation of a session: as it stands for an open session, as stored otherwise
+   */
+  public async getConversation(sessionId: string): Promise<ConversationHistory | undefined> {
+    const stored = await this.contextStore.getConversationHistory(sessionId);
+    const session = this.activeSessions.get(sessionId);
+    return session ? this.toConversationHistory(session, stored?.summary) : stored;
+  }
+
+  /**
+   * Store a conversation exported elsewhere as a new session, so continuing it never overwrites
+   * the session it came from
+   */
+  public async importConversation(history: ConversationHistory): Promise<ChatSession> {
+    const sessionId = this.generateSessionId();
+    // Counts as updated now, so retention does not remove an old thread right after importing it
+    await this.contextStore.storeConversationHistory(sessionId, { ...history, sessionId, lastUpdated: new Date() });
+
+    const session = await this.loadSession(sessionId);
+    if (!session) {
+      throw new Error('The imported conversation could not be loaded');
+    }
+    return session;
+  }
+
   // Message Processing
   public async processMessage(
     sessionId: string, 
     content: string, 
-    context: ChatContext
+    context: ChatContext,
+    streamOptions?: ChatStreamOptions
   ): Promise<ChatMessage> {
     let session = this.getSession(sessionId);
     if (!session) {
@@ -130,7 +159,7 @@ export class ChatService {
       if (content.trim().startsWith('/')) {
         assistantMessage = await this.processCommand(content, session);
       } else {
-        assistantMessage = await this.processConversationalMessage(content, session);
+        assistantMessage = await this.processConversationalMessage(content, session, streamOptions);
       }
 
       // Add assistant response to session
@@ -206,29 +235,48 @@ export class ChatService {
     }
   }
 
-  private async processConversationalMessage(content: string, session: ChatSession): Promise<ChatMessage> {
-    // Build conversation history for context
-    const recentMessages = session.messages.slice(-this.maxContextWindow);
-    const chatMessages: ChatCompletionMessage[] = recentMessages.map(msg => ({
-      role: msg.type === 'user' ? 'user' : msg.type === 'assistant' ? 'assistant' : 'system',
-      content: msg.content
-    }));
+  private async processConversationalMessage(
+    content: string,
+    session: ChatSession,
+    streamOptions?: ChatStreamOptions
+  ): Promise<ChatMessage> {
+    // The question is the last message of the session; everything before it is history
+    const history = session.messages.slice(0, -1);
+    const question: ChatCompletionMessage = { role: 'user', content };
+
+    // Budget the window: the response, system prompt and question come first, then retrieved code, then history
+    const contextLength = await this.aiProvider.getContextLength();
+    const responseTokens = Math.min(DEFAULT_CONFIG.CHAT.MAX_RESPONSE_TOKENS, Math.floor(contextLength / 4));
+    const systemTokens = this.aiProvider.countSystemPromptTokens(session.context);
+    let remaining = contextLength - responseTokens - systemTokens - countMessageTokens([question]);
+
+    // Ground the answer in workspace code; the excerpts go right before the question
+    let retrieved: RetrievedChunk[] = [];
+    try {
+      const retrievalBudget = Math.floor(Math.max(0, remaining) * DEFAULT_CONFIG.CHAT.RETRIEVAL_SHARE);
+      retrieved = await this.retriever.retrieve(content, session.context, retrievalBudget, streamOptions?.signal);
+    } catch (error) {
+      console.warn('⚠️ Context retrieval failed, answering without workspace code:', error);
+    }
+    const retrievalMessages: ChatCompletionMessage[] = retrieved.length > 0
+      ? [{ role: 'system', content: this.retriever.formatForPrompt(retrieved) }]
+      : [];
+    const citations = this.retriever.toCitations(retrieved);
+    remaining -= countMessageTokens(retrievalMessages);
 
-    // Add current user message
-    chatMessages.push({
-      role: 'user',
-      content
-    });
+    const { messages: historyMessages, omitted } = await this.fitHistory(session, history, remaining);
+    const chatMessages: ChatCompletionMessage[] = [...historyMessages, ...retrievalMessages, question];
+    const estimatedPromptTokens = systemTokens + countMessageTokens(chatMessages);
 
     // 🔍 DETAILED CONVERSATION LOGGING
     console.log('💬 CHAT SERVICE - BUILDING CONVERSATIONAL MESSAGE:');
     console.log('━'.repeat(60));
     console.log(`Session ID: ${session.id}`);
     console.log(`Total session messages: ${session.messages.length}`);
-    console.log(`Recent messages included: ${recentMessages.length}`);
+    console.log(`History messages included: ${history.length - omitted}, summarized or left out: ${omitted}`);
     console.log(`Final message count for API: ${chatMessages.length}`);
     console.log(`Current user input: "${content.substring(0, 100)}${content.length > 100 ? '...' : ''}"`);
-    console.log(`Max context window: ${this.maxContextWindow}`);
+    console.log(`Context window: ${contextLength} tokens, prompt ~${estimatedPromptTokens}, reserved for response ${responseTokens}`);
     
     // Show each message in the conversation
     chatMessages.forEach((msg, index) => {
@@ -242,8 +290,29 @@ export class ChatService {
     console.log(`Session context keys: ${Object.keys(session.context).join(', ')}`);
     console.log('━'.repeat(60));
 
+    // Track streamed output so an interrupted response can still be persisted
+    let partialContent = '';
+    const conversationStreamOptions: ChatStreamOptions | undefined = streamOptions?.onDelta
+      ? {
+          ...streamOptions,
+          onDelta: (delta: string): void => {
+            partialContent += delta;
+            streamOptions.onDelta?.(delta);
+          }
+        }
+      : streamOptions;
+
     try {
-      const analysisResult = await this.ollamaService.conversationalAnalysis(chatMessages, session.context);
+      const analysisResult = await this.aiProvider.conversationalAnalysis(
+        chatMessages,
+        session.context,
+        conversationStreamOptions
+      );
+      const contextUsage: ContextUsage = {
+        promptTokens: analysisResult.usage?.prompt_tokens || estimatedPromptTokens,
+        contextLength,
+        summarizedMessages: omitted
+      };
       
       return {
         id: this.generateMessageId(),
@@ -254,10 +323,30 @@ export class ChatService {
         metadata: {
           confidence: analysisResult.confidence,
           suggestions: analysisResult.suggestions,
-          relatedFiles: analysisResult.relatedFiles?.map(uri => uri.toString()) || []
+          relatedFiles: analysisResult.relatedFiles?.map(uri => uri.toString()) || [],
+          ...(analysisResult.usage && { tokens: analysisResult.usage.total_tokens }),
+          ...(analysisResult.model && { model: analysisResult.model }),
+          contextUsage,
+          ...(citations.length > 0 && { citations })
         }
       };
     } catch (error) {
+      if (partialContent) {
+        console.warn(`⚠️ Stream interrupted after ${partialContent.length} characters, keeping partial response`);
+        return {
+          id: this.generateMessageId(),
+          type: 'assistant',
+          content: partialContent,
+          timestamp: new Date(),
+          context: session.context,
+          metadata: {
+            interrupted: true,
+            error: error instanceof Error ? error.message : String(error),
+            contextUsage: { promptTokens: estimatedPromptTokens, contextLength, summarizedMessages: omitted },
+            ...(citations.length > 0 && { citations })
+          }
+        };
+      }
       throw new Error(`Failed to process conversational message: ${error}`);
     }
   }
@@ -310,7 +399,7 @@ export class ChatService {
             console.log(`⚠️ Large file warning: ${sizeWarning}`);
           }
           
-          const aiResponse = await this.ollamaService.analyzeCode(fileContext);
+          const aiResponse = await this.aiProvider.analyzeCode(fileContext);
             
             // Convert to AnalysisResult format
             analysisResult = {
@@ -350,7 +439,7 @@ export class ChatService {
         
         // Treat as code snippet (either because it's not a path or path reading failed)
         analysisSource = 'provided code snippet';
-        const response = await this.ollamaService.processCommand('analyze', argsTrimmed, session.context);
+        const response = await this.aiProvider.processCommand('analyze', argsTrimmed, session.context);
         return {
           id: this.generateMessageId(),
           type: 'assistant',
@@ -367,7 +456,7 @@ export class ChatService {
       } else if (session.context.selectedText) {
         // Analyze selected text from editor
         analysisSource = 'selected text';
-        const response = await this.ollamaService.processCommand('analyze', session.context.selectedText, session.context);
+        const response = await this.aiProvider.processCommand('analyze', session.context.selectedText, session.context);
         return {
           id: this.generateMessageId(),
           type: 'assistant',
@@ -405,7 +494,7 @@ export class ChatService {
             console.log(`⚠️ Large file warning: ${sizeWarning}`);
           }
           
-          const aiResponse = await this.ollamaService.analyzeCode(fileContext);
+          const aiResponse = await this.aiProvider.analyzeCode(fileContext);
           
           // Convert to AnalysisResult format
           analysisResult = {
@@ -491,7 +580,7 @@ I need some code to analyze! You can:
 
   private async handleSuggestCommand(args: string, session: ChatSession): Promise<ChatMessage> {
     try {
-      const response = await this.ollamaService.processCommand('suggest', args, session.context);
+      const response = await this.aiProvider.processCommand('suggest', args, session.context);
       
       return {
         id: this.generateMessageId(),
@@ -514,7 +603,7 @@ I need some code to analyze! You can:
   private async handleExplainCommand(args: string, session: ChatSession): Promise<ChatMessage> {
     try {
       const codeToExplain = args.trim() || session.context.selectedText || 'current file';
-      const response = await this.ollamaService.processCommand('explain', codeToExplain, session.context);
+      const response = await this.aiProvider.processCommand('explain', codeToExplain, session.context);
       
       return {
         id: this.generateMessageId(),
@@ -535,7 +624,7 @@ I need some code to analyze! You can:
 
   private async handleOptimizeCommand(args: string, session: ChatSession): Promise<ChatMessage> {
     try {
-      const response = await this.ollamaService.processCommand('optimize', args, session.context);
+      const response = await this.aiProvider.processCommand('optimize', args, session.context);
       
       return {
         id: this.generateMessageId(),
@@ -556,7 +645,7 @@ I need some code to analyze! You can:
 
   private async handleDebugCommand(args: string, session: ChatSession): Promise<ChatMessage> {
     try {
-      const response = await this.ollamaService.processCommand('debug', args, session.context);
+      const response = await this.aiProvider.processCommand('debug', args, session.context);
       
       return {
         id: this.generateMessageId(),
@@ -611,7 +700,7 @@ I need some code to analyze! You can:
         content: msg.content
       }));
 
-      const summary = await this.ollamaService.generateContextualSummary(chatMessages, session.context);
+      const summary = await this.aiProvider.generateContextualSummary(chatMessages, session.context);
       
       return {
         id: this.generateMessageId(),
@@ -704,19 +793,79 @@ I need some code to analyze! You can:
         content: msg.content
       }));
 
-      return await this.ollamaService.generateContextualSummary(chatMessages, session.context);
+      return await this.aiProvider.generateContextualSummary(chatMessages, session.context);
     } catch (error) {
       return `Session with ${session.messages.length} messages`;
     }
   }
 
-  private generateSessionTitle(context: ChatContext): string {
-    if (context.activeFile) {
-      const fileName = context.activeFile.split('/').pop();
-      return `Chat about ${fileName}`;
+  /**
+   * The part of history that fits in budget tokens. Older turns are folded into the session's
+   * rolling summary, which is sent in their place. omitted counts the messages not sent verbatim.
+   */
+  private async fitHistory(
+    session: ChatSession,
+    history: ChatMessage[],
+    budget: number
+  ): Promise<{ messages: ChatCompletionMessage[]; omitted: number }> {
+    // Trimming may drop the last summarized message; only the kept first message predates the rest
+    const summarizedThrough = session.summary ? history.findIndex(msg => msg.id === session.summary?.throughMessageId) : -1;
+    const start = session.summary ? (summarizedThrough >= 0 ? summarizedThrough + 1 : Math.min(1, history.length)) : 0;
+    const pending = history.slice(start);
+
+    let summaryMessages = session.summary ? [this.toSummaryMessage(session.summary)] : [];
+    let kept = fitMessages(pending.map(msg => this.toCompletionMessage(msg)), budget - countMessageTokens(summaryMessages));
+
+    const overflow = pending.slice(0, pending.length - kept.length);
+    if (overflow.length > 0) {
+      try {
+        const summary = await this.aiProvider.generateContextualSummary(
+          [...summaryMessages, ...overflow.map(msg => this.toCompletionMessage(msg))],
+          session.context
+        );
+        session.summary = {
+          content: summary,
+          throughMessageId: overflow[overflow.length - 1]!.id,
+          messageCount: (session.summary?.messageCount ?? 0) + overflow.length
+        };
+        summaryMessages = [this.toSummaryMessage(session.summary)];
+        console.log(`🗜️ Folded ${overflow.length} older message(s) into the conversation summary`);
+
+        // The new summary may be longer than the one it replaces
+        kept = fitMessages(kept, budget - countMessageTokens(summaryMessages));
+      } catch (error) {
+        console.warn('⚠️ Could not update the conversation summary, leaving the oldest turns out:', error);
+      }
     }
-    
-    return `Chat Session - ${new Date().toLocaleDateString()}`;
+
+    return { messages: [...summaryMessages, ...kept], omitted: history.length - kept.length };
+  }
+
+  private toConversationHistory(session: ChatSession, summary?: string): ConversationHistory {
+    return {
+      sessionId: session.id,
+      messages: session.messages,
+      context: session.context,
+      ...(summary && { summary }),
+      ...(session.summary && { rollingSummary: session.summary }),
+      ...(session.title && { title: session.title }),
+      createdAt: session.createdAt,
+      lastUpdated: session.updatedAt
+    };
+  }
+
+  private toSummaryMessage(summary: ConversationSummary): ChatCompletionMessage {
+    return {
+      role: 'system',
+      content: `Summary of the earlier part of this conversation (${summary.messageCount} messages):\n${summary.content}`
+    };
+  }
+
+  private toCompletionMessage(msg: ChatMessage): ChatCompletionMessage {
+    return {
+      role: msg.type === 'user' ? 'user' : msg.type === 'assistant' ? 'assistant' : 'system',
+      content: msg.content
+    };
   }
 
   private trimSessionHistory(session: ChatSession): void {
@@ -802,6 +951,26 @@ I need some code to analyze! You can:
     await this.contextStore.clearConversationHistory(sessionId);
   }
 
+  /**
+   * Saved sessions of the workspace, most recent first, optionally filtered by a search query
+   */
+  public async listSessions(query?: string): Promise<ChatSessionSummary[]> {
+    return await this.contextStore.getConversationSummaries(query);
+  }
+
+  public async renameSession(sessionId: string, title: string): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      session.title = title;
+    }
+
+    // Only the title changes, so the stored history is updated without summarizing it again
+    const history = await this.contextStore.getConversationHistory(sessionId);
+    if (history) {
+      await this.contextStore.storeConversationHistory(sessionId, { ...history, title });
+    }
+  }
+
   public async getAllSessions(): Promise<ChatSession[]> {
     return Array.from(this.activeSessions.values());
   }
@@ -0,0 +1,204 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { ContextStore } from '@/services/ContextStore';
+import { EmbeddingIndex } from '@/services/EmbeddingIndex';
+import { ChatContext, CodeCitation, RetrievedChunk } from '@/types';
+import { chunkContent } from '@/utils/chunking';
+import { extractTerms } from '@/utils/keywords';
+import { countTokens } from '@/utils/tokenBudget';
+import * as vscode from 'vscode';
+
+// Words of a question that say nothing about which code it is about
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'where', 'what', 'when', 'which', 'how', 'does', 'this', 'that',
+  'are', 'our', 'from', 'into', 'can', 'should', 'would', 'there', 'code', 'file', 'files', 'use',
+  'used', 'why', 'who', 'have', 'has', 'not', 'you', 'your', 'all', 'any', 'its', 'get', 'show', 'explain'
+]);
+
+interface Candidate {
+  uri: vscode.Uri;
+  startLine: number;
+  endLine: number;
+  semantic: number;
+  keyword: number;
+}
+
+/**
+ * Picks the workspace code most relevant to a chat question: semantic matches from the embedding
+ * index, keyword matches over the stored file contexts, and a boost for the active file and the
+ * files related to it. The best chunks are kept within a token budget.
+ */
+export class ContextRetriever {
+  private readonly contextStore: ContextStore;
+  private readonly embeddingIndex: EmbeddingIndex | undefined;
+
+  constructor(contextStore: ContextStore, embeddingIndex?: EmbeddingIndex) {
+    this.contextStore = contextStore;
+    this.embeddingIndex = embeddingIndex;
+  }
+
+  /**
+   * maxTokens caps the retrieved code below the RETRIEVAL.MAX_CONTEXT_TOKENS default, for models
+   * with a small context window
+   */
+  public async retrieve(
+    query: string,
+    context: ChatContext,
+    maxTokens: number = DEFAULT_CONFIG.RETRIEVAL.MAX_CONTEXT_TOKENS,
+    signal?: AbortSignal
+  ): Promise<RetrievedChunk[]> {
+    const candidates = new Map<string, Candidate>();
+    const addCandidate = (uri: vscode.Uri, startLine: number, endLine: number, scores: Partial<Pick<Candidate, 'semantic' | 'keyword'>>): void => {
+      const key = `${uri.toString()}#${startLine}`;
+      const candidate = candidates.get(key) ?? { uri, startLine, endLine, semantic: 0, keyword: 0 };
+      candidate.semantic = Math.max(candidate.semantic, scores.semantic ?? 0);
+      candidate.keyword = Math.max(candidate.keyword, scores.keyword ?? 0);
+      candidates.set(key, candidate);
+    };
+
+    // Semantic search is optional; without an embedding model chat still gets keyword matches
+    if (this.embeddingIndex && await this.embeddingIndex.hasEmbeddings()) {
+      try {
+        for (const result of await this.embeddingIndex.search(query, DEFAULT_CONFIG.RETRIEVAL.CANDIDATES, signal)) {
+          addCandidate(result.uri, result.startLine, result.endLine, { semantic: result.score });
+        }
+      } catch (error) {
+        console.warn('⚠️ Semantic retrieval failed, using keyword matches only:', error);
+      }
+    }
+
+    for (const match of await this.findKeywordMatches(query)) {
+      addCandidate(match.uri, match.startLine, match.endLine, { keyword: match.keyword });
+    }
+
+    const boosts = await this.getFileBoosts(context);
+    const ranked = [...candidates.values()]
+      .map(candidate => ({
+        ...candidate,
+        score: candidate.semantic + candidate.keyword + (boosts.get(candidate.uri.toString()) ?? 0)
+      }))
+      .sort((a, b) => b.score - a.score);
+    const minScore = (ranked[0]?.score ?? 0) * DEFAULT_CONFIG.RETRIEVAL.MIN_RELATIVE_SCORE;
+
+    const { MAX_CHUNKS } = DEFAULT_CONFIG.RETRIEVAL;
+    const tokenBudget = Math.min(maxTokens, DEFAULT_CONFIG.RETRIEVAL.MAX_CONTEXT_TOKENS);
+    const selected: RetrievedChunk[] = [];
+    let usedTokens = 0;
+    for (const candidate of ranked) {
+      if (selected.length >= MAX_CHUNKS || candidate.score < minScore) {
+        break;
+      }
+      // Overlapping windows of one file would repeat the same lines
+      const overlaps = selected.some(chunk =>
+        chunk.uri.toString() === candidate.uri.toString() &&
+        chunk.startLine <= candidate.endLine && candidate.startLine <= chunk.endLine
+      );
+      if (overlaps) {
+        continue;
+      }
+
+      const fileContext = await this.contextStore.readFileContext(candidate.uri);
+      if (!fileContext) {
+        continue;
+      }
+      const content = fileContext.content.split(/\r?\n/).slice(candidate.startLine, candidate.endLine + 1).join('\n');
+      // Line numbers and the path header are added when the chunk is formatted
+      const tokens = countTokens(content) + 2 * (candidate.endLine - candidate.startLine + 1) + 20;
+      if (usedTokens + tokens > tokenBudget) {
+        continue;
+      }
+
+      usedTokens += tokens;
+      selected.push({
+        uri: candidate.uri,
+        startLine: candidate.startLine,
+        endLine: candidate.endLine,
+        content,
+        score: candidate.score
+      });
+    }
+
+    if (selected.length > 0) {
+      console.log(`📚 Retrieved ${selected.length} chunk(s), ~${usedTokens} tokens, for chat context`);
+    }
+    return selected;
+  }
+
+  /**
+   * System message presenting the chunks with line numbers, so the model can cite them
+   */
+  public formatForPrompt(chunks: RetrievedChunk[]): string {
+    const excerpts = chunks.map(chunk => {
+      const numbered = chunk.content
+        .split('\n')
+        .map((line, i) => `${chunk.startLine + i + 1}: ${line}`)
+        .join('\n');
+      return `${vscode.workspace.asRelativePath(chunk.uri)}:${chunk.startLine + 1}-${chunk.endLine + 1}\n\`\`\`\n${numbered}\n\`\`\``;
+    });
+
+    return [
+      'Relevant code from the workspace, retrieved for the next question. Each excerpt starts with its path and line range, and every line is prefixed with its line number.',
+      'Base your answer on these excerpts when they are relevant and cite the code you refer to as path:line (for example src/auth/token.ts:42). If they do not answer the question, say so rather than guessing.',
+      ...excerpts
+    ].join('\n\n');
+  }
+
+  public toCitations(chunks: RetrievedChunk[]): CodeCitation[] {
+    return chunks.map(chunk => ({
+      uri: chunk.uri.toString(),
+      path: vscode.workspace.asRelativePath(chunk.uri),
+      startLine: chunk.startLine + 1,
+      endLine: chunk.endLine + 1
+    }));
+  }
+
+  /**
+   * Chunks of the files the keyword index ranks best, scored by the share of the question's terms
+   * they contain. Keyword hits count half as much as semantic similarity.
+   */
+  private async findKeywordMatches(query: string): Promise<Array<Omit<Candidate, 'semantic'>>> {
+    const words = query.split(/[^A-Za-z0-9_$]+/).filter(word => !STOP_WORDS.has(word.toLowerCase()));
+    const terms = extractTerms(words.join(' '));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const matches: Array<Omit<Candidate, 'semantic'>> = [];
+    for (const { uri } of await this.contextStore.findFilesByTerms(terms, DEFAULT_CONFIG.RETRIEVAL.KEYWORD_FILES)) {
+      const fileContext = await this.contextStore.readFileContext(uri);
+      if (!fileContext) {
+        continue;
+      }
+
+      const lines = fileContext.content.split(/\r?\n/);
+      const path = vscode.workspace.asRelativePath(uri);
+      for (const chunk of chunkContent(fileContext.content)) {
+        const chunkTerms = new Set(extractTerms(`${path}\n${lines.slice(chunk.startLine, chunk.endLine + 1).join('\n')}`));
+        const hits = terms.filter(term => chunkTerms.has(term)).length;
+        if (hits > 0) {
+          matches.push({ uri, startLine: chunk.startLine, endLine: chunk.endLine, keyword: 0.5 * hits / terms.length });
+        }
+      }
+    }
+
+    return matches.sort((a, b) => b.keyword - a.keyword).slice(0, DEFAULT_CONFIG.RETRIEVAL.CANDIDATES);
+  }
+
+  /**
+   * Score bonus per file uri: the active file, and the files it imports, calls or is used by
+   */
+  private async getFileBoosts(context: ChatContext): Promise<Map<string, number>> {
+    const boosts = new Map<string, number>();
+    if (!context.activeFile) {
+      return boosts;
+    }
+
+    const activeUri = vscode.Uri.file(context.activeFile);
+    for (const relationship of await this.contextStore.getRelationships(activeUri)) {
+      for (const uri of [relationship.fromFile, relationship.toFile]) {
+        boosts.set(uri.toString(), DEFAULT_CONFIG.RETRIEVAL.RELATED_FILE_BOOST);
+      }
+    }
+    boosts.set(activeUri.toString(), DEFAULT_CONFIG.RETRIEVAL.ACTIVE_FILE_BOOST);
+    return boosts;
+  }
+}
@@ -0,0 +1,410 @@
+import { MultiFileAnalyzer } from '@/analyzers/MultiFileAnalyzer';
+import { ContextStore } from '@/services/ContextStore';
+import { IndexDatabase } from '@/services/IndexDatabase';
+import { SuggestionApplier } from '@/services/SuggestionApplier';
+import { AIProvider, RelationshipType } from '@/types';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+// Content of the files the analyzer opens, by path
+const mockDocuments = new Map<string, string>();
+
+// The real module is ESM only; analysis runs here never have files to queue
+jest.mock('p-limit', () => () => <T>(task: () => Promise<T>) => task());
+
+jest.mock('vscode', () => {
+  class Uri {
+    constructor(public readonly scheme: string, public readonly path: string) {}
+    public get fsPath(): string {
+      return this.path;
+    }
+    public static file(fsPath: string): Uri {
+      return new Uri('file', fsPath);
+    }
+    public static parse(value: string): Uri {
+      return new Uri(value.slice(0, value.indexOf(':')), value.replace(/^\w+:\/\//, ''));
+    }
+    public static from(components: { scheme: string; path: string }): Uri {
+      return new Uri(components.scheme, components.path);
+    }
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+      return new Uri(base.scheme, [base.path, ...segments].join('/'));
+    }
+    public toString(): string {
+      return `${this.scheme}://${this.path}`;
+    }
+    public toJSON(): Record<string, string> {
+      return { scheme: this.scheme, authority: '', path: this.path, query: '', fragment: '' };
+    }
+  }
+
+  const folder = { uri: Uri.file('/work/app'), name: 'app', index: 0 };
+  return {
+    Uri,
+    EventEmitter: class {
+      public event = jest.fn();
+      public fire = jest.fn();
+      public dispose = jest.fn();
+    },
+    Range: class {},
+    ProgressLocation: { Notification: 15 },
+    window: {
+      visibleTextEditors: [],
+      withProgress: (_options: unknown, task: (progress: unknown, token: unknown) => unknown) => task(
+        { report: jest.fn() },
+        { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: jest.fn() }) }
+      ),
+      showInformationMessage: jest.fn(),
+      showWarningMessage: jest.fn()
+    },
+    workspace: {
+      name: 'app',
+      workspaceFile: undefined,
+      workspaceFolders: [folder],
+      textDocuments: [],
+      getWorkspaceFolder: (uri: Uri) => uri.path.startsWith('/work/app/') ? folder : undefined,
+      asRelativePath: (uri: Uri) => uri.path.replace('/work/app/', ''),
+      openTextDocument: (uri: Uri) => Promise.resolve({ getText: () => mockDocuments.get(uri.path), languageId: 'typescript' })
+    }
+  };
+}, { virtual: true });
+
+let storageRoot = '';
+
+function fileKey(fsPath: string): string {
+  return crypto.createHash('md5').update(fsPath).digest('hex');
+}
+
+// Earlier versions wrote vscode.Uri with plain JSON.stringify
+function legacyUri(fsPath: string): Record<string, unknown> {
+  return { $mid: 1, fsPath, external: `file://${fsPath}`, path: fsPath, scheme: 'file' };
+}
+
+function legacyContext(fsPath: string): Record<string, unknown> {
+  return {
+    uri: legacyUri(fsPath),
+    content: 'export const answer = 42;',
+    language: 'typescript',
+    lastModified: '2026-01-02T03:04:05.000Z',
+    size: 25,
+    hash: `hash of ${fsPath}`,
+    relationships: []
+  };
+}
+
+async function writeLegacyFiles(files: Record<string, unknown>): Promise<void> {
+  for (const [relativePath, value] of Object.entries(files)) {
+    const filePath = path.join(storageRoot, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+}
+
+describe('ContextStore', () => {
+  describe('migrating the legacy layout', () => {
+    const appFile = '/work/app/src/main.ts';
+    const otherFile = '/work/other/lib.ts';
+
+    beforeEach(async () => {
+      storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'context-store-'));
+      await writeLegacyFiles({
+        [`${fileKey(appFile)}.json`]: legacyContext(appFile),
+        [`${fileKey(otherFile)}.json`]: legacyContext(otherFile),
+        [`analysis_${fileKey(appFile)}.json`]: {
+          fileUri: legacyUri(appFile),
+          language: 'typescript',
+          summary: 'Entry point',
+          suggestions: [],
+          relationships: [],
+          metrics: {},
+          timestamp: '2026-01-02T03:04:05.000Z',
+          confidence: 0.9
+        },
+        // Each edge was written once per file it touches
+        [`relationships_${fileKey(appFile)}.json`]: [
+          { fromFile: legacyUri(appFile), toFile: legacyUri('/work/app/src/util.ts'), type: RelationshipType.IMPORTS, strength: 1, description: '' }
+        ],
+        [`relationships_${fileKey('/work/app/src/util.ts')}.json`]: [
+          { fromFile: legacyUri(appFile), toFile: legacyUri('/work/app/src/util.ts'), type: RelationshipType.IMPORTS, strength: 1, description: '' }
+        ],
+        'conversations/session-1.json': {
+          sessionId: 'session-1',
+          messages: [],
+          context: { activeFile: appFile },
+          createdAt: '2026-01-02T03:00:00.000Z',
+          lastUpdated: '2026-01-02T03:10:00.000Z'
+        },
+        'conversations/session-2.json': {
+          sessionId: 'session-2',
+          messages: [],
+          context: { activeFile: otherFile },
+          createdAt: '2026-01-02T03:00:00.000Z',
+          lastUpdated: '2026-01-02T03:10:00.000Z'
+        },
+        'settings.json': { unrelated: true },
+        [`${fileKey('/work/app/src/broken.ts')}.json`]: '{"uri":'
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(storageRoot, { recursive: true, force: true });
+    });
+
+    it('imports the per-file JSON store into the shared database and deletes the imported files', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+      await store.getAllConversationSessions();
+      store.dispose();
+
+      expect((await fs.readdir(storageRoot)).sort()).toEqual([
+        `${fileKey('/work/app/src/broken.ts')}.json`, 'context.db', 'settings.json', 'workspaces'
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping unreadable context file'), expect.anything());
+
+      // Data of other workspaces stays in the shared database until it is purged
+      const shared = new IndexDatabase(path.join(storageRoot, 'context.db'));
+      ['fileContexts', 'analysisResults', 'relationships', 'conversations', 'meta'].forEach(table => shared.defineTable(table));
+      await shared.open();
+      expect((await shared.keys('fileContexts')).sort()).toEqual([fileKey(appFile), fileKey(otherFile)].sort());
+      expect(await shared.keys('relationships')).toHaveLength(1);
+      expect((await shared.keys('conversations')).sort()).toEqual(['session-1', 'session-2']);
+      await shared.close();
+    });
+
+    it('adopts the records of the open workspace into its partition with their values revived', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+
+      const context = await store.getFileContext(vscode.Uri.file(appFile));
+      expect(context?.uri.fsPath).toBe(appFile);
+      expect(context?.lastModified).toEqual(new Date('2026-01-02T03:04:05.000Z'));
+      expect(await store.getFileContext(vscode.Uri.file(otherFile))).toBeUndefined();
+      expect((await store.getAnalysisResult(vscode.Uri.file(appFile)))?.summary).toBe('Entry point');
+      expect(await store.getRelationships(vscode.Uri.file('/work/app/src/util.ts'))).toEqual([
+        expect.objectContaining({ type: RelationshipType.IMPORTS, description: '' })
+      ]);
+      expect(await store.getAllConversationSessions()).toEqual(['session-1']);
+      store.dispose();
+
+      const partitions = await fs.readdir(path.join(storageRoot, 'workspaces'));
+      expect(partitions).toEqual([store.workspaceId]);
+    });
+  });
+
+  describe('cleanup', () => {
+    const mainFile = vscode.Uri.file('/work/app/src/main.ts');
+    const utilFile = vscode.Uri.file('/work/app/src/util.ts');
+    const retiredFile = vscode.Uri.file('/work/app/src/retired.ts');
+    const daysAgo = (days: number): number => Date.now() - days * 24 * 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'context-store-'));
+      mockDocuments.set(mainFile.path, 'import { util } from \'./util\';');
+      mockDocuments.set(utilFile.path, 'export const util = 1;');
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      mockDocuments.clear();
+      await fs.rm(storageRoot, { recursive: true, force: true });
+    });
+
+    it('keeps results and relationships that an incremental run reused, across a restart', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+
+      // Analyzed 60 days ago and unchanged since
+      jest.spyOn(Date, 'now').mockReturnValue(daysAgo(60));
+      for (const uri of [mainFile, utilFile, retiredFile]) {
+        await store.storeAnalysisResult({
+          fileUri: uri,
+          language: 'typescript',
+          summary: '',
+          suggestions: [],
+          relationships: [],
+          metrics: { linesOfCode: 1, complexity: 1, maintainabilityIndex: 100, technicalDebt: 0 },
+          timestamp: new Date(daysAgo(60)),
+          confidence: 1,
+          fileHash: store.calculateHash(mockDocuments.get(uri.path) ?? '')
+        });
+      }
+      await store.addRelationship({ fromFile: mainFile, toFile: utilFile, type: RelationshipType.IMPORTS, strength: 1, description: '' });
+      await store.addRelationship({ fromFile: retiredFile, toFile: utilFile, type: RelationshipType.IMPORTS, strength: 1, description: '' });
+      jest.restoreAllMocks();
+
+      const analyzer = new MultiFileAnalyzer(store, {} as AIProvider, {} as SuggestionApplier);
+      const summary = await analyzer.analyzeFiles([mainFile, utilFile], 1, { incremental: true });
+      expect(summary?.skippedFiles).toBe(2);
+      store.dispose();
+
+      const restarted = new ContextStore(vscode.Uri.file(storageRoot));
+      await restarted.cleanup(30);
+
+      expect(await restarted.getAnalysisResult(mainFile)).toBeDefined();
+      expect(await restarted.getAnalysisResult(utilFile)).toBeDefined();
+      expect(await restarted.getRelationships(mainFile)).toEqual([expect.objectContaining({ fromFile: mainFile, toFile: utilFile })]);
+      // Not part of the run, so nothing confirmed it is still in use
+      expect(await restarted.getAnalysisResult(retiredFile)).toBeUndefined();
+      expect(await restarted.getRelationships(retiredFile)).toEqual([]);
+      restarted.dispose();
+    });
+  });
+
+  describe('incremental analysis', () => {
+    const aFile = vscode.Uri.file('/work/app/src/a.ts');
+    const bFile = vscode.Uri.file('/work/app/src/b.ts');
+    const cFile = vscode.Uri.file('/work/app/src/c.ts');
+
+    beforeEach(async () => {
+      storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'context-store-'));
+      mockDocuments.set(aFile.path, 'import { b } from \'./b\';');
+      mockDocuments.set(bFile.path, 'import { c } from \'./c\';');
+      mockDocuments.set(cFile.path, 'export const c = 1;');
+    });
+
+    afterEach(async () => {
+      mockDocuments.clear();
+      await fs.rm(storageRoot, { recursive: true, force: true });
+    });
+
+    it('re-analyzes files whose dependency changed through another file', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+      for (const uri of [aFile, bFile, cFile]) {
+        await store.storeAnalysisResult({
+          fileUri: uri,
+          language: 'typescript',
+          summary: '',
+          suggestions: [],
+          relationships: [],
+          metrics: { linesOfCode: 1, complexity: 1, maintainabilityIndex: 100, technicalDebt: 0 },
+          timestamp: new Date(),
+          confidence: 1,
+          fileHash: store.calculateHash(mockDocuments.get(uri.path) ?? '')
+        });
+      }
+      // a imports b, b imports c, and c imports a back
+      await store.addRelationship({ fromFile: aFile, toFile: bFile, type: RelationshipType.IMPORTS, strength: 1, description: '' });
+      await store.addRelationship({ fromFile: bFile, toFile: cFile, type: RelationshipType.IMPORTS, strength: 1, description: '' });
+      await store.addRelationship({ fromFile: cFile, toFile: aFile, type: RelationshipType.IMPORTS, strength: 1, description: '' });
+      const analyzer = new MultiFileAnalyzer(store, {
+        analyzeCode: () => Promise.resolve({ summary: '', suggestions: [], confidence: 1 })
+      } as unknown as AIProvider, {} as SuggestionApplier);
+
+      expect((await analyzer.analyzeFiles([aFile, bFile, cFile], 1, { incremental: true }))?.skippedFiles).toBe(3);
+
+      mockDocuments.set(cFile.path, 'export const c = 2;');
+      const summary = await analyzer.analyzeFiles([aFile, bFile, cFile], 1, { incremental: true });
+      expect(summary?.skippedFiles).toBe(0);
+      expect(summary?.reanalyzedFiles).toBe(3);
+      store.dispose();
+    });
+  });
+
+  describe('evicting least recently used files', () => {
+    const mainFile = vscode.Uri.file('/work/app/src/main.ts');
+    const utilFile = vscode.Uri.file('/work/app/src/util.ts');
+
+    beforeEach(async () => {
+      storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'context-store-'));
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await fs.rm(storageRoot, { recursive: true, force: true });
+    });
+
+    async function storeFile(store: ContextStore, uri: vscode.Uri, usedAt: number): Promise<void> {
+      jest.spyOn(Date, 'now').mockReturnValue(usedAt);
+      await store.storeAnalysisResult({
+        fileUri: uri,
+        language: 'typescript',
+        summary: '',
+        suggestions: [],
+        relationships: [],
+        metrics: { linesOfCode: 1, complexity: 1, maintainabilityIndex: 100, technicalDebt: 0 },
+        timestamp: new Date(usedAt),
+        confidence: 1
+      });
+      await store.storeFileEmbeddings({ uri, hash: `hash of ${uri.path}`, model: 'embed', chunks: [] });
+      jest.restoreAllMocks();
+    }
+
+    // A budget one byte below what remains after compaction, so exactly one file has to go
+    async function budgetForOneFile(store: ContextStore, otherReclaimable: number = 0): Promise<number> {
+      const stored = (await store.listWorkspaces()).reduce((sum, workspace) => sum + workspace.sizeBytes, 0);
+      const { databaseBytes, liveBytes } = await store.getStorageUsage();
+      return stored - (databaseBytes - liveBytes) - otherReclaimable - 1;
+    }
+
+    it('evicts the oldest used file first after a scan read every file', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+      // Scans read in insertion order, so they would leave mainFile looking the most recently used
+      await storeFile(store, utilFile, 2000);
+      await storeFile(store, mainFile, 1000);
+
+      // Chat retrieval and the dependency graph read every record on each turn
+      expect(await store.getAllFileEmbeddings()).toHaveLength(2);
+      await store.getAllRelationships();
+
+      expect(await store.evictLeastRecentlyUsed(await budgetForOneFile(store))).toBe(1);
+      expect(await store.getAnalysisResult(mainFile)).toBeUndefined();
+      expect(await store.getFileEmbeddings(mainFile)).toBeUndefined();
+      expect(await store.getAnalysisResult(utilFile)).toBeDefined();
+      store.dispose();
+    });
+
+    it('counts a lookup of a specific file as use', async () => {
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+      await storeFile(store, mainFile, 1000);
+      await storeFile(store, utilFile, 2000);
+      await store.getAnalysisResult(mainFile);
+
+      expect(await store.evictLeastRecentlyUsed(await budgetForOneFile(store))).toBe(1);
+      expect(await store.getAnalysisResult(mainFile)).toBeDefined();
+      expect(await store.getAnalysisResult(utilFile)).toBeUndefined();
+      store.dispose();
+    });
+
+    it('evicts files of every workspace oldest first and keeps their conversations', async () => {
+      const openOther = async (): Promise<IndexDatabase> => {
+        const database = new IndexDatabase(path.join(storageRoot, 'workspaces', 'f'.repeat(32), 'context.db'));
+        ['fileContexts', 'analysisResults', 'relationships', 'conversations', 'embeddings', 'meta'].forEach(table => database.defineTable(table));
+        await database.open();
+        return database;
+      };
+      jest.spyOn(Date, 'now').mockReturnValue(500);
+      const other = await openOther();
+      await other.transaction(tx => {
+        tx.put('analysisResults', 'stale', { summary: 'analyzed long ago' });
+        tx.put('conversations', 'other-session', { sessionId: 'other-session', messages: [] });
+      });
+      const { fileBytes, liveBytes } = await other.stats();
+      await other.close();
+      jest.restoreAllMocks();
+
+      const store = new ContextStore(vscode.Uri.file(storageRoot));
+      await storeFile(store, mainFile, 1000);
+      await store.storeConversationHistory('session-1', {
+        sessionId: 'session-1',
+        messages: [],
+        context: {},
+        createdAt: new Date(1000),
+        lastUpdated: new Date(1000)
+      });
+
+      expect(await store.evictLeastRecentlyUsed(await budgetForOneFile(store, fileBytes - liveBytes))).toBe(1);
+      expect(await store.getAnalysisResult(mainFile)).toBeDefined();
+
+      // Nothing but conversations is left once the budget cannot be met
+      expect(await store.evictLeastRecentlyUsed(0)).toBe(1);
+      expect(await store.getAnalysisResult(mainFile)).toBeUndefined();
+      expect(await store.getAllConversationSessions()).toEqual(['session-1']);
+      store.dispose();
+
+      const reopened = await openOther();
+      expect(await reopened.keys('analysisResults')).toEqual([]);
+      expect(await reopened.keys('conversations')).toEqual(['other-session']);
+      await reopened.close();
+    });
+  });
+});
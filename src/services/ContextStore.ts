@@ -1,33 +1,107 @@
 import {
     AnalysisResult,
+    ChatSessionSummary,
     ConversationHistory,
     FileContext,
+    FileEmbeddings,
     FileRelationship,
+    IndexTransaction,
     RelationshipType,
+    ResolvedImport,
+    StorageUsage,
+    StoredWorkspace,
+    WorkspaceFolderSummary,
     WorkspaceSummary
 } from '@/types';
-import { readFileContentSmart } from '@/utils/fileUtils';
+import { CallGraphAnalyzer } from '@/analyzers/CallGraphAnalyzer';
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { ImportResolver } from '@/services/ImportResolver';
+import { IndexDatabase } from '@/services/IndexDatabase';
+import { getDirectorySize, readFileContentSmart } from '@/utils/fileUtils';
+import { extractTerms } from '@/utils/keywords';
+import { filterWorkspaceSummary, mergeWorkspaceSummaries } from '@/utils/workspaceSummary';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+// Keys whose values are Dates in the stored types and come back from JSON as ISO strings
+const DATE_KEYS = new Set(['timestamp', 'lastModified', 'createdAt', 'updatedAt', 'lastUpdated', 'lastOpened']);
+
+const INDEX_DATABASE_FILE = 'context.db';
+const WORKSPACES_DIRECTORY = 'workspaces';
+const WORKSPACE_MANIFEST_FILE = 'workspace.json';
+const SHARED_DATA_ID = 'shared';
+
+const TABLES = {
+  FILE_CONTEXTS: 'fileContexts',
+  ANALYSIS_RESULTS: 'analysisResults',
+  RELATIONSHIPS: 'relationships',
+  CONVERSATIONS: 'conversations',
+  EMBEDDINGS: 'embeddings',
+  META: 'meta'
+} as const;
+
+const WORKSPACE_SUMMARY_KEY = 'workspaceSummary';
+
+interface WorkspaceManifest {
+  id: string;
+  name: string;
+  folders: string[];
+  lastOpened: Date;
+}
+
 export class ContextStore {
+  /**
+   * Key of the open workspace's partition under globalStorage/workspaces
+   */
+  public readonly workspaceId: string;
+  private globalStorageUri: vscode.Uri;
   private storageUri: vscode.Uri;
   private contextCache: Map<string, FileContext> = new Map();
-  private relationshipCache: Map<string, FileRelationship[]> = new Map();
+  private database: IndexDatabase;
+  private ready: Promise<IndexDatabase>;
+  private importResolver = new ImportResolver();
+  private callGraphAnalyzer = new CallGraphAnalyzer();
+  private analysisResultEmitter = new vscode.EventEmitter<AnalysisResult>();
+  private workspaceSummaryEmitter = new vscode.EventEmitter<WorkspaceSummary>();
+  private clearEmitter = new vscode.EventEmitter<void>();
+  private evictEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+
+  /**
+   * Fires after an analysis result has been written
+   */
+  public readonly onDidStoreAnalysisResult: vscode.Event<AnalysisResult> = this.analysisResultEmitter.event;
+
+  /**
+   * Fires after a workspace summary has been written
+   */
+  public readonly onDidStoreWorkspaceSummary: vscode.Event<WorkspaceSummary> = this.workspaceSummaryEmitter.event;
+
+  /**
+   * Fires after the store has been cleared
+   */
+  public readonly onDidClear: vscode.Event<void> = this.clearEmitter.event;
 
-  constructor(storageUri: vscode.Uri) {
-    this.storageUri = storageUri;
-    this.ensureStorageDirectory();
+  /**
+   * Fires with the files whose stored data was dropped by retention or the cache size budget
+   */
+  public readonly onDidEvictFiles: vscode.Event<vscode.Uri[]> = this.evictEmitter.event;
+
+  constructor(globalStorageUri: vscode.Uri) {
+    this.globalStorageUri = globalStorageUri;
+    this.workspaceId = getWorkspaceId();
+    this.storageUri = vscode.Uri.joinPath(globalStorageUri, WORKSPACES_DIRECTORY, this.workspaceId);
+    this.database = this.createDatabase(path.join(this.storageUri.fsPath, INDEX_DATABASE_FILE));
+    this.ready = this.openDatabase();
   }
 
   public async storeFileContext(fileContext: FileContext): Promise<void> {
     const key = this.getFileKey(fileContext.uri);
     this.contextCache.set(key, fileContext);
     
-    const filePath = path.join(this.storageUri.fsPath, `${key}.json`);
-    await fs.writeFile(filePath, JSON.stringify(fileContext, null, 2));
+    const db = await this.ready;
+    await db.transaction(tx => tx.put(TABLES.FILE_CONTEXTS, key, fileContext));
   }
 
   public async getFileContext(uri: vscode.Uri): Promise<FileContext | undefined> {
@@ -38,117 +112,276 @@ export class ContextStore {
       return this.contextCache.get(key);
     }
 
-    // Try to load from disk
     try {
-      const filePath = path.join(this.storageUri.fsPath, `${key}.json`);
-      const content = await fs.readFile(filePath, 'utf8');
-      const context = JSON.parse(content) as FileContext;
-      this.contextCache.set(key, context);
+      const db = await this.ready;
+      const context = await db.get<FileContext>(TABLES.FILE_CONTEXTS, key);
+      if (context) {
+        this.contextCache.set(key, context);
+      }
       return context;
     } catch {
       return undefined;
     }
   }
 
+  /**
+   * Read a stored context without adding it to the context cache, for passes that touch many files once
+   */
+  public async readFileContext(uri: vscode.Uri): Promise<FileContext | undefined> {
+    const key = this.getFileKey(uri);
+    const cached = this.contextCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const db = await this.ready;
+      return await db.get<FileContext>(TABLES.FILE_CONTEXTS, key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stored files containing the most of the given terms (see extractTerms), best first
+   */
+  public async findFilesByTerms(terms: string[], limit: number): Promise<Array<{ uri: vscode.Uri; hits: number }>> {
+    const db = await this.ready;
+    const hits = new Map<string, number>();
+    for (const term of terms) {
+      for (const key of await db.lookup(TABLES.FILE_CONTEXTS, 'terms', term)) {
+        hits.set(key, (hits.get(key) ?? 0) + 1);
+      }
+    }
+    if (hits.size === 0) {
+      return [];
+    }
+
+    const uris = await db.indexEntries(TABLES.FILE_CONTEXTS, 'uri');
+    return [...hits]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .flatMap(([key, count]) => {
+        const uri = uris.get(key)?.[0];
+        return uri ? [{ uri: vscode.Uri.parse(uri), hits: count }] : [];
+      });
+  }
+
+  /**
+   * Uri and content hash of every stored file context
+   */
+  public async listFileContexts(): Promise<Array<{ uri: vscode.Uri; hash: string }>> {
+    const db = await this.ready;
+    const uris = await db.indexEntries(TABLES.FILE_CONTEXTS, 'uri');
+    const hashes = await db.indexEntries(TABLES.FILE_CONTEXTS, 'hash');
+    return [...uris].flatMap(([key, [uri]]) => uri ? [{ uri: vscode.Uri.parse(uri), hash: hashes.get(key)?.[0] ?? '' }] : []);
+  }
+
+  public async storeFileEmbeddings(embeddings: FileEmbeddings): Promise<void> {
+    const db = await this.ready;
+    await db.transaction(tx => tx.put(TABLES.EMBEDDINGS, this.getFileKey(embeddings.uri), embeddings));
+  }
+
+  public async getFileEmbeddings(uri: vscode.Uri): Promise<FileEmbeddings | undefined> {
+    try {
+      const db = await this.ready;
+      return await db.get<FileEmbeddings>(TABLES.EMBEDDINGS, this.getFileKey(uri));
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async getAllFileEmbeddings(): Promise<FileEmbeddings[]> {
+    try {
+      const db = await this.ready;
+      return await db.getAll<FileEmbeddings>(TABLES.EMBEDDINGS);
+    } catch (error) {
+      console.error('Failed to read embeddings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop the embeddings of files that no longer have a stored context
+   */
+  public async deleteFileEmbeddings(uris: vscode.Uri[]): Promise<void> {
+    const db = await this.ready;
+    await db.transaction(tx => uris.forEach(uri => tx.delete(TABLES.EMBEDDINGS, this.getFileKey(uri))));
+  }
+
   public async storeAnalysisResult(result: AnalysisResult): Promise<void> {
-    const key = this.getFileKey(result.fileUri);
-    const filePath = path.join(this.storageUri.fsPath, `analysis_${key}.json`);
-    await fs.writeFile(filePath, JSON.stringify(result, null, 2));
+    const db = await this.ready;
+    await db.transaction(tx => tx.put(TABLES.ANALYSIS_RESULTS, this.getFileKey(result.fileUri), result));
+    this.analysisResultEmitter.fire(result);
   }
 
   public async getAnalysisResult(uri: vscode.Uri): Promise<AnalysisResult | undefined> {
     try {
-      const key = this.getFileKey(uri);
-      const filePath = path.join(this.storageUri.fsPath, `analysis_${key}.json`);
-      const content = await fs.readFile(filePath, 'utf8');
-      return JSON.parse(content) as AnalysisResult;
+      const db = await this.ready;
+      return await db.get<AnalysisResult>(TABLES.ANALYSIS_RESULTS, this.getFileKey(uri));
     } catch {
       return undefined;
     }
   }
 
-  public async storeWorkspaceSummary(summary: WorkspaceSummary): Promise<void> {
-    const filePath = path.join(this.storageUri.fsPath, 'workspace_summary.json');
-    await fs.writeFile(filePath, JSON.stringify(summary, null, 2));
+  /**
+   * Mark the stored analysis, embeddings and outgoing relationships of files whose previous results
+   * were reused as still in use, so cleanup does not expire them
+   */
+  public async touchFiles(uris: vscode.Uri[]): Promise<void> {
+    const db = await this.ready;
+    await db.transaction(tx => {
+      for (const uri of uris) {
+        const fileKey = this.getFileKey(uri);
+        tx.touch(TABLES.ANALYSIS_RESULTS, fileKey);
+        tx.touch(TABLES.EMBEDDINGS, fileKey);
+        tx.keys(TABLES.RELATIONSHIPS, { index: 'from', key: fileKey }).forEach(key => tx.touch(TABLES.RELATIONSHIPS, key));
+      }
+    });
   }
 
-  public async getWorkspaceSummary(): Promise<WorkspaceSummary | undefined> {
+  /**
+   * Mark one suggestion of a stored result as applied. appliedCode records the code that actually
+   * landed when the user edited the suggestion first. Suggestions below the edited lines are
+   * shifted by the change in line count, and fileHash is moved to the edited content so the
+   * remaining suggestions stay valid.
+   */
+  public async markSuggestionApplied(
+    uri: vscode.Uri,
+    suggestionId: string,
+    fileHash: string,
+    appliedCode?: string
+  ): Promise<AnalysisResult | undefined> {
+    const result = await this.getAnalysisResult(uri);
+    const applied = result?.suggestions.find(suggestion => suggestion.id === suggestionId);
+    if (!result || !applied) {
+      return undefined;
+    }
+
+    applied.isApplied = true;
+    if (appliedCode !== undefined) {
+      applied.suggestedCode = appliedCode;
+    }
+    const lineDelta = applied.suggestedCode.split(/\r?\n/).length - applied.originalCode.split(/\r?\n/).length;
+    if (lineDelta !== 0) {
+      for (const suggestion of result.suggestions) {
+        if (suggestion.isApplied || suggestion.range.start.line <= applied.range.end.line) {
+          continue;
+        }
+        const { start, end } = suggestion.range;
+        suggestion.range = new vscode.Range(start.line + lineDelta, start.character, end.line + lineDelta, end.character);
+      }
+    }
+
+    result.fileHash = fileHash;
+    await this.storeAnalysisResult(result);
+    return result;
+  }
+
+  /**
+   * Store the summaries of one analysis run, one per workspace folder it touched. Folders that
+   * were not part of the run keep their previous summary.
+   */
+  public async storeWorkspaceSummaries(summaries: WorkspaceFolderSummary[]): Promise<void> {
+    const db = await this.ready;
+    await db.transaction(tx => {
+      for (const { folder, summary } of summaries) {
+        tx.put(TABLES.META, this.getSummaryKey(folder), summary);
+      }
+    });
+
+    const combined = await this.getWorkspaceSummary();
+    if (combined) {
+      this.workspaceSummaryEmitter.fire(combined);
+    }
+  }
+
+  /**
+   * The summary of one workspace folder, or of all folders of the open workspace combined
+   */
+  public async getWorkspaceSummary(folder?: vscode.WorkspaceFolder): Promise<WorkspaceSummary | undefined> {
     try {
-      const filePath = path.join(this.storageUri.fsPath, 'workspace_summary.json');
-      const content = await fs.readFile(filePath, 'utf8');
-      return JSON.parse(content) as WorkspaceSummary;
+      const db = await this.ready;
+      if (folder) {
+        return await db.get<WorkspaceSummary>(TABLES.META, this.getSummaryKey(folder));
+      }
+
+      const keys = [undefined, ...vscode.workspace.workspaceFolders ?? []].map(f => this.getSummaryKey(f));
+      const summaries: WorkspaceSummary[] = [];
+      for (const key of keys) {
+        const summary = await db.get<WorkspaceSummary>(TABLES.META, key);
+        if (summary) {
+          summaries.push(summary);
+        }
+      }
+      return mergeWorkspaceSummaries(summaries);
     } catch {
       return undefined;
     }
   }
 
   public async addRelationship(relationship: FileRelationship): Promise<void> {
-    const fromKey = this.getFileKey(relationship.fromFile);
-    const toKey = this.getFileKey(relationship.toFile);
-    
-    // Store bidirectional relationships
-    await this.addRelationshipForFile(fromKey, relationship);
-    
-    const reverseRelationship: FileRelationship = {
-      ...relationship,
-      fromFile: relationship.toFile,
-      toFile: relationship.fromFile
-    };
-    await this.addRelationshipForFile(toKey, reverseRelationship);
+    const db = await this.ready;
+    await db.transaction(async tx => {
+      await this.putRelationship(tx, relationship);
+    });
   }
 
+  /**
+   * Relationships where the file is either end of the edge
+   */
   public async getRelationships(uri: vscode.Uri): Promise<FileRelationship[]> {
-    const key = this.getFileKey(uri);
-    
-    if (this.relationshipCache.has(key)) {
-      return this.relationshipCache.get(key) || [];
+    try {
+      const db = await this.ready;
+      return await db.query<FileRelationship>(TABLES.RELATIONSHIPS, 'file', this.getFileKey(uri));
+    } catch {
+      return [];
     }
+  }
 
+  public async getRelationshipsByType(type: RelationshipType): Promise<FileRelationship[]> {
     try {
-      const filePath = path.join(this.storageUri.fsPath, `relationships_${key}.json`);
-      const content = await fs.readFile(filePath, 'utf8');
-      const relationships = JSON.parse(content) as FileRelationship[];
-      this.relationshipCache.set(key, relationships);
-      return relationships;
+      const db = await this.ready;
+      return await db.query<FileRelationship>(TABLES.RELATIONSHIPS, 'type', type);
     } catch {
       return [];
     }
   }
 
   public async getAllRelationships(): Promise<FileRelationship[]> {
-    const relationshipFiles = await this.getRelationshipFiles();
-    const allRelationships: FileRelationship[] = [];
-    
-    for (const file of relationshipFiles) {
-      try {
-        const content = await fs.readFile(file, 'utf8');
-        const relationships = JSON.parse(content) as FileRelationship[];
-        allRelationships.push(...relationships);
-      } catch (error) {
-        console.error(`Failed to read relationships from ${file}:`, error);
-      }
+    try {
+      const db = await this.ready;
+      return await db.getAll<FileRelationship>(TABLES.RELATIONSHIPS);
+    } catch (error) {
+      console.error('Failed to read relationships:', error);
+      return [];
     }
-    
-    // Remove duplicates
-    return this.deduplicateRelationships(allRelationships);
   }
 
   public async analyzeFileRelationships(uri: vscode.Uri, content: string, language: string): Promise<FileRelationship[]> {
     const relationships: FileRelationship[] = [];
-    
-    // Analyze imports/requires
-    const importRelationships = await this.analyzeImports(uri, content, language);
-    relationships.push(...importRelationships);
-    
-    // Analyze function calls
-    const callRelationships = await this.analyzeFunctionCalls(uri, content, language);
-    relationships.push(...callRelationships);
-    
-    // Store relationships
-    for (const relationship of relationships) {
-      await this.addRelationship(relationship);
-    }
-    
+
+    // Resolve imports/requires once; the call graph follows the same bindings
+    const imports = await this.importResolver.resolveImports(uri, content, language);
+    relationships.push(...this.analyzeImports(uri, imports));
+
+    // Analyze function calls, inheritance and interface implementation
+    relationships.push(...this.analyzeFunctionCalls(uri, content, language, imports));
+
+    // Replace the file's outgoing edges so removed imports and calls disappear as well
+    const db = await this.ready;
+    await db.transaction(async tx => {
+      const current = new Set(relationships.map(relationship => this.getRelationshipKey(relationship)));
+      for (const key of tx.keys(TABLES.RELATIONSHIPS, { index: 'from', key: this.getFileKey(uri) })) {
+        if (!current.has(key)) {
+          tx.delete(TABLES.RELATIONSHIPS, key);
+        }
+      }
+      for (const relationship of relationships) {
+        await this.putRelationship(tx, relationship);
+      }
+    });
+
     return relationships;
   }
 
@@ -197,12 +430,17 @@ export class ContextStore {
 
   public async clear(): Promise<void> {
     try {
-      const files = await fs.readdir(this.storageUri.fsPath);
-      await Promise.all(files.map(file => 
-        fs.unlink(path.join(this.storageUri.fsPath, file))
-      ));
+      // Conversation history is kept; it has its own retention in cleanupOldConversations
+      const db = await this.ready;
+      await db.transaction(tx => {
+        tx.clear(TABLES.FILE_CONTEXTS);
+        tx.clear(TABLES.ANALYSIS_RESULTS);
+        tx.clear(TABLES.RELATIONSHIPS);
+        tx.clear(TABLES.EMBEDDINGS);
+        tx.clear(TABLES.META);
+      });
       this.contextCache.clear();
-      this.relationshipCache.clear();
+      this.clearEmitter.fire();
     } catch (error) {
       console.error('Failed to clear context store:', error);
     }
@@ -210,216 +448,513 @@ export class ContextStore {
 
   public async cleanup(retentionDays: number): Promise<void> {
     try {
-      const files = await fs.readdir(this.storageUri.fsPath);
+      const db = await this.ready;
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
 
-      for (const file of files) {
-        const filePath = path.join(this.storageUri.fsPath, file);
-        const stat = await fs.stat(filePath);
-        
-        if (stat.mtime < cutoffDate) {
-          await fs.unlink(filePath);
+      const tables = [TABLES.FILE_CONTEXTS, TABLES.ANALYSIS_RESULTS, TABLES.RELATIONSHIPS, TABLES.EMBEDDINGS, TABLES.META];
+      const expired: Array<[string, string]> = [];
+      for (const table of tables) {
+        for (const entry of await db.entries(table)) {
+          if (entry.usedAt < cutoffDate) {
+            expired.push([table, entry.key]);
+          }
         }
       }
+
+      const uris = await this.getFileUris(db, expired.map(([, key]) => key));
+      await db.transaction(tx => expired.forEach(([table, key]) => tx.delete(table, key)));
+      this.contextCache.clear();
+      if (uris.length > 0) {
+        this.evictEmitter.fire(uris);
+      }
     } catch (error) {
       console.error('Failed to cleanup context store:', error);
     }
   }
 
-  private async ensureStorageDirectory(): Promise<void> {
+  /**
+   * Size of the open workspace's store and what it holds
+   */
+  public async getStorageUsage(): Promise<StorageUsage> {
+    const db = await this.ready;
+    const { fileBytes, liveBytes } = await db.stats();
+    return {
+      databaseBytes: fileBytes,
+      liveBytes,
+      analysisResults: (await db.keys(TABLES.ANALYSIS_RESULTS)).length,
+      fileContexts: (await db.keys(TABLES.FILE_CONTEXTS)).length,
+      relationships: (await db.keys(TABLES.RELATIONSHIPS)).length,
+      conversations: (await db.keys(TABLES.CONVERSATIONS)).length
+    };
+  }
+
+  /**
+   * Drop the stored context, analysis result, embeddings and outgoing relationships of the least
+   * recently used files of every workspace until the stored data fits in maxBytes, then compact the
+   * logs. Conversations and workspace summaries are kept. Returns the number of files evicted.
+   */
+  public async evictLeastRecentlyUsed(maxBytes: number): Promise<number> {
+    const db = await this.ready;
+    const workspaces = await this.listWorkspaces();
+    const partitions = [db, ...await this.openOtherPartitions(workspaces)];
+
     try {
-      await fs.mkdir(this.storageUri.fsPath, { recursive: true });
-    } catch (error) {
-      console.error('Failed to create storage directory:', error);
+      let excess = workspaces.reduce((sum, workspace) => sum + workspace.sizeBytes, 0) - maxBytes;
+      const deadBytes = new Map<IndexDatabase, number>();
+      for (const partition of partitions) {
+        const { fileBytes, liveBytes } = await partition.stats();
+        deadBytes.set(partition, fileBytes - liveBytes);
+        excess -= fileBytes - liveBytes; // Reclaimed by compacting regardless
+      }
+
+      const files: Array<{ partition: IndexDatabase; fileKey: string; lastUsed: number; size: number }> = [];
+      if (excess > 0) {
+        for (const partition of partitions) {
+          for (const [fileKey, usage] of await this.getFileUsage(partition)) {
+            files.push({ partition, fileKey, ...usage });
+          }
+        }
+      }
+
+      const evicted = new Map<IndexDatabase, string[]>(partitions.map(partition => [partition, []]));
+      let evictedCount = 0;
+      for (const file of files.sort((a, b) => a.lastUsed - b.lastUsed)) {
+        if (excess <= 0) {
+          break;
+        }
+        evicted.get(file.partition)!.push(file.fileKey);
+        evictedCount++;
+        excess -= file.size;
+      }
+
+      const uris = await this.getFileUris(db, evicted.get(db)!);
+      for (const partition of partitions) {
+        const fileKeys = evicted.get(partition)!;
+        if (fileKeys.length === 0 && deadBytes.get(partition) === 0) {
+          continue;
+        }
+        await partition.transaction(tx => {
+          for (const fileKey of fileKeys) {
+            tx.delete(TABLES.FILE_CONTEXTS, fileKey);
+            tx.delete(TABLES.ANALYSIS_RESULTS, fileKey);
+            tx.delete(TABLES.EMBEDDINGS, fileKey);
+            for (const key of tx.keys(TABLES.RELATIONSHIPS, { index: 'from', key: fileKey })) {
+              tx.delete(TABLES.RELATIONSHIPS, key);
+            }
+          }
+        });
+        await partition.compact();
+      }
+
+      evicted.get(db)!.forEach(fileKey => this.contextCache.delete(fileKey));
+      if (uris.length > 0) {
+        this.evictEmitter.fire(uris);
+      }
+      return evictedCount;
+    } finally {
+      await Promise.all(partitions.filter(partition => partition !== db).map(partition => partition.close()));
     }
   }
 
-  private getFileKey(uri: vscode.Uri): string {
-    return crypto.createHash('md5').update(uri.fsPath).digest('hex');
+  /**
+   * Every workspace with data in the store, including data shared by versions before partitioning
+   */
+  public async listWorkspaces(): Promise<StoredWorkspace[]> {
+    const workspacesPath = path.join(this.globalStorageUri.fsPath, WORKSPACES_DIRECTORY);
+    let ids: string[] = [];
+    try {
+      ids = await fs.readdir(workspacesPath);
+    } catch {
+      // Nothing stored yet
+    }
+
+    const workspaces: StoredWorkspace[] = [];
+    for (const id of ids) {
+      const dirPath = path.join(workspacesPath, id);
+      let manifest: Partial<WorkspaceManifest> = {};
+      try {
+        const content = await fs.readFile(path.join(dirPath, WORKSPACE_MANIFEST_FILE), 'utf8');
+        manifest = JSON.parse(content, storageReviver) as WorkspaceManifest;
+      } catch {
+        // Partition from an interrupted first open
+      }
+      workspaces.push({
+        id,
+        name: manifest.name ?? id,
+        folders: manifest.folders ?? [],
+        ...(manifest.lastOpened && { lastOpened: manifest.lastOpened }),
+        sizeBytes: await getDirectorySize(dirPath),
+        isCurrent: id === this.workspaceId,
+        isLocked: await IndexDatabase.isLocked(path.join(dirPath, INDEX_DATABASE_FILE))
+      });
+    }
+
+    const sharedFiles = await this.getSharedDataFiles();
+    if (sharedFiles.length > 0) {
+      const sizes = await Promise.all(sharedFiles.map(async file => {
+        const stat = await fs.stat(file);
+        return stat.isDirectory() ? getDirectorySize(file) : stat.size;
+      }));
+      workspaces.push({
+        id: SHARED_DATA_ID,
+        name: 'Shared data from earlier versions',
+        folders: [],
+        sizeBytes: sizes.reduce((sum, size) => sum + size, 0),
+        isCurrent: false,
+        isShared: true
+      });
+    }
+
+    return workspaces.sort((a, b) => (b.lastOpened?.getTime() ?? 0) - (a.lastOpened?.getTime() ?? 0));
   }
 
-  private calculateHash(content: string): string {
-    return crypto.createHash('sha256').update(content).digest('hex');
+  /**
+   * Move the open workspace's lastOpened to now, so windows that stay open longer than the
+   * retention period are not taken for abandoned workspaces by housekeeping in other windows
+   */
+  public async markWorkspaceOpened(): Promise<void> {
+    await this.ready;
+    await this.writeManifest();
   }
 
-  private async addRelationshipForFile(fileKey: string, relationship: FileRelationship): Promise<void> {
-    const filePath = path.join(this.storageUri.fsPath, `relationships_${fileKey}.json`);
-    
-    let relationships: FileRelationship[] = [];
-    try {
-      const content = await fs.readFile(filePath, 'utf8');
-      relationships = JSON.parse(content) as FileRelationship[];
-    } catch {
-      // File doesn't exist yet, that's fine
+  /**
+   * Delete the stored data of other workspaces; the open workspace is emptied with clear()
+   */
+  public async purgeWorkspaces(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      if (id === this.workspaceId) {
+        throw new Error('The open workspace cannot be purged; use Clear Analysis Cache instead');
+      }
+
+      if (id === SHARED_DATA_ID) {
+        const sharedFiles = await this.getSharedDataFiles();
+        await Promise.all(sharedFiles.map(file => fs.rm(file, { recursive: true, force: true })));
+      } else if (/^[0-9a-f]{32}$/.test(id)) {
+        await fs.rm(path.join(this.globalStorageUri.fsPath, WORKSPACES_DIRECTORY, id), { recursive: true, force: true });
+      } else {
+        throw new Error(`Unknown workspace id: ${id}`);
+      }
+      console.log(`🗑️ Purged stored data for workspace ${id}`);
+    }
+  }
+
+  private createDatabase(filePath: string): IndexDatabase {
+    const database = new IndexDatabase(filePath, storageReplacer, storageReviver);
+    database.defineTable<FileContext>(TABLES.FILE_CONTEXTS, {
+      // Lets the embedding index find changed files without reading their content
+      indexes: {
+        uri: context => [context.uri.toString()],
+        hash: context => [context.hash],
+        // Inverted keyword index for chat retrieval, so questions do not rescan every stored file.
+        // Held in memory, so large files only contribute their most frequent terms besides the path.
+        terms: context => [...new Set([
+          ...extractTerms(vscode.workspace.asRelativePath(context.uri)),
+          ...extractTerms(context.content, DEFAULT_CONFIG.RETRIEVAL.MAX_INDEXED_TERMS)
+        ])]
+      }
+    });
+    database.defineTable<AnalysisResult>(TABLES.ANALYSIS_RESULTS);
+    database.defineTable<FileRelationship>(TABLES.RELATIONSHIPS, {
+      // Small and read as a whole for summaries and the dependency graph
+      cacheValues: true,
+      indexes: {
+        from: relationship => [this.getFileKey(relationship.fromFile)],
+        file: relationship => [this.getFileKey(relationship.fromFile), this.getFileKey(relationship.toFile)],
+        type: relationship => [relationship.type]
+      }
+    });
+    database.defineTable<ConversationHistory>(TABLES.CONVERSATIONS);
+    database.defineTable<FileEmbeddings>(TABLES.EMBEDDINGS, {
+      indexes: {
+        uri: embeddings => [embeddings.uri.toString()]
+      }
+    });
+    database.defineTable<WorkspaceSummary>(TABLES.META);
+    return database;
+  }
+
+  private async openDatabase(): Promise<IndexDatabase> {
+    const manifestPath = path.join(this.storageUri.fsPath, WORKSPACE_MANIFEST_FILE);
+    const isNewPartition = await fs.access(manifestPath).then(() => false, () => true);
+
+    await this.database.open();
+    if (isNewPartition) {
+      await this.adoptSharedData();
+    }
+
+    await this.writeManifest();
+    return this.database;
+  }
+
+  private async writeManifest(): Promise<void> {
+    const manifest: WorkspaceManifest = {
+      id: this.workspaceId,
+      name: vscode.workspace.name ?? 'No Folder',
+      folders: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.toString()),
+      lastOpened: new Date()
+    };
+    await fs.writeFile(path.join(this.storageUri.fsPath, WORKSPACE_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  }
+
+  /**
+   * Open the databases of the other stored workspaces, including the shared one of earlier versions.
+   * Windows that have them open pick up the changes through the lock file before their next write.
+   */
+  private async openOtherPartitions(workspaces: StoredWorkspace[]): Promise<IndexDatabase[]> {
+    const rootPath = this.globalStorageUri.fsPath;
+    const filePaths = workspaces
+      .filter(workspace => !workspace.isCurrent)
+      .map(workspace => workspace.isShared
+        ? path.join(rootPath, INDEX_DATABASE_FILE)
+        : path.join(rootPath, WORKSPACES_DIRECTORY, workspace.id, INDEX_DATABASE_FILE));
+    const databases: IndexDatabase[] = [];
+    for (const filePath of filePaths) {
+      if (await fs.access(filePath).then(() => false, () => true)) {
+        continue;
+      }
+      const database = this.createDatabase(filePath);
+      try {
+        await database.open();
+        databases.push(database);
+      } catch (error) {
+        console.warn(`⚠️ Could not open ${filePath} for eviction:`, error);
+      }
     }
+    return databases;
+  }
 
-    // Avoid duplicates
-    const exists = relationships.some(r => 
-      r.fromFile.fsPath === relationship.fromFile.fsPath &&
-      r.toFile.fsPath === relationship.toFile.fsPath &&
-      r.type === relationship.type
-    );
+  /**
+   * Last use and stored size of each file's context, analysis result, embeddings and outgoing relationships
+   */
+  private async getFileUsage(db: IndexDatabase): Promise<Map<string, { lastUsed: number; size: number }>> {
+    const entries = [
+      ...await db.entries(TABLES.FILE_CONTEXTS),
+      ...await db.entries(TABLES.ANALYSIS_RESULTS),
+      ...await db.entries(TABLES.EMBEDDINGS),
+      // Relationship keys start with the key of the file the edge comes from
+      ...(await db.entries(TABLES.RELATIONSHIPS)).map(entry => ({ ...entry, key: entry.key.split(':')[0]! }))
+    ];
 
-    if (!exists) {
-      relationships.push(relationship);
-      await fs.writeFile(filePath, JSON.stringify(relationships, null, 2));
-      this.relationshipCache.set(fileKey, relationships);
+    const files = new Map<string, { lastUsed: number; size: number }>();
+    for (const entry of entries) {
+      const usage = files.get(entry.key) ?? { lastUsed: 0, size: 0 };
+      usage.lastUsed = Math.max(usage.lastUsed, entry.accessedAt.getTime());
+      usage.size += entry.size;
+      files.set(entry.key, usage);
     }
+    return files;
   }
 
-  private async getRelationshipFiles(): Promise<string[]> {
+  /**
+   * Files of the store that earlier versions kept directly in globalStorage for every workspace
+   */
+  private async getSharedDataFiles(): Promise<string[]> {
     try {
-      const files = await fs.readdir(this.storageUri.fsPath);
+      const files = await fs.readdir(this.globalStorageUri.fsPath);
       return files
-        .filter(file => file.startsWith('relationships_') && file.endsWith('.json'))
-        .map(file => path.join(this.storageUri.fsPath, file));
+        .filter(file => file === INDEX_DATABASE_FILE || file === 'conversations' || file.endsWith('.json'))
+        .map(file => path.join(this.globalStorageUri.fsPath, file));
     } catch {
       return [];
     }
   }
 
-  private deduplicateRelationships(relationships: FileRelationship[]): FileRelationship[] {
-    const seen = new Set<string>();
-    return relationships.filter(relationship => {
-      const key = `${relationship.fromFile.fsPath}-${relationship.toFile.fsPath}-${relationship.type}`;
-      if (seen.has(key)) {
-        return false;
+  /**
+   * Copy the records of the shared store that belong to this workspace's folders into its new
+   * partition. The shared data is left in place for other workspaces until it is purged.
+   */
+  private async adoptSharedData(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0 || (await this.getSharedDataFiles()).length === 0) {
+      return;
+    }
+
+    const rootPath = this.globalStorageUri.fsPath;
+    const inWorkspace = (uri: vscode.Uri): boolean => vscode.workspace.getWorkspaceFolder(uri) !== undefined;
+    const shared = this.createDatabase(path.join(rootPath, INDEX_DATABASE_FILE));
+    const records: Array<[string, string, unknown]> = [];
+
+    const collect = async <T>(table: string, belongs: (value: T) => boolean): Promise<void> => {
+      for (const key of await shared.keys(table)) {
+        const value = await shared.get<T>(table, key);
+        if (value && belongs(value)) {
+          records.push([table, key, value]);
+        }
       }
-      seen.add(key);
-      return true;
-    });
+    };
+
+    try {
+      await shared.open();
+      await this.migrateLegacyLayout(shared, rootPath);
+
+      await collect<FileContext>(TABLES.FILE_CONTEXTS, context => inWorkspace(context.uri));
+      await collect<AnalysisResult>(TABLES.ANALYSIS_RESULTS, result => inWorkspace(result.fileUri));
+      await collect<FileRelationship>(TABLES.RELATIONSHIPS, relationship => inWorkspace(relationship.fromFile));
+      await collect<ConversationHistory>(
+        TABLES.CONVERSATIONS,
+        history => !!history.context?.activeFile && inWorkspace(vscode.Uri.file(history.context.activeFile))
+      );
+
+      const summary = await shared.get<WorkspaceSummary>(TABLES.META, WORKSPACE_SUMMARY_KEY);
+      for (const folder of summary ? folders : []) {
+        const folderSummary = filterWorkspaceSummary(
+          summary!,
+          uri => vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === folder.uri.toString()
+        );
+        if (folderSummary.analysisResults.length > 0) {
+          records.push([TABLES.META, this.getSummaryKey(folder), folderSummary]);
+        }
+      }
+
+      await this.database.transaction(tx => records.forEach(([table, key, value]) => tx.put(table, key, value)));
+      if (records.length > 0) {
+        console.log(`📦 Adopted ${records.length} records from the shared context store`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not adopt data from the shared context store:', error);
+    } finally {
+      await shared.close();
+    }
   }
 
-  private async analyzeImports(uri: vscode.Uri, content: string, language: string): Promise<FileRelationship[]> {
-    const relationships: FileRelationship[] = [];
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-    
-    if (!workspaceFolder) {
-      return relationships;
+  /**
+   * Import the per-file JSON layout used before the index database, then delete the imported files
+   */
+  private async migrateLegacyLayout(database: IndexDatabase, storagePath: string): Promise<void> {
+    const conversationsPath = path.join(storagePath, 'conversations');
+    const listJsonFiles = async (dirPath: string): Promise<string[]> => {
+      try {
+        const files = await fs.readdir(dirPath);
+        return files.filter(file => file.endsWith('.json')).map(file => path.join(dirPath, file));
+      } catch {
+        return [];
+      }
+    };
+
+    const legacyFiles = [...await listJsonFiles(storagePath), ...await listJsonFiles(conversationsPath)];
+    if (legacyFiles.length === 0) {
+      return;
     }
 
-    const importRegexes = this.getImportRegexesForLanguage(language);
-    
-    for (const regex of importRegexes) {
-      let match;
-      while ((match = regex.exec(content)) !== null) {
-        const importPath = match[1] || match[2]; // Different capture groups for different patterns
-        if (importPath && !importPath.startsWith('.') && !importPath.includes('node_modules')) {
-          try {
-            const resolvedPath = await this.resolveImportPath(workspaceFolder.uri, importPath, language);
-            if (resolvedPath) {
-              relationships.push({
-                fromFile: uri,
-                toFile: resolvedPath,
-                type: RelationshipType.IMPORTS,
-                strength: 1.0,
-                description: `Imports from ${importPath}`
-              });
-            }
-          } catch {
-            // Failed to resolve import, skip it
+    const migrated: string[] = [];
+    await database.transaction(async tx => {
+      for (const filePath of legacyFiles) {
+        try {
+          const content = await fs.readFile(filePath, 'utf8');
+          if (this.importLegacyFile(tx, filePath, JSON.parse(content, storageReviver))) {
+            migrated.push(filePath);
           }
+        } catch (error) {
+          console.warn(`⚠️ Skipping unreadable context file ${filePath}:`, error);
         }
       }
-    }
+    });
 
-    return relationships;
+    await Promise.all(migrated.map(filePath => fs.unlink(filePath).catch(() => undefined)));
+    await fs.rmdir(conversationsPath).catch(() => undefined);
+    console.log(`📦 Migrated ${migrated.length} context files into ${INDEX_DATABASE_FILE}`);
   }
 
-  private async analyzeFunctionCalls(uri: vscode.Uri, content: string, language: string): Promise<FileRelationship[]> {
-    // This is a simplified implementation
-    // In a real implementation, you'd use proper AST parsing
-    const relationships: FileRelationship[] = [];
-    
-    // This would require more sophisticated analysis
-    // For now, we return empty array
-    return relationships;
-  }
+  private importLegacyFile(tx: IndexTransaction, filePath: string, value: unknown): boolean {
+    const name = path.basename(filePath, '.json');
 
-  private getImportRegexesForLanguage(language: string): RegExp[] {
-    switch (language.toLowerCase()) {
-      case 'typescript':
-      case 'javascript':
-        return [
-          /import.*from\s+['"]([^'"]+)['"]/g,
-          /require\(['"]([^'"]+)['"]\)/g,
-          /import\(['"]([^'"]+)['"]\)/g
-        ];
-      case 'python':
-        return [
-          /from\s+([^\s]+)\s+import/g,
-          /import\s+([^\s]+)/g
-        ];
-      case 'java':
-        return [
-          /import\s+([^;]+);/g
-        ];
-      case 'csharp':
-        return [
-          /using\s+([^;]+);/g
-        ];
-      default:
-        return [];
+    if (path.basename(path.dirname(filePath)) === 'conversations') {
+      tx.put(TABLES.CONVERSATIONS, name, value);
+    } else if (name === 'workspace_summary') {
+      tx.put(TABLES.META, WORKSPACE_SUMMARY_KEY, value);
+    } else if (name.startsWith('analysis_')) {
+      tx.put(TABLES.ANALYSIS_RESULTS, name.substring('analysis_'.length), value);
+    } else if (name.startsWith('relationships_')) {
+      // Each edge was written under both of its files; keying by edge merges the copies
+      for (const relationship of value as FileRelationship[]) {
+        tx.put(TABLES.RELATIONSHIPS, this.getRelationshipKey(relationship), relationship);
+      }
+    } else if (/^[0-9a-f]{32}$/.test(name)) {
+      tx.put(TABLES.FILE_CONTEXTS, name, value);
+    } else {
+      return false;
     }
+    return true;
   }
 
-  private async resolveImportPath(workspaceUri: vscode.Uri, importPath: string, language: string): Promise<vscode.Uri | undefined> {
-    const extensions = this.getExtensionsForLanguage(language);
-    
-    for (const ext of extensions) {
-      const fullPath = vscode.Uri.joinPath(workspaceUri, `${importPath}${ext}`);
-      try {
-        await fs.access(fullPath.fsPath);
-        return fullPath;
-      } catch {
-        continue;
+  /**
+   * Uris of the files stored under fileKeys, from the context and embedding indexes
+   */
+  private async getFileUris(db: IndexDatabase, fileKeys: string[]): Promise<vscode.Uri[]> {
+    const wanted = new Set(fileKeys);
+    const uris = new Set<string>();
+    for (const table of [TABLES.FILE_CONTEXTS, TABLES.EMBEDDINGS]) {
+      for (const [key, [uri]] of await db.indexEntries(table, 'uri')) {
+        if (uri && wanted.has(key)) {
+          uris.add(uri);
+        }
       }
     }
-    
-    return undefined;
+    return [...uris].map(uri => vscode.Uri.parse(uri));
+  }
+
+  private getFileKey(uri: vscode.Uri): string {
+    return crypto.createHash('md5').update(uri.fsPath).digest('hex');
+  }
+
+  private getSummaryKey(folder: vscode.WorkspaceFolder | undefined): string {
+    return folder ? `${WORKSPACE_SUMMARY_KEY}:${folder.uri.toString()}` : WORKSPACE_SUMMARY_KEY;
   }
 
-  private getExtensionsForLanguage(language: string): string[] {
-    switch (language.toLowerCase()) {
-      case 'typescript':
-        return ['.ts', '.tsx'];
-      case 'javascript':
-        return ['.js', '.jsx'];
-      case 'python':
-        return ['.py'];
-      case 'java':
-        return ['.java'];
-      case 'csharp':
-        return ['.cs'];
-      default:
-        return [''];
+  private getRelationshipKey(relationship: FileRelationship): string {
+    return `${this.getFileKey(relationship.fromFile)}:${this.getFileKey(relationship.toFile)}:${relationship.type}`;
+  }
+
+  /**
+   * Content hash used for FileContext.hash and AnalysisResult.fileHash
+   */
+  public calculateHash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Insert an edge, refresh strength/description of an existing one (e.g. changed call counts),
+   * or mark an unchanged one as still in use so cleanup keeps it
+   */
+  private async putRelationship(tx: IndexTransaction, relationship: FileRelationship): Promise<void> {
+    const key = this.getRelationshipKey(relationship);
+    const existing = await tx.get<FileRelationship>(TABLES.RELATIONSHIPS, key);
+    if (existing && existing.strength === relationship.strength && existing.description === relationship.description) {
+      tx.touch(TABLES.RELATIONSHIPS, key);
+      return;
+    }
+    tx.put(TABLES.RELATIONSHIPS, key, relationship);
+  }
+
+  private analyzeImports(uri: vscode.Uri, imports: ResolvedImport[]): FileRelationship[] {
+    return imports.map(({ specifier, uri: target }) => ({
+      fromFile: uri,
+      toFile: target,
+      type: RelationshipType.IMPORTS,
+      strength: 1.0,
+      description: `Imports from ${specifier}`
+    }));
+  }
+
+  private analyzeFunctionCalls(uri: vscode.Uri, content: string, language: string, imports: ResolvedImport[]): FileRelationship[] {
+    if (!this.callGraphAnalyzer.isSupported(language)) {
+      return [];
+    }
+
+    try {
+      return this.callGraphAnalyzer.analyze(uri, content, language, imports);
+    } catch (error) {
+      console.warn(`⚠️ Call graph extraction failed for ${uri.fsPath}:`, error);
+      return [];
     }
   }
 
   // Conversation History Management for Phase 3
   public async storeConversationHistory(sessionId: string, history: ConversationHistory): Promise<void> {
     try {
-      const historyDir = path.join(this.storageUri.fsPath, 'conversations');
-      await this.ensureDirectory(historyDir);
-      
-      const filePath = path.join(historyDir, `${sessionId}.json`);
-      const serializedHistory = JSON.stringify(history, (key, value) => {
-        // Handle vscode.Uri serialization
-        if (value && typeof value === 'object' && value.scheme) {
-          return { 
-            $type: 'vscode.Uri',
-            scheme: value.scheme,
-            authority: value.authority,
-            path: value.path,
-            query: value.query,
-            fragment: value.fragment
-          };
-        }
-        return value;
-      }, 2);
-      
-      await fs.writeFile(filePath, serializedHistory);
+      const db = await this.ready;
+      await db.transaction(tx => tx.put(TABLES.CONVERSATIONS, sessionId, history));
       console.log(`Conversation history saved for session: ${sessionId}`);
     } catch (error) {
       console.error('Failed to store conversation history:', error);
@@ -429,62 +964,44 @@ export class ContextStore {
 
   public async getConversationHistory(sessionId: string): Promise<ConversationHistory | undefined> {
     try {
-      const filePath = path.join(this.storageUri.fsPath, 'conversations', `${sessionId}.json`);
-      const content = await fs.readFile(filePath, 'utf8');
-      
-      const history = JSON.parse(content, (key, value) => {
-        // Handle vscode.Uri deserialization
-        if (value && value.$type === 'vscode.Uri') {
-          return vscode.Uri.from({
-            scheme: value.scheme,
-            authority: value.authority,
-            path: value.path,
-            query: value.query,
-            fragment: value.fragment
-          });
-        }
-        return value;
-      }) as ConversationHistory;
-      
-      return history;
+      const db = await this.ready;
+      return await db.get<ConversationHistory>(TABLES.CONVERSATIONS, sessionId);
     } catch (error) {
-      // File not found or parsing error - return undefined
       return undefined;
     }
   }
 
   public async clearConversationHistory(sessionId: string): Promise<void> {
     try {
-      const filePath = path.join(this.storageUri.fsPath, 'conversations', `${sessionId}.json`);
-      await fs.unlink(filePath);
+      const db = await this.ready;
+      await db.transaction(tx => tx.delete(TABLES.CONVERSATIONS, sessionId));
       console.log(`Conversation history cleared for session: ${sessionId}`);
     } catch (error) {
-      // File may not exist - ignore error
       console.warn(`Could not clear conversation history for session ${sessionId}:`, error);
     }
   }
 
   public async getAllConversationSessions(): Promise<string[]> {
     try {
-      const historyDir = path.join(this.storageUri.fsPath, 'conversations');
-      const files = await fs.readdir(historyDir);
-      return files
-        .filter(file => file.endsWith('.json'))
-        .map(file => path.basename(file, '.json'));
+      const db = await this.ready;
+      return await db.keys(TABLES.CONVERSATIONS);
     } catch (error) {
-      // Directory may not exist
       return [];
     }
   }
 
-  public async getConversationSummaries(): Promise<Array<{ sessionId: string; title: string; lastUpdated: Date; messageCount: number }>> {
+  /**
+   * Stored conversations, most recent first. A query keeps those whose title or messages contain it.
+   */
+  public async getConversationSummaries(query?: string): Promise<ChatSessionSummary[]> {
     try {
       const sessionIds = await this.getAllConversationSessions();
-      const summaries = [];
+      const summaries: ChatSessionSummary[] = [];
+      const needle = query?.trim().toLowerCase();
       
       for (const sessionId of sessionIds) {
         const history = await this.getConversationHistory(sessionId);
-        if (history) {
+        if (history && (!needle || this.conversationMatches(history, needle))) {
           summaries.push({
             sessionId,
             title: this.generateConversationTitle(history),
@@ -526,15 +1043,16 @@ export class ContextStore {
     }
   }
 
-  private async ensureDirectory(dirPath: string): Promise<void> {
-    try {
-      await fs.access(dirPath);
-    } catch {
-      await fs.mkdir(dirPath, { recursive: true });
-    }
+  private conversationMatches(history: ConversationHistory, needle: string): boolean {
+    return this.generateConversationTitle(history).toLowerCase().includes(needle) ||
+      history.messages.some(msg => msg.content.toLowerCase().includes(needle));
   }
 
   private generateConversationTitle(history: ConversationHistory): string {
+    if (history.title) {
+      return history.title;
+    }
+
     // Try to generate a meaningful title from the conversation
     if (history.summary) {
       return history.summary.length > 50 
@@ -554,4 +1072,76 @@ export class ContextStore {
     // Final fallback
     return `Conversation ${history.sessionId.substring(0, 8)}`;
   }
+
+  public dispose(): void {
+    this.analysisResultEmitter.dispose();
+    this.workspaceSummaryEmitter.dispose();
+    this.clearEmitter.dispose();
+    this.evictEmitter.dispose();
+    void this.database.close();
+  }
+}
+
+/**
+ * Stable key of the open workspace: the .code-workspace file of a multi-root workspace, else its
+ * single folder, else the empty window
+ */
+function getWorkspaceId(): string {
+  const identity = vscode.workspace.workspaceFile?.toString()
+    ?? vscode.workspace.workspaceFolders?.[0]?.uri.toString()
+    ?? 'empty-window';
+  return crypto.createHash('md5').update(identity).digest('hex');
+}
+
+/**
+ * JSON replacer that keeps vscode.Uri values recoverable
+ */
+function storageReplacer(_key: string, item: unknown): unknown {
+  // Uri.toJSON() has already run here, leaving its components
+  const uri = item as Record<string, unknown> | null;
+  if (uri && typeof uri === 'object' && !Array.isArray(uri) && uri.scheme) {
+    return {
+      $type: 'vscode.Uri',
+      scheme: uri.scheme,
+      authority: uri.authority,
+      path: uri.path,
+      query: uri.query,
+      fragment: uri.fragment
+    };
+  }
+  return item;
+}
+
+/**
+ * Inverse of storageReplacer: revives vscode.Uri, vscode.Range and Date values so stored
+ * results can be used directly (e.g. result.fileUri.fsPath, suggestion.range)
+ */
+function storageReviver(key: string, value: unknown): unknown {
+  if (!value) {
+    return value;
+  }
+
+  // Uris written by storageReplacer, or by plain JSON.stringify in older versions ($mid marker)
+  const uri = value as Record<string, string | number | undefined>;
+  if ((uri.$type === 'vscode.Uri' || uri.$mid === 1) && typeof uri.scheme === 'string') {
+    return vscode.Uri.from({
+      scheme: uri.scheme,
+      authority: String(uri.authority || ''),
+      path: String(uri.path || ''),
+      query: String(uri.query || ''),
+      fragment: String(uri.fragment || '')
+    });
+  }
+
+  // Range.toJSON() produces [start, end] positions
+  if (key === 'range' && Array.isArray(value) && value.length === 2) {
+    const [start, end] = value as vscode.Position[];
+    return new vscode.Range(start!.line, start!.character, end!.line, end!.character);
+  }
+
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    return new Date(value);
+  }
+
+  return value;
 }
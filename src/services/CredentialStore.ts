@@ -0,0 +1,71 @@
+import { AIProviderConfig, AIProviderId, ProviderCredentials } from '@/types';
+import * as vscode from 'vscode';
+
+// Both Ollama providers talk to the same server, so they share its credentials
+const CREDENTIALS_KEYS: Record<AIProviderId, string> = {
+  ollama: 'balaAnalyzer.ollama.credentials',
+  ollamaNative: 'balaAnalyzer.ollama.credentials',
+  openaiCompatible: 'balaAnalyzer.openaiCompatible.credentials'
+};
+
+/**
+ * Keeps provider credentials in VSCode SecretStorage (OS keychain), one entry per server
+ */
+export class CredentialStore {
+  private secrets: vscode.SecretStorage;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private secretsSubscription: vscode.Disposable;
+
+  /**
+   * Fires whenever stored credentials change, including changes made from another window
+   */
+  public readonly onDidChange: vscode.Event<void> = this.changeEmitter.event;
+
+  constructor(secrets: vscode.SecretStorage) {
+    this.secrets = secrets;
+    const keys = new Set(Object.values(CREDENTIALS_KEYS));
+    this.secretsSubscription = this.secrets.onDidChange(event => {
+      if (keys.has(event.key)) {
+        this.changeEmitter.fire();
+      }
+    });
+  }
+
+  public async getCredentials(provider: AIProviderId): Promise<ProviderCredentials | undefined> {
+    try {
+      const stored = await this.secrets.get(CREDENTIALS_KEYS[provider]);
+      return stored ? JSON.parse(stored) as ProviderCredentials : undefined;
+    } catch (error) {
+      console.error(`Failed to read ${provider} credentials:`, error);
+      return undefined;
+    }
+  }
+
+  public async setCredentials(provider: AIProviderId, credentials: ProviderCredentials): Promise<void> {
+    await this.secrets.store(CREDENTIALS_KEYS[provider], JSON.stringify(credentials));
+  }
+
+  public async clearCredentials(provider: AIProviderId): Promise<void> {
+    await this.secrets.delete(CREDENTIALS_KEYS[provider]);
+  }
+
+  /**
+   * Merge the stored credentials of the config's provider into it
+   */
+  public async applyTo(config: AIProviderConfig): Promise<AIProviderConfig> {
+    const credentials = await this.getCredentials(config.provider ?? 'ollama');
+    if (!credentials) {
+      return config;
+    }
+
+    if (credentials.type === 'basic') {
+      return { ...config, username: credentials.username, password: credentials.password };
+    }
+    return { ...config, bearerToken: credentials.token };
+  }
+
+  public dispose(): void {
+    this.secretsSubscription.dispose();
+    this.changeEmitter.dispose();
+  }
+}
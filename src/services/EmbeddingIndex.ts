@@ -0,0 +1,317 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { ContextStore } from '@/services/ContextStore';
+import { AIProvider, EmbeddedChunk, FileContext, FileEmbeddings, SemanticSearchResult } from '@/types';
+import { chunkContent } from '@/utils/chunking';
+import { decodeVector, dot, encodeVector, normalize } from '@/utils/vectors';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+interface DecodedFile {
+  embeddings: FileEmbeddings;
+  vectors: Float32Array[];
+}
+
+interface SearchResultItem extends vscode.QuickPickItem {
+  result: SemanticSearchResult;
+}
+
+/**
+ * Embeds the stored file contexts in overlapping line windows and ranks them against a query by
+ * cosine similarity. Files are only re-embedded when their content hash or the model changes.
+ * Once the index has been built, newly analyzed files are embedded as their results are stored.
+ */
+export class EmbeddingIndex implements vscode.Disposable {
+  private readonly contextStore: ContextStore;
+  private readonly aiProvider: AIProvider;
+  private readonly decoded = new Map<string, DecodedFile>(); // Uri string -> decoded vectors of its stored embeddings
+  private loading: Promise<void> | undefined;
+  private updating: Promise<unknown> = Promise.resolve(); // Index updates run one at a time
+  private readonly analyzed = new Map<string, vscode.Uri>(); // Files analyzed since the last update
+  private analyzedTimer: NodeJS.Timeout | undefined;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(contextStore: ContextStore, aiProvider: AIProvider) {
+    this.contextStore = contextStore;
+    this.aiProvider = aiProvider;
+    this.disposables = [
+      contextStore.onDidClear(() => this.decoded.clear()),
+      contextStore.onDidEvictFiles(uris => uris.forEach(uri => this.decoded.delete(uri.toString()))),
+      contextStore.onDidStoreAnalysisResult(result => this.queueAnalyzedFile(result.fileUri))
+    ];
+  }
+
+  /**
+   * Whether any file has been embedded, so callers can skip embedding a query for nothing
+   */
+  public async hasEmbeddings(): Promise<boolean> {
+    await this.ensureLoaded();
+    return this.decoded.size > 0;
+  }
+
+  /**
+   * Embed files whose context changed since they were last embedded and drop the embeddings of
+   * files that no longer have a context. Returns the number of files embedded.
+   */
+  public updateIndex(
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    signal?: AbortSignal
+  ): Promise<number> {
+    return this.serialize(async () => {
+      await this.ensureLoaded();
+      const contexts = await this.contextStore.listFileContexts();
+
+      const current = new Set(contexts.map(context => context.uri.toString()));
+      const removed = [...this.decoded.values()]
+        .map(({ embeddings }) => embeddings.uri)
+        .filter(uri => !current.has(uri.toString()));
+      if (removed.length > 0) {
+        await this.contextStore.deleteFileEmbeddings(removed);
+        removed.forEach(uri => this.decoded.delete(uri.toString()));
+      }
+
+      return this.embedChanged(contexts, progress, signal);
+    });
+  }
+
+  /**
+   * Chunks of the embedded files ranked by similarity to query, best first
+   */
+  public async search(query: string, limit: number = DEFAULT_CONFIG.EMBEDDINGS.MAX_RESULTS, signal?: AbortSignal): Promise<SemanticSearchResult[]> {
+    // Chat retrieval falls back to keyword matches when the provider cannot embed
+    if (!this.aiProvider.capabilities.embeddings) {
+      return [];
+    }
+    await this.ensureLoaded();
+    const model = this.aiProvider.getEmbeddingModel();
+    const [queryEmbedding] = await this.aiProvider.embed([query], signal);
+    if (!queryEmbedding) {
+      return [];
+    }
+    const queryVector = normalize(queryEmbedding);
+
+    const results: SemanticSearchResult[] = [];
+    for (const { embeddings, vectors } of this.decoded.values()) {
+      // Vectors of another model live in a different space
+      if (embeddings.model !== model) {
+        continue;
+      }
+      embeddings.chunks.forEach((chunk, i) => {
+        results.push({
+          uri: embeddings.uri,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          preview: chunk.preview,
+          score: dot(queryVector, vectors[i]!)
+        });
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Bring the index up to date, ask for a query and jump to the chosen chunk
+   */
+  public async showSearch(): Promise<void> {
+    if (!this.aiProvider.capabilities.embeddings) {
+      void vscode.window.showWarningMessage(
+        `BuildAI: Semantic search needs embeddings, which the ${this.aiProvider.label} provider does not offer. ` +
+        'If your server has an embeddings endpoint, enable balaAnalyzer.openaiCompatible.supportsEmbeddings and configure an ' +
+        'embedding model in balaAnalyzer.openaiCompatible.embeddingModel, or switch providers.'
+      );
+      return;
+    }
+    if ((await this.contextStore.listFileContexts()).length === 0) {
+      void vscode.window.showWarningMessage('BuildAI: No analyzed files to search. Run an analysis first.');
+      return;
+    }
+
+    try {
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Updating semantic search index...',
+        cancellable: true
+      }, async (progress, token) => {
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        try {
+          await this.updateIndex(progress, abortController.signal);
+        } finally {
+          cancellation.dispose();
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const model = this.aiProvider.getEmbeddingModel();
+      const hint = this.aiProvider.id === 'openaiCompatible'
+        ? 'Make sure the server serves the model or change balaAnalyzer.openaiCompatible.embeddingModel.'
+        : `Make sure the model is pulled on the Ollama server (ollama pull ${model}) or change balaAnalyzer.ollama.embeddingModel.`;
+      void vscode.window.showErrorMessage(`BuildAI: Failed to build the semantic index with ${model}: ${message}. ${hint}`);
+      return;
+    }
+
+    const query = await vscode.window.showInputBox({
+      title: 'Semantic Search',
+      prompt: 'Describe the code you are looking for',
+      placeHolder: 'e.g. where are retries with exponential backoff handled?'
+    });
+    if (!query?.trim()) {
+      return;
+    }
+
+    let results: SemanticSearchResult[];
+    try {
+      results = await this.search(query.trim());
+    } catch (error) {
+      void vscode.window.showErrorMessage(`BuildAI: Semantic search failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (results.length === 0) {
+      void vscode.window.showInformationMessage('BuildAI: No matching code found.');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick<SearchResultItem>(
+      results.map(result => ({
+        label: `${path.basename(result.uri.fsPath)}:${result.startLine + 1}-${result.endLine + 1}`,
+        description: `${vscode.workspace.asRelativePath(result.uri)} · ${result.score.toFixed(3)}`,
+        detail: result.preview,
+        result
+      })),
+      { title: `Semantic Search: ${query.trim()}`, placeHolder: 'Select a result to open it', matchOnDescription: true, matchOnDetail: true }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const { uri, startLine, endLine } = picked.result;
+    await vscode.window.showTextDocument(uri, {
+      selection: new vscode.Range(startLine, 0, endLine + 1, 0)
+    });
+  }
+
+  public dispose(): void {
+    if (this.analyzedTimer) {
+      clearTimeout(this.analyzedTimer);
+    }
+    this.disposables.forEach(disposable => {
+      disposable.dispose();
+    });
+  }
+
+  private serialize<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.updating.then(work);
+    this.updating = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Embed the contexts whose hash or model differs from their stored embeddings
+   */
+  private async embedChanged(
+    contexts: Array<{ uri: vscode.Uri; hash: string }>,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const model = this.aiProvider.getEmbeddingModel();
+    const changed = contexts.filter(({ uri, hash }) => {
+      const embeddings = this.decoded.get(uri.toString())?.embeddings;
+      return !embeddings || embeddings.hash !== hash || embeddings.model !== model;
+    });
+
+    let embedded = 0;
+    for (const { uri } of changed) {
+      if (signal?.aborted) {
+        break;
+      }
+      progress?.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / changed.length });
+
+      const fileContext = await this.contextStore.readFileContext(uri);
+      if (!fileContext) {
+        continue;
+      }
+      const embeddings = await this.embedFile(fileContext, model, signal);
+      await this.contextStore.storeFileEmbeddings(embeddings);
+      this.decoded.set(uri.toString(), decode(embeddings));
+      embedded++;
+    }
+
+    if (embedded > 0) {
+      console.log(`🧭 Embedded ${embedded} file(s) with ${model}`);
+    }
+    return embedded;
+  }
+
+  /**
+   * Collect analyzed files and embed them together once an analysis run stops storing results,
+   * so embedding does not compete with the run for the server
+   */
+  private queueAnalyzedFile(uri: vscode.Uri): void {
+    if (!this.aiProvider.capabilities.embeddings) {
+      return;
+    }
+    this.analyzed.set(uri.toString(), uri);
+    if (this.analyzedTimer) {
+      clearTimeout(this.analyzedTimer);
+    }
+    this.analyzedTimer = setTimeout(() => {
+      this.analyzedTimer = undefined;
+      void this.updateAnalyzedFiles();
+    }, DEFAULT_CONFIG.EMBEDDINGS.UPDATE_DELAY);
+  }
+
+  private async updateAnalyzedFiles(): Promise<void> {
+    const analyzed = new Set(this.analyzed.keys());
+    this.analyzed.clear();
+
+    try {
+      await this.serialize(async () => {
+        // The index is built by the first search; until then there is nothing to keep current
+        await this.ensureLoaded();
+        if (this.decoded.size === 0) {
+          return;
+        }
+        const contexts = (await this.contextStore.listFileContexts()).filter(({ uri }) => analyzed.has(uri.toString()));
+        await this.embedChanged(contexts);
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to embed analyzed files:', error);
+    }
+  }
+
+  private async embedFile(fileContext: FileContext, model: string, signal?: AbortSignal): Promise<FileEmbeddings> {
+    const chunks = chunkContent(fileContext.content);
+    const relativePath = vscode.workspace.asRelativePath(fileContext.uri);
+    const lines = fileContext.content.split(/\r?\n/);
+    const { BATCH_SIZE, MAX_CHUNK_CHARS } = DEFAULT_CONFIG.EMBEDDINGS;
+
+    const embeddedChunks: EmbeddedChunk[] = [];
+    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+      const batch = chunks.slice(i, i + BATCH_SIZE);
+      // The path gives chunks of otherwise generic code something to match on
+      const texts = batch.map(chunk =>
+        `${relativePath}\n${lines.slice(chunk.startLine, chunk.endLine + 1).join('\n')}`.slice(0, MAX_CHUNK_CHARS)
+      );
+      const vectors = await this.aiProvider.embed(texts, signal);
+      batch.forEach((chunk, j) => {
+        const vector = vectors[j];
+        if (vector) {
+          embeddedChunks.push({ ...chunk, vector: encodeVector(normalize(vector)) });
+        }
+      });
+    }
+
+    return { uri: fileContext.uri, hash: fileContext.hash, model, chunks: embeddedChunks };
+  }
+
+  private ensureLoaded(): Promise<void> {
+    this.loading ??= this.contextStore.getAllFileEmbeddings().then(files => {
+      files.forEach(embeddings => this.decoded.set(embeddings.uri.toString(), decode(embeddings)));
+    });
+    return this.loading;
+  }
+}
+
+function decode(embeddings: FileEmbeddings): DecodedFile {
+  return { embeddings, vectors: embeddings.chunks.map(chunk => decodeVector(chunk.vector)) };
+}
@@ -0,0 +1,103 @@
+import { ContextStore } from '@/services/ContextStore';
+import { HousekeepingService } from '@/services/HousekeepingService';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+jest.mock('@/utils/configuration', () => ({
+  affectsHousekeepingConfig: (): boolean => false,
+  getMaxCacheSizeMB: (): number => 100,
+  getRetentionDays: (): number => 30
+}));
+
+jest.mock('vscode', () => {
+  class Uri {
+    constructor(public readonly scheme: string, public readonly path: string) {}
+    public get fsPath(): string {
+      return this.path;
+    }
+    public static file(fsPath: string): Uri {
+      return new Uri('file', fsPath);
+    }
+    public static from(components: { scheme: string; path: string }): Uri {
+      return new Uri(components.scheme, components.path);
+    }
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+      return new Uri(base.scheme, [base.path, ...segments].join('/'));
+    }
+    public toString(): string {
+      return `${this.scheme}://${this.path}`;
+    }
+  }
+
+  return {
+    Uri,
+    EventEmitter: class {
+      public event = jest.fn();
+      public fire = jest.fn();
+      public dispose = jest.fn();
+    },
+    workspace: {
+      name: 'app',
+      workspaceFile: undefined,
+      workspaceFolders: [{ uri: Uri.file('/work/app'), name: 'app', index: 0 }]
+    }
+  };
+}, { virtual: true });
+
+const LONG_AGO = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+
+let storageRoot = '';
+
+async function writeManifest(id: string, lastOpened: Date): Promise<string> {
+  const dirPath = path.join(storageRoot, 'workspaces', id);
+  await fs.mkdir(dirPath, { recursive: true });
+  await fs.writeFile(path.join(dirPath, 'workspace.json'), JSON.stringify({ id, name: id, folders: [], lastOpened }));
+  return dirPath;
+}
+
+async function writePartition(id: string, lastOpened: Date): Promise<string> {
+  const dirPath = await writeManifest(id, lastOpened);
+  await fs.writeFile(path.join(dirPath, 'context.db'), '');
+  return dirPath;
+}
+
+describe('HousekeepingService', () => {
+  beforeEach(async () => {
+    storageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'housekeeping-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storageRoot, { recursive: true, force: true });
+  });
+
+  it('purges workspaces past the retention period but not one another window is writing to', async () => {
+    const abandoned = 'a'.repeat(32);
+    const writing = 'b'.repeat(32);
+    await writePartition(abandoned, LONG_AGO);
+    const writingPath = await writePartition(writing, LONG_AGO);
+    await fs.writeFile(path.join(writingPath, 'context.db.lock'), '');
+
+    const store = new ContextStore(vscode.Uri.file(storageRoot));
+    const report = await new HousekeepingService(store).run();
+    store.dispose();
+
+    expect(report.error).toBeUndefined();
+    expect(report.purgedWorkspaces).toBe(1);
+    expect((await fs.readdir(path.join(storageRoot, 'workspaces'))).sort()).toEqual([writing, store.workspaceId].sort());
+  });
+
+  it('keeps the open workspace current for other windows however long it stays open', async () => {
+    const store = new ContextStore(vscode.Uri.file(storageRoot));
+    await store.getStorageUsage(); // Waits for the store to open and write its manifest
+    // Opened long ago and never reopened since
+    await writeManifest(store.workspaceId, LONG_AGO);
+
+    await new HousekeepingService(store).run();
+
+    const current = (await store.listWorkspaces()).find(workspace => workspace.isCurrent);
+    expect(current?.lastOpened?.getTime()).toBeGreaterThan(Date.now() - 60 * 1000);
+    store.dispose();
+  });
+});
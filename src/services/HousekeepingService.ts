@@ -0,0 +1,139 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { ContextStore } from '@/services/ContextStore';
+import { HousekeepingReport, StoredWorkspace } from '@/types';
+import { affectsHousekeepingConfig, getMaxCacheSizeMB, getRetentionDays } from '@/utils/configuration';
+import { formatFileSize } from '@/utils/fileUtils';
+import * as vscode from 'vscode';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Applies the retention and cache size settings to the context store on activation, on a
+ * schedule and whenever those settings change
+ */
+export class HousekeepingService implements vscode.Disposable {
+  private readonly contextStore: ContextStore;
+  private readonly disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<HousekeepingReport> | undefined;
+  private lastReport: HousekeepingReport | undefined;
+
+  constructor(contextStore: ContextStore) {
+    this.contextStore = contextStore;
+  }
+
+  public start(): void {
+    void this.run();
+    this.timer = setInterval(() => void this.run(), DEFAULT_CONFIG.CONTEXT.HOUSEKEEPING_INTERVAL);
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (affectsHousekeepingConfig(event)) {
+          void this.run();
+        }
+      })
+    );
+  }
+
+  /**
+   * Runs requested while one is in progress share its report
+   */
+  public run(): Promise<HousekeepingReport> {
+    if (!this.running) {
+      this.running = this.runOnce().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Report storage usage against the configured budget, with shortcuts to reclaim space
+   */
+  public async showStorageUsage(): Promise<void> {
+    const [usage, workspaces] = await Promise.all([
+      this.contextStore.getStorageUsage(),
+      this.contextStore.listWorkspaces()
+    ]);
+    const current = workspaces.find(workspace => workspace.isCurrent);
+    const others = workspaces.filter(workspace => !workspace.isCurrent);
+    const otherBytes = sumSizes(others);
+    const report = this.lastReport;
+
+    const detail = [
+      `This workspace: ${formatFileSize(current?.sizeBytes ?? 0)} (${formatFileSize(usage.databaseBytes - usage.liveBytes)} reclaimable by compaction)`,
+      `${usage.analysisResults} analysis results, ${usage.fileContexts} file contexts, ${usage.relationships} relationships, ${usage.conversations} conversations`,
+      `Other workspaces: ${others.length} using ${formatFileSize(otherBytes)}`,
+      `Total: ${formatFileSize((current?.sizeBytes ?? 0) + otherBytes)} of ${getMaxCacheSizeMB()} MB, retention ${getRetentionDays()} days`,
+      report
+        ? `Last housekeeping: ${report.timestamp.toLocaleString()}, ${report.purgedWorkspaces} workspace(s) purged, ${report.evictedFiles} file(s) evicted${report.error ? ` (failed: ${report.error})` : ''}`
+        : 'Housekeeping has not run yet'
+    ].join('\n');
+
+    const action = await vscode.window.showInformationMessage(
+      'BuildAI Storage Usage',
+      { modal: true, detail },
+      'Run Housekeeping Now',
+      'Purge Other Workspaces'
+    );
+
+    if (action === 'Run Housekeeping Now') {
+      const result = await this.run();
+      if (result.error) {
+        void vscode.window.showErrorMessage(`BuildAI: Housekeeping failed: ${result.error}`);
+      } else {
+        void vscode.window.showInformationMessage(
+          `BuildAI: Housekeeping purged ${result.purgedWorkspaces} workspace(s) and evicted ${result.evictedFiles} file(s).`
+        );
+      }
+    } else if (action === 'Purge Other Workspaces') {
+      await vscode.commands.executeCommand('balaAnalyzer.purgeWorkspaceData');
+    }
+  }
+
+  public dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.disposables.forEach(disposable => {
+      disposable.dispose();
+    });
+  }
+
+  private async runOnce(): Promise<HousekeepingReport> {
+    const retentionDays = getRetentionDays();
+    const maxBytes = getMaxCacheSizeMB() * 1024 * 1024;
+    const report: HousekeepingReport = { timestamp: new Date(), purgedWorkspaces: 0, evictedFiles: 0 };
+
+    try {
+      // Runs at least every HOUSEKEEPING_INTERVAL, so a window that is still open never looks expired to others
+      await this.contextStore.markWorkspaceOpened();
+
+      // Workspaces not opened within the retention period; one another window is writing to is still in use
+      const cutoff = Date.now() - retentionDays * DAY_MS;
+      const expired = (await this.contextStore.listWorkspaces()).filter(workspace =>
+        !workspace.isCurrent && !workspace.isLocked && workspace.lastOpened !== undefined && workspace.lastOpened.getTime() < cutoff
+      );
+      await this.contextStore.purgeWorkspaces(expired.map(workspace => workspace.id));
+      report.purgedWorkspaces += expired.length;
+
+      await this.contextStore.cleanup(retentionDays);
+      await this.contextStore.cleanupOldConversations(retentionDays);
+
+      // The budget covers every workspace; least recently used analysis data goes first, chat history stays
+      const workspaces = await this.contextStore.listWorkspaces();
+      if (sumSizes(workspaces) > maxBytes) {
+        report.evictedFiles = await this.contextStore.evictLeastRecentlyUsed(maxBytes);
+      }
+    } catch (error) {
+      console.error('Housekeeping failed:', error);
+      report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+}
+
+function sumSizes(workspaces: StoredWorkspace[]): number {
+  return workspaces.reduce((sum, workspace) => sum + workspace.sizeBytes, 0);
+}
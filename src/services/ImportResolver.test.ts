@@ -0,0 +1,244 @@
+import { ImportResolver } from '@/services/ImportResolver';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+let workspaceRoot = '';
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getWorkspaceFolder: (uri: { fsPath: string }) =>
+      uri.fsPath.startsWith(workspaceRoot) ? { uri: { fsPath: workspaceRoot } } : undefined
+  },
+  Uri: {
+    file: (fsPath: string) => ({ fsPath, toString: () => `file://${fsPath}` })
+  }
+}), { virtual: true });
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(workspaceRoot, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+async function resolve(relativePath: string, content: string, language: string = 'typescript'): Promise<Record<string, string>> {
+  const uri = { fsPath: path.join(workspaceRoot, relativePath) } as vscode.Uri;
+  const resolved = await new ImportResolver().resolveImports(uri, content, language);
+  return Object.fromEntries(resolved.map(entry => [entry.specifier, path.relative(workspaceRoot, entry.uri.fsPath)]));
+}
+
+describe('ImportResolver', () => {
+  describe('extractSpecifiers', () => {
+    const resolver = new ImportResolver();
+
+    it('finds every TS/JS import form and skips comments and strings', () => {
+      const content = [
+        "import x from 'a';",
+        "import type { T } from './types';",
+        'import {',
+        '  one,',
+        '  two',
+        "} from '@/multi';",
+        "import './side-effect';",
+        "export * from './star';",
+        "export * as ns from './namespace';",
+        "export { y } from './named';",
+        "import legacy = require('./legacy');",
+        "const required = require('./required');",
+        "const lazy = import('./lazy');",
+        "// import commented from './commented';",
+        "const text = \"import quoted from './quoted'\";"
+      ].join('\n');
+
+      expect(resolver.extractSpecifiers(content, 'typescript')).toEqual([
+        'a', './types', '@/multi', './side-effect', './star', './namespace', './named', './legacy', './required', './lazy'
+      ]);
+    });
+
+    it('parses JSX sources', () => {
+      const content = "import Button from './Button';\nexport const App = () => <Button label=\"import x from 'y'\" />;";
+      expect(resolver.extractSpecifiers(content, 'javascriptreact')).toEqual(['./Button']);
+    });
+
+    it('handles a long unterminated import without deep recursion', () => {
+      expect(resolver.extractSpecifiers(`import ${'a, '.repeat(20000)}`, 'typescript')).toEqual([]);
+    });
+
+    it('finds Python from-imports, relative imports and aliased module lists', () => {
+      const content = [
+        'from os import path',
+        'from ..models import User',
+        'from . import helpers',
+        'import json, app.services as services  # comment',
+        '    import nested.module'
+      ].join('\n');
+
+      expect(resolver.extractSpecifiers(content, 'python')).toEqual(['os', '..models', '.', 'json', 'app.services', 'nested.module']);
+    });
+
+    it('finds Java class, static and wildcard imports', () => {
+      const content = [
+        'package com.example;',
+        'import java.util.List;',
+        'import static com.example.util.Strings.join;',
+        'import com.example.model.*;'
+      ].join('\n');
+
+      expect(resolver.extractSpecifiers(content, 'java')).toEqual([
+        'java.util.List', 'com.example.util.Strings.join', 'com.example.model.*'
+      ]);
+    });
+
+    it('returns nothing for other languages', () => {
+      expect(resolver.extractSpecifiers('#include "a.h"', 'cpp')).toEqual([]);
+    });
+  });
+
+  describe('resolveImports', () => {
+    beforeEach(async () => {
+      workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'import-resolver-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('resolves relative paths, .js specifiers of TS sources and index files', async () => {
+      await writeFiles({
+        'src/main.ts': '',
+        'src/util.ts': '',
+        'src/lib/index.ts': '',
+        'src/esm.ts': ''
+      });
+
+      expect(await resolve('src/main.ts', [
+        "import './util';",
+        "import './lib';",
+        "import './esm.js';",
+        "import './missing';",
+        "import 'lodash';"
+      ].join('\n'))).toEqual({
+        './util': 'src/util.ts',
+        './lib': 'src/lib/index.ts',
+        './esm.js': 'src/esm.ts'
+      });
+    });
+
+    it('prefers the most specific paths pattern and falls back to baseUrl', async () => {
+      await writeFiles({
+        'tsconfig.json': JSON.stringify({
+          compilerOptions: {
+            baseUrl: './src',
+            paths: {
+              '@/*': ['./*'],
+              '@/utils/*': ['./shared/utils/*'],
+              'config': ['./settings/config']
+            }
+          }
+        }),
+        'src/main.ts': '',
+        'src/types.ts': '',
+        'src/utils/format.ts': '',
+        'src/shared/utils/format.ts': '',
+        'src/settings/config.ts': '',
+        'src/plain.ts': ''
+      });
+
+      expect(await resolve('src/main.ts', [
+        "import '@/types';",
+        "import '@/utils/format';",
+        "import 'config';",
+        "import 'plain';"
+      ].join('\n'))).toEqual({
+        '@/types': 'src/types.ts',
+        '@/utils/format': 'src/shared/utils/format.ts',
+        'config': 'src/settings/config.ts',
+        'plain': 'src/plain.ts'
+      });
+    });
+
+    it('reads JSONC configs and inherits paths from array extends, later entries winning', async () => {
+      await writeFiles({
+        'config/base.json': JSON.stringify({ compilerOptions: { paths: { '~/*': ['../src/old/*'] } } }),
+        // The paths of the last parent resolve against that parent's directory
+        'config/paths/aliases.json': JSON.stringify({ compilerOptions: { paths: { '~/*': ['../../src/new/*'] } } }),
+        'tsconfig.json': [
+          '{',
+          '  // Shared settings',
+          '  "extends": ["./config/base.json", "./config/paths/aliases", "@tsconfig/node18/tsconfig.json"],',
+          '  "compilerOptions": { "strict": true, },',
+          '}'
+        ].join('\n'),
+        'src/main.ts': '',
+        'src/old/feature.ts': '',
+        'src/new/feature.ts': ''
+      });
+
+      expect(await resolve('src/main.ts', "import '~/feature';")).toEqual({ '~/feature': 'src/new/feature.ts' });
+    });
+
+    it('resolves own paths against an inherited baseUrl until the config sets its own', async () => {
+      await writeFiles({
+        'base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '#/*': ['lib/*'] } } }),
+        'packages/app/tsconfig.json': JSON.stringify({
+          extends: '../../base.json',
+          compilerOptions: { paths: { '#/*': ['src/*'] } }
+        }),
+        'packages/app/src/main.ts': '',
+        'packages/app/src/feature.ts': '',
+        'lib/feature.ts': ''
+      });
+
+      // baseUrl is inherited, so the app's own paths resolve against the workspace root
+      expect(await resolve('packages/app/src/main.ts', "import '#/feature';")).toEqual({});
+
+      await writeFiles({
+        'packages/app/tsconfig.json': JSON.stringify({
+          extends: '../../base.json',
+          compilerOptions: { baseUrl: '.', paths: { '#/*': ['src/*'] } }
+        })
+      });
+      expect(await resolve('packages/app/src/main.ts', "import '#/feature';")).toEqual({ '#/feature': 'packages/app/src/feature.ts' });
+    });
+
+    it('resolves Python modules, packages and relative imports', async () => {
+      await writeFiles({
+        'src/app/main.py': '',
+        'src/app/helpers.py': '',
+        'src/models/__init__.py': '',
+        'src/models/user.py': ''
+      });
+
+      expect(await resolve('src/app/main.py', [
+        'from . import helpers',
+        'from ..models import user',
+        'import models.user',
+        'import os'
+      ].join('\n'), 'python')).toEqual({
+        '..models': 'src/models/__init__.py',
+        'models.user': 'src/models/user.py'
+      });
+    });
+
+    it('resolves Java classes from the source root, including static member imports', async () => {
+      await writeFiles({
+        'src/main/java/com/example/App.java': '',
+        'src/main/java/com/example/util/Strings.java': ''
+      });
+
+      expect(await resolve('src/main/java/com/example/App.java', [
+        'package com.example;',
+        'import com.example.util.Strings;',
+        'import static com.example.util.Strings.join;',
+        'import com.example.model.*;',
+        'import java.util.List;'
+      ].join('\n'), 'java')).toEqual({
+        'com.example.util.Strings': 'src/main/java/com/example/util/Strings.java',
+        'com.example.util.Strings.join': 'src/main/java/com/example/util/Strings.java'
+      });
+    });
+  });
+});
@@ -0,0 +1,425 @@
+import { ResolvedImport } from '@/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as vscode from 'vscode';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  typescript: ts.ScriptKind.TS,
+  typescriptreact: ts.ScriptKind.TSX,
+  javascript: ts.ScriptKind.JS,
+  javascriptreact: ts.ScriptKind.JSX
+};
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const JS_TO_TS_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+const PYTHON_SOURCE_ROOTS = ['', 'src'];
+const JAVA_SOURCE_ROOTS = ['src/main/java', 'src/test/java', 'src', ''];
+const TSCONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+interface CompilerPathOptions {
+  configDir: string;
+  baseUrl?: string; // Absolute
+  paths?: Record<string, string[]>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * compilerOptions.paths with the entries that are not string arrays dropped
+ */
+function toPathMappings(paths: Record<string, unknown>): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(paths)
+      .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+      .map(([pattern, targets]) => [pattern, targets.filter((target): target is string => typeof target === 'string')])
+  );
+}
+
+/**
+ * Resolves import specifiers to workspace files for TypeScript/JavaScript (relative paths,
+ * index files, tsconfig/jsconfig baseUrl and paths), Python modules and Java classes.
+ * Imports that point outside the workspace (node_modules, site-packages, the JDK) resolve to nothing.
+ */
+export class ImportResolver {
+  private configCache: Map<string, { mtimeMs: number; options: CompilerPathOptions }> = new Map();
+
+  public async resolveImports(uri: vscode.Uri, content: string, language: string): Promise<ResolvedImport[]> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!workspaceFolder) {
+      return [];
+    }
+
+    const workspaceRoot = workspaceFolder.uri.fsPath;
+    const specifiers = [...new Set(this.extractSpecifiers(content, language))];
+    const resolved: ResolvedImport[] = [];
+
+    for (const specifier of specifiers) {
+      try {
+        const target = await this.resolveSpecifier(uri.fsPath, specifier, language, content, workspaceRoot);
+        if (target && target !== uri.fsPath && this.isInside(target, workspaceRoot)) {
+          resolved.push({ specifier, uri: vscode.Uri.file(target) });
+        }
+      } catch (error) {
+        console.warn(`⚠️ Failed to resolve import "${specifier}" in ${uri.fsPath}:`, error);
+      }
+    }
+
+    return resolved;
+  }
+
+  public extractSpecifiers(content: string, language: string): string[] {
+    const lang = language.toLowerCase();
+
+    const scriptKind = SCRIPT_KINDS[lang];
+    if (scriptKind !== undefined) {
+      return this.extractScriptSpecifiers(content, scriptKind);
+    }
+
+    if (lang === 'python') {
+      const specifiers: string[] = [];
+      for (const line of content.split('\n')) {
+        const fromImport = /^[ \t]*from[ \t]+(\S+)[ \t]+import\b/.exec(line)?.[1];
+        if (fromImport && /^[\w.]+$/.test(fromImport)) {
+          specifiers.push(fromImport);
+          continue;
+        }
+        // import a, b.c as d
+        const plainImport = /^[ \t]*import[ \t]+([^#;\n]+)/.exec(line)?.[1];
+        for (const entry of plainImport?.split(',') ?? []) {
+          const moduleName = entry.trim().split(/\s+as\s+/)[0] ?? '';
+          if (/^[\w.]+$/.test(moduleName)) {
+            specifiers.push(moduleName);
+          }
+        }
+      }
+      return specifiers;
+    }
+
+    if (lang === 'java') {
+      const specifiers: string[] = [];
+      // import a.b.C; import static a.b.C.member; import a.b.*;
+      const regex = /^[ \t]*import[ \t]+([^;\n]+);/gm;
+      let match;
+      while ((match = regex.exec(content)) !== null) {
+        const name = match[1]?.replace(/^static[ \t]+/, '').trim() ?? '';
+        if (/^[\w.]+(\.\*)?$/.test(name)) {
+          specifiers.push(name);
+        }
+      }
+      return specifiers;
+    }
+
+    return [];
+  }
+
+  /**
+   * Module specifiers of import/export declarations, import = require(), require() and import() calls.
+   * The source is parsed rather than matched so comments, strings and long import lists cost nothing extra.
+   */
+  private extractScriptSpecifiers(content: string, scriptKind: ts.ScriptKind): string[] {
+    const sourceFile = ts.createSourceFile('module', content, ts.ScriptTarget.Latest, false, scriptKind);
+    const specifiers: string[] = [];
+    const add = (node: ts.Node | undefined): void => {
+      if (node && ts.isStringLiteralLike(node) && node.text) {
+        specifiers.push(node.text);
+      }
+    };
+
+    // Walked with an explicit stack: generated or minified code can nest deeper than the call stack allows
+    const pending: ts.Node[] = [sourceFile];
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        add(node.moduleSpecifier);
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+        add(node.moduleReference.expression);
+      } else if (
+        ts.isCallExpression(node)
+        && node.arguments.length === 1
+        && (node.expression.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+      ) {
+        add(node.arguments[0]);
+      }
+      const children: ts.Node[] = [];
+      ts.forEachChild(node, child => {
+        children.push(child);
+      });
+      pending.push(...children.reverse());
+    }
+
+    return specifiers;
+  }
+
+  private async resolveSpecifier(
+    fromPath: string,
+    specifier: string,
+    language: string,
+    content: string,
+    workspaceRoot: string
+  ): Promise<string | undefined> {
+    const lang = language.toLowerCase();
+    if (lang in SCRIPT_KINDS) {
+      return this.resolveScriptImport(fromPath, specifier, workspaceRoot);
+    }
+    if (lang === 'python') {
+      return this.resolvePythonImport(fromPath, specifier, workspaceRoot);
+    }
+    if (lang === 'java') {
+      return this.resolveJavaImport(fromPath, specifier, content, workspaceRoot);
+    }
+    return undefined;
+  }
+
+  private async resolveScriptImport(fromPath: string, specifier: string, workspaceRoot: string): Promise<string | undefined> {
+    if (specifier.startsWith('.')) {
+      return this.resolveScriptPath(path.resolve(path.dirname(fromPath), specifier));
+    }
+    if (path.isAbsolute(specifier)) {
+      return this.resolveScriptPath(specifier);
+    }
+
+    const options = await this.findCompilerOptions(path.dirname(fromPath), workspaceRoot);
+    if (!options) {
+      return undefined;
+    }
+
+    // paths patterns are relative to baseUrl when set, otherwise to the tsconfig directory
+    const pathsBase = options.baseUrl ?? options.configDir;
+    for (const substitution of this.matchPathPatterns(specifier, options.paths ?? {})) {
+      const resolved = await this.resolveScriptPath(path.resolve(pathsBase, substitution));
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    return options.baseUrl ? this.resolveScriptPath(path.resolve(options.baseUrl, specifier)) : undefined;
+  }
+
+  /**
+   * Resolve a path the way the TypeScript/Node resolvers do: exact file, source file behind a
+   * .js specifier, added extension, then directory index
+   */
+  private async resolveScriptPath(basePath: string): Promise<string | undefined> {
+    const extension = path.extname(basePath);
+
+    if (extension && await this.isFile(basePath)) {
+      return basePath;
+    }
+
+    const sourceExtensions = JS_TO_TS_EXTENSIONS[extension];
+    if (sourceExtensions) {
+      const withoutExtension = basePath.slice(0, -extension.length);
+      for (const sourceExtension of sourceExtensions) {
+        if (await this.isFile(withoutExtension + sourceExtension)) {
+          return withoutExtension + sourceExtension;
+        }
+      }
+    }
+
+    for (const ext of SCRIPT_EXTENSIONS) {
+      if (await this.isFile(basePath + ext)) {
+        return basePath + ext;
+      }
+    }
+
+    for (const ext of SCRIPT_EXTENSIONS) {
+      const indexPath = path.join(basePath, `index${ext}`);
+      if (await this.isFile(indexPath)) {
+        return indexPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Substitutions for every tsconfig paths pattern matching the specifier, most specific pattern first
+   */
+  private matchPathPatterns(specifier: string, paths: Record<string, string[]>): string[] {
+    const matches: Array<{ prefixLength: number; substitutions: string[] }> = [];
+
+    for (const [pattern, targets] of Object.entries(paths)) {
+      const starIndex = pattern.indexOf('*');
+      if (starIndex === -1) {
+        if (pattern === specifier) {
+          matches.push({ prefixLength: pattern.length, substitutions: targets });
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+        const wildcard = specifier.slice(prefix.length, specifier.length - suffix.length);
+        matches.push({ prefixLength: prefix.length, substitutions: targets.map(target => target.replace('*', wildcard)) });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.prefixLength - a.prefixLength)
+      .flatMap(match => match.substitutions);
+  }
+
+  /**
+   * Nearest tsconfig.json/jsconfig.json between the importing file and the workspace root
+   */
+  private async findCompilerOptions(startDir: string, workspaceRoot: string): Promise<CompilerPathOptions | undefined> {
+    let dir = startDir;
+    for (;;) {
+      for (const name of TSCONFIG_NAMES) {
+        const configPath = path.join(dir, name);
+        if (await this.isFile(configPath)) {
+          return this.loadCompilerOptions(configPath);
+        }
+      }
+      if (dir === workspaceRoot || !this.isInside(dir, workspaceRoot)) {
+        return undefined;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  private async loadCompilerOptions(configPath: string, depth: number = 0): Promise<CompilerPathOptions | undefined> {
+    const stat = await fs.stat(configPath);
+    const cached = this.configCache.get(configPath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached.options;
+    }
+
+    const configDir = path.dirname(configPath);
+    let config: unknown;
+    try {
+      config = JSON.parse(this.stripJsonComments(await fs.readFile(configPath, 'utf8')));
+    } catch (error) {
+      console.warn(`⚠️ Could not parse ${configPath}:`, error);
+      return undefined;
+    }
+    if (!isRecord(config)) {
+      console.warn(`⚠️ Could not parse ${configPath}: not a JSON object`);
+      return undefined;
+    }
+
+    // Inherit baseUrl/paths from relative "extends" entries, later ones overriding earlier ones as
+    // in TypeScript 5's array form (package-based configs are not followed)
+    let options: CompilerPathOptions = { configDir };
+    const parentRefs = typeof config.extends === 'string' ? [config.extends] : Array.isArray(config.extends) ? config.extends : [];
+    for (const parentRef of parentRefs) {
+      if (typeof parentRef !== 'string' || !parentRef.startsWith('.') || depth >= 5) {
+        continue;
+      }
+      const parentPath = path.resolve(configDir, parentRef.endsWith('.json') ? parentRef : `${parentRef}.json`);
+      const parent = await this.isFile(parentPath) ? await this.loadCompilerOptions(parentPath, depth + 1) : undefined;
+      if (parent) {
+        // paths resolve against the directory of the config that declared them
+        options = { ...options, ...parent, configDir: parent.paths ? parent.configDir : options.configDir };
+      }
+    }
+
+    const compilerOptions = isRecord(config.compilerOptions) ? config.compilerOptions : {};
+    if (typeof compilerOptions.baseUrl === 'string') {
+      options.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+    }
+    if (isRecord(compilerOptions.paths)) {
+      options.paths = toPathMappings(compilerOptions.paths);
+      options.configDir = configDir;
+    }
+
+    this.configCache.set(configPath, { mtimeMs: stat.mtimeMs, options });
+    return options;
+  }
+
+  /**
+   * tsconfig files are JSONC: drop comments and trailing commas, leaving string contents alone
+   */
+  private stripJsonComments(text: string): string {
+    return text
+      .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, stringLiteral: string | undefined) => stringLiteral ?? '')
+      .replace(/,(\s*[}\]])/g, '$1');
+  }
+
+  private async resolvePythonImport(fromPath: string, specifier: string, workspaceRoot: string): Promise<string | undefined> {
+    const leadingDots = specifier.match(/^\.*/)?.[0].length ?? 0;
+    const modulePath = specifier.slice(leadingDots).split('.').filter(Boolean);
+
+    let roots: string[];
+    if (leadingDots > 0) {
+      // "." is the importing module's package, each extra dot goes one package up
+      let packageDir = path.dirname(fromPath);
+      for (let i = 1; i < leadingDots; i++) {
+        packageDir = path.dirname(packageDir);
+      }
+      roots = [packageDir];
+    } else {
+      roots = [path.dirname(fromPath), ...PYTHON_SOURCE_ROOTS.map(root => path.join(workspaceRoot, root))];
+    }
+
+    for (const root of roots) {
+      const base = path.join(root, ...modulePath);
+      const candidates = modulePath.length > 0
+        ? [`${base}.py`, path.join(base, '__init__.py')]
+        : [path.join(base, '__init__.py')];
+      for (const candidate of candidates) {
+        if (await this.isFile(candidate)) {
+          return candidate;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async resolveJavaImport(fromPath: string, specifier: string, content: string, workspaceRoot: string): Promise<string | undefined> {
+    // Wildcard imports name a package, not a file
+    if (specifier.endsWith('.*')) {
+      return undefined;
+    }
+
+    const roots = JAVA_SOURCE_ROOTS.map(root => path.join(workspaceRoot, root));
+    // The importing file's own source root, derived from its package declaration
+    const packageName = content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+    if (packageName) {
+      const packageDepth = packageName.split('.').length;
+      let sourceRoot = path.dirname(fromPath);
+      for (let i = 0; i < packageDepth; i++) {
+        sourceRoot = path.dirname(sourceRoot);
+      }
+      roots.unshift(sourceRoot);
+    }
+
+    // Static imports and nested classes name members of a class: drop trailing segments until a file matches
+    const segments = specifier.split('.');
+    for (let length = segments.length; length > 1; length--) {
+      const relativePath = `${segments.slice(0, length).join(path.sep)}.java`;
+      for (const root of roots) {
+        const candidate = path.join(root, relativePath);
+        if (await this.isFile(candidate)) {
+          return candidate;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private isInside(filePath: string, root: string): boolean {
+    const relative = path.relative(root, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
@@ -0,0 +1,357 @@
+import { IndexDatabase } from '@/services/IndexDatabase';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+interface Note {
+  id: string;
+  tags: string[];
+  text: string;
+}
+
+let directory = '';
+let filePath = '';
+const openDatabases: IndexDatabase[] = [];
+
+async function openDatabase(): Promise<IndexDatabase> {
+  const db = new IndexDatabase(filePath);
+  db.defineTable<Note>('notes', { indexes: { tag: note => note.tags } });
+  db.defineTable('settings', { cacheValues: true });
+  await db.open();
+  openDatabases.push(db);
+  return db;
+}
+
+function note(id: string, tags: string[] = [], text: string = `note ${id}`): Note {
+  return { id, tags, text };
+}
+
+async function putNotes(db: IndexDatabase, notes: Note[]): Promise<void> {
+  await db.transaction(tx => {
+    notes.forEach(item => tx.put('notes', item.id, item));
+  });
+}
+
+describe('IndexDatabase', () => {
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'index-database-'));
+    filePath = path.join(directory, 'nested', 'context.db');
+  });
+
+  afterEach(async () => {
+    await Promise.all(openDatabases.splice(0).map(db => db.close()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps committed records across a reopen', async () => {
+    const db = await openDatabase();
+    await putNotes(db, [note('a'), note('b')]);
+    await db.transaction(tx => {
+      tx.put('settings', 'theme', 'dark');
+      tx.delete('notes', 'b');
+    });
+    await db.close();
+
+    const reopened = await openDatabase();
+    expect(await reopened.get('notes', 'a')).toEqual(note('a'));
+    expect(await reopened.get('notes', 'b')).toBeUndefined();
+    expect(await reopened.keys('notes')).toEqual(['a']);
+    expect(await reopened.getAll('settings')).toEqual(['dark']);
+  });
+
+  it('writes nothing when a transaction fails', async () => {
+    const db = await openDatabase();
+    await expect(db.transaction(tx => {
+      tx.put('notes', 'a', note('a'));
+      throw new Error('aborted');
+    })).rejects.toThrow('aborted');
+
+    expect(await db.keys('notes')).toEqual([]);
+    expect((await db.stats()).fileBytes).toBe(0);
+  });
+
+  it('records touches as the last use, across a reopen and compaction', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const db = await openDatabase();
+    await putNotes(db, [note('a'), note('b')]);
+    jest.spyOn(Date, 'now').mockReturnValue(5000);
+    await db.transaction(tx => {
+      tx.touch('notes', 'a');
+      tx.touch('notes', 'missing');
+    });
+    jest.restoreAllMocks();
+
+    const usedAt = async (target: IndexDatabase): Promise<Record<string, number>> =>
+      Object.fromEntries((await target.entries('notes')).map(entry => [entry.key, entry.usedAt.getTime()]));
+    expect(await usedAt(db)).toEqual({ a: 5000, b: 1000 });
+    expect((await db.entries('notes')).map(entry => entry.updatedAt.getTime())).toEqual([1000, 1000]);
+
+    await db.compact();
+    const { fileBytes, liveBytes } = await db.stats();
+    expect(liveBytes).toBe(fileBytes - JSON.stringify({ op: 'commit' }).length - 1);
+    await db.close();
+    expect(await usedAt(await openDatabase())).toEqual({ a: 5000, b: 1000 });
+  });
+
+  describe('recovery', () => {
+    it('discards a torn write after the last commit marker and truncates it away', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a')]);
+      await db.close();
+      const { size: committed } = await fs.stat(filePath);
+
+      // A batch whose commit marker never reached the disk, cut off mid-record
+      const torn = `${JSON.stringify({ op: 'put', table: 'notes', key: 'b', time: 1, value: note('b') })}\n{"op":"put","table":"no`;
+      await fs.appendFile(filePath, torn);
+
+      const reopened = await openDatabase();
+      expect(await reopened.keys('notes')).toEqual(['a']);
+      expect((await fs.stat(filePath)).size).toBe(committed);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Discarding'));
+
+      await putNotes(reopened, [note('c')]);
+      await reopened.close();
+      expect(await (await openDatabase()).keys('notes')).toEqual(['a', 'c']);
+    });
+
+    it('discards complete records that were never committed', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a')]);
+      await db.close();
+      await fs.appendFile(filePath, `${JSON.stringify({ op: 'del', table: 'notes', key: 'a' })}\n`);
+
+      expect(await (await openDatabase()).get('notes', 'a')).toEqual(note('a'));
+    });
+
+    it('accepts a final commit marker that lost its newline', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a')]);
+      await db.close();
+      const content = await fs.readFile(filePath, 'utf8');
+      await fs.writeFile(filePath, content.slice(0, -1));
+
+      const reopened = await openDatabase();
+      await putNotes(reopened, [note('b')]);
+      await reopened.close();
+
+      expect(await (await openDatabase()).keys('notes')).toEqual(['a', 'b']);
+    });
+
+    it('drops records of tables that are no longer defined', async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, [
+        JSON.stringify({ op: 'put', table: 'retired', key: 'x', time: 1, value: 1 }),
+        JSON.stringify({ op: 'put', table: 'notes', key: 'a', time: 1, value: note('a') }),
+        JSON.stringify({ op: 'commit' }),
+        ''
+      ].join('\n'));
+
+      expect(await (await openDatabase()).keys('notes')).toEqual(['a']);
+    });
+  });
+
+  describe('compaction', () => {
+    it('rewrites only live records through a renamed temp file', async () => {
+      const db = await openDatabase();
+      for (let round = 0; round < 5; round++) {
+        await putNotes(db, [note('a', ['x'], `round ${round}`), note('b', ['y'])]);
+      }
+      await db.transaction(tx => tx.delete('notes', 'b'));
+      const before = await db.stats();
+
+      await db.compact();
+
+      const after = await db.stats();
+      expect(after.fileBytes).toBeLessThan(before.fileBytes);
+      expect(after.fileBytes).toBe((await fs.stat(filePath)).size);
+      expect(await fs.readdir(path.dirname(filePath))).toEqual(['context.db']);
+      expect(await db.get('notes', 'a')).toEqual(note('a', ['x'], 'round 4'));
+
+      // Offsets point into the new file, for this session and the next
+      await putNotes(db, [note('c')]);
+      await db.close();
+      const reopened = await openDatabase();
+      expect(await reopened.getAll('notes')).toEqual([note('a', ['x'], 'round 4'), note('c')]);
+      expect(await reopened.query('notes', 'tag', 'x')).toEqual([note('a', ['x'], 'round 4')]);
+    });
+
+    it('compacts on open and after a write once the log is large and mostly superseded', async () => {
+      const text = 'x'.repeat(64 * 1024);
+      const lines = Array.from({ length: 20 }, (_, round) =>
+        JSON.stringify({ op: 'put', table: 'notes', key: 'a', time: 1, value: note('a', [], `${round}${text}`) }));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, `${lines.join('\n')}\n${JSON.stringify({ op: 'commit' })}\n`);
+
+      const db = await openDatabase();
+      expect((await fs.stat(filePath)).size).toBeLessThan(100 * 1024);
+      expect(await db.get('notes', 'a')).toEqual(note('a', [], `19${text}`));
+
+      for (let round = 0; round < 20; round++) {
+        await putNotes(db, [note('a', [], `${round}${text}`)]);
+      }
+      const { fileBytes, liveBytes } = await db.stats();
+      expect(fileBytes).toBeLessThan(1024 * 1024);
+      expect(liveBytes).toBeGreaterThan(64 * 1024);
+    });
+  });
+
+  describe('secondary indexes', () => {
+    it('lists records under each of their index keys', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a', ['red', 'blue']), note('b', ['blue']), note('c')]);
+
+      expect(await db.query('notes', 'tag', 'blue')).toEqual([note('a', ['red', 'blue']), note('b', ['blue'])]);
+      expect(await db.lookup('notes', 'tag', 'red')).toEqual(['a']);
+      expect(await db.lookup('notes', 'tag', 'green')).toEqual([]);
+      expect(await db.indexEntries('notes', 'tag')).toEqual(new Map([['a', ['red', 'blue']], ['b', ['blue']], ['c', []]]));
+      await expect(db.query('notes', 'color', 'red')).rejects.toThrow('Unknown index color on table notes');
+    });
+
+    it('moves records between keys on overwrite and drops them on delete and clear', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a', ['red']), note('b', ['red'])]);
+      await db.transaction(tx => {
+        tx.put('notes', 'a', note('a', ['blue']));
+        tx.delete('notes', 'b');
+      });
+
+      expect(await db.lookup('notes', 'tag', 'red')).toEqual([]);
+      expect(await db.lookup('notes', 'tag', 'blue')).toEqual(['a']);
+
+      await db.close();
+      const reopened = await openDatabase();
+      expect(await reopened.lookup('notes', 'tag', 'blue')).toEqual(['a']);
+
+      await reopened.transaction(tx => tx.clear('notes'));
+      expect(await reopened.lookup('notes', 'tag', 'blue')).toEqual([]);
+      expect(await reopened.keys('notes')).toEqual([]);
+    });
+
+    it('overlays uncommitted writes on index lookups inside a transaction', async () => {
+      const db = await openDatabase();
+      await putNotes(db, [note('a', ['red']), note('b', ['red'])]);
+
+      const keys = await db.transaction(tx => {
+        tx.put('notes', 'a', note('a', ['blue']));
+        tx.put('notes', 'c', note('c', ['red']));
+        tx.delete('notes', 'b');
+        return tx.keys('notes', { index: 'tag', key: 'red' });
+      });
+
+      expect(keys).toEqual(['c']);
+    });
+  });
+
+  describe('sharing a file between windows', () => {
+    it('replays the other window\'s appends before writing', async () => {
+      const first = await openDatabase();
+      const second = await openDatabase();
+
+      await putNotes(first, [note('a', ['red'])]);
+      await putNotes(second, [note('b', ['red'])]);
+      await putNotes(first, [note('c')]);
+
+      expect(await first.lookup('notes', 'tag', 'red')).toEqual(['a', 'b']);
+      expect(await first.keys('notes')).toEqual(['a', 'b', 'c']);
+      await first.close();
+      await second.close();
+      expect(await (await openDatabase()).keys('notes')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('replays the other window\'s writes before reading', async () => {
+      const first = await openDatabase();
+      const second = await openDatabase();
+      await putNotes(first, [note('a', ['red'])]);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const lookedUp = Date.now();
+      expect(await second.get('notes', 'a')).toEqual(note('a', ['red']));
+
+      await putNotes(first, [note('b', ['red'])]);
+      await first.transaction(tx => {
+        tx.put('settings', 'theme', 'dark');
+      });
+      expect(await second.getAll('notes')).toEqual([note('a', ['red']), note('b', ['red'])]);
+      expect(await second.query('notes', 'tag', 'red')).toHaveLength(2);
+      expect(await second.get('settings', 'theme')).toBe('dark');
+
+      await putNotes(first, [note('c')]);
+      await first.compact();
+      expect(await second.keys('notes')).toEqual(['a', 'b', 'c']);
+      // The earlier lookup survives the reload
+      const [a] = await second.entries('notes');
+      expect(a?.accessedAt.getTime()).toBeGreaterThanOrEqual(lookedUp);
+    });
+
+    it('reopens the log after the other window compacted it', async () => {
+      const first = await openDatabase();
+      const second = await openDatabase();
+      await putNotes(first, [note('a'), note('b')]);
+      await putNotes(first, [note('a', [], 'updated')]);
+
+      await second.compact();
+      await putNotes(first, [note('c')]);
+
+      expect(await first.get('notes', 'a')).toEqual(note('a', [], 'updated'));
+      expect(await second.transaction(tx => tx.get('notes', 'c'))).toEqual(note('c'));
+      expect(await fs.readdir(path.dirname(filePath))).toEqual(['context.db']);
+    });
+
+    it('waits for a held lock file and takes over a stale one', async () => {
+      const db = await openDatabase();
+      const lockPath = `${filePath}.lock`;
+      await fs.writeFile(lockPath, '');
+
+      let committed = false;
+      const write = putNotes(db, [note('a')]).then(() => {
+        committed = true;
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(committed).toBe(false);
+
+      await fs.unlink(lockPath);
+      await write;
+      expect(await db.keys('notes')).toEqual(['a']);
+
+      // Left behind by a window that crashed while writing
+      await fs.writeFile(lockPath, '');
+      const past = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath, past, past);
+      await putNotes(db, [note('b')]);
+      expect(await db.keys('notes')).toEqual(['a', 'b']);
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('keeps its lock fresh while a long transaction runs', async () => {
+      const first = await openDatabase();
+      const second = await openDatabase();
+      const lockPath = `${filePath}.lock`;
+      // Only the heartbeat interval is driven by hand
+      jest.useFakeTimers({
+        doNotFake: ['Date', 'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout']
+      });
+
+      let secondCommitted = false;
+      try {
+        await first.transaction(async tx => {
+          // As if the transaction had already been running for a minute
+          const past = new Date(Date.now() - 60 * 1000);
+          await fs.utimes(lockPath, past, past);
+          jest.advanceTimersByTime(5000);
+          await new Promise(resolve => setTimeout(resolve, 50));
+
+          void putNotes(second, [note('b')]).then(() => {
+            secondCommitted = true;
+          });
+          await new Promise(resolve => setTimeout(resolve, 100));
+          expect(secondCommitted).toBe(false);
+          tx.put('notes', 'a', note('a'));
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(await second.transaction(tx => tx.keys('notes'))).toEqual(['a', 'b']);
+      expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('Removing stale lock'));
+    });
+  });
+});
@@ -0,0 +1,722 @@
+import { IndexEntryInfo, IndexTableOptions, IndexTransaction } from '@/types';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+
+// The log is rewritten once it is over this size and more than half of it is superseded records
+const COMPACTION_MIN_BYTES = 1024 * 1024;
+const COMPACTION_DEAD_RATIO = 0.5;
+
+const COMMIT_LINE = `${JSON.stringify({ op: 'commit' })}\n`;
+
+// Windows sharing a database take turns writing through an exclusively created lock file
+const LOCK_RETRY_DELAY = 25;
+const LOCK_TIMEOUT = 10000;
+const LOCK_STALE_AGE = 30000; // A lock this old was left behind by a window that crashed while writing
+const LOCK_REFRESH_INTERVAL = 5000; // The holder keeps its lock fresh while long work runs
+
+// Windows refuses to replace a file that another window still has open until it lets go
+const RENAME_RETRY_DELAY = 100;
+const RENAME_TIMEOUT = 2000;
+
+type JsonReplacer = (key: string, value: unknown) => unknown;
+type JsonReviver = (key: string, value: unknown) => unknown;
+
+type LogRecord =
+  | { op: 'put'; table: string; key: string; time: number; value: unknown }
+  | { op: 'del'; table: string; key: string }
+  | { op: 'clear'; table: string }
+  | { op: 'touch'; table: string; key: string; time: number }
+  | { op: 'commit' };
+
+type WriteRecord = Exclude<LogRecord, { op: 'commit' }>;
+
+interface Entry {
+  offset: number;
+  length: number; // Bytes of the log line, including the newline
+  updatedAt: number;
+  usedAt: number; // Last write or touch
+  touchLength?: number; // Bytes of the latest touch line, which stays live alongside the record
+  accessedAt: number; // Last lookup by key, write or touch in this session, starts at usedAt when loaded
+  value?: unknown; // Only kept for tables with cacheValues
+  indexKeys?: Record<string, string[]>;
+}
+
+interface Table {
+  options: IndexTableOptions;
+  entries: Map<string, Entry>;
+  indexes: Map<string, Map<string, Set<string>>>; // Index name -> index key -> record keys
+}
+
+/**
+ * Single-file embedded key/value store. Every write is appended to a JSON-lines log and a batch
+ * only counts once its commit marker is on disk, so a torn write is discarded on the next open.
+ * Record offsets and secondary indexes are kept in memory; values are read back lazily.
+ * Appends and compaction hold a lock file, and a log changed by another window since it was last
+ * read is replayed before reading or writing, so windows sharing a database see each other's writes.
+ */
+export class IndexDatabase {
+  private readonly filePath: string;
+  private readonly replacer: JsonReplacer | undefined;
+  private readonly reviver: JsonReviver | undefined;
+  private readonly tables = new Map<string, Table>();
+  private handle: fs.FileHandle | undefined;
+  private size = 0;
+  private liveBytes = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, replacer?: JsonReplacer, reviver?: JsonReviver) {
+    this.filePath = filePath;
+    this.replacer = replacer;
+    this.reviver = reviver;
+  }
+
+  /**
+   * Whether a window holds the lock file of the database at filePath and is still keeping it fresh
+   */
+  public static async isLocked(filePath: string): Promise<boolean> {
+    const lock = await fs.stat(`${filePath}.lock`).catch(() => undefined);
+    return lock !== undefined && Date.now() - lock.mtimeMs <= LOCK_STALE_AGE;
+  }
+
+  /**
+   * Tables must be defined before open(); records of unknown tables are dropped
+   */
+  public defineTable<T>(name: string, options: IndexTableOptions<T> = {}): void {
+    if (this.handle) {
+      throw new Error(`Cannot define table ${name} after the index database has been opened`);
+    }
+    this.tables.set(name, {
+      options: options as IndexTableOptions,
+      entries: new Map(),
+      indexes: new Map(Object.keys(options.indexes ?? {}).map(index => [index, new Map<string, Set<string>>()]))
+    });
+  }
+
+  public open(): Promise<void> {
+    return this.exclusive(async () => {
+      if (this.handle) {
+        return;
+      }
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.withFileLock(async () => {
+        await this.openLog();
+        await this.compactIfNeeded();
+      });
+    });
+  }
+
+  public close(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.handle?.close();
+      this.handle = undefined;
+    });
+  }
+
+  /**
+   * Read one record and mark it as accessed. Reads through getAll and query leave accessedAt alone,
+   * so scans over every record do not make them all look recently used.
+   */
+  public get<T>(table: string, key: string): Promise<T | undefined> {
+    return this.read(() => this.lookupValue<T>(this.getTable(table), key));
+  }
+
+  public getAll<T>(table: string): Promise<T[]> {
+    return this.read(() => {
+      const definition = this.getTable(table);
+      return this.readValues<T>(definition, [...definition.entries.keys()]);
+    });
+  }
+
+  /**
+   * Values listed under key in one of the table's secondary indexes
+   */
+  public query<T>(table: string, index: string, key: string): Promise<T[]> {
+    return this.read(() => {
+      const definition = this.getTable(table);
+      return this.readValues<T>(definition, [...this.getIndex(definition, table, index).get(key) ?? []]);
+    });
+  }
+
+  /**
+   * Keys of the records listed under key in one of the table's secondary indexes, without reading them
+   */
+  public lookup(table: string, index: string, key: string): Promise<string[]> {
+    return this.read(() => {
+      const definition = this.getTable(table);
+      return [...this.getIndex(definition, table, index).get(key) ?? []];
+    });
+  }
+
+  public keys(table: string): Promise<string[]> {
+    return this.read(() => [...this.getTable(table).entries.keys()]);
+  }
+
+  /**
+   * Each record's keys in one secondary index, without reading the records themselves
+   */
+  public indexEntries(table: string, index: string): Promise<Map<string, string[]>> {
+    return this.read(() => {
+      const definition = this.getTable(table);
+      this.getIndex(definition, table, index);
+      return new Map([...definition.entries].map(([key, entry]) => [key, entry.indexKeys?.[index] ?? []]));
+    });
+  }
+
+  public entries(table: string): Promise<IndexEntryInfo[]> {
+    return this.read(() => [...this.getTable(table).entries].map(([key, entry]) => ({
+      key,
+      size: entry.length,
+      updatedAt: new Date(entry.updatedAt),
+      usedAt: new Date(entry.usedAt),
+      accessedAt: new Date(entry.accessedAt)
+    })));
+  }
+
+  /**
+   * Bytes on disk, and the part of them still holding current records
+   */
+  public stats(): Promise<{ fileBytes: number; liveBytes: number }> {
+    return this.read(() => ({ fileBytes: this.size, liveBytes: this.liveBytes }));
+  }
+
+  /**
+   * Rewrite the log without superseded records, regardless of the automatic threshold
+   */
+  public compact(): Promise<void> {
+    return this.exclusive(() => this.withFileLock(async () => {
+      await this.syncWithFile();
+      await this.rewrite();
+    }));
+  }
+
+  /**
+   * Run work against a consistent view and write all of its changes as one batch. Use the
+   * transaction's own methods inside work; calling back into the database would deadlock.
+   */
+  public transaction<T>(work: (tx: IndexTransaction) => T | Promise<T>): Promise<T> {
+    return this.exclusive(() => this.withFileLock(async () => {
+      await this.syncWithFile();
+      const tx = new Transaction(this.tables, (table, key) => this.lookupValue(table, key));
+      const result = await work(tx);
+      await this.commit(tx.records);
+      return result;
+    }));
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Serve a read from memory after replaying what another window wrote since the log was last read
+   */
+  private read<T>(work: () => T | Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      if (await this.changedOnDisk()) {
+        await this.withFileLock(() => this.syncWithFile());
+      }
+      return work();
+    });
+  }
+
+  private getTable(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`Unknown index table: ${name}`);
+    }
+    return table;
+  }
+
+  private getIndex(table: Table, tableName: string, index: string): Map<string, Set<string>> {
+    const entries = table.indexes.get(index);
+    if (!entries) {
+      throw new Error(`Unknown index ${index} on table ${tableName}`);
+    }
+    return entries;
+  }
+
+  /**
+   * Run work while holding the lock file. A lock older than LOCK_STALE_AGE is taken over, so the
+   * holder refreshes its mtime every LOCK_REFRESH_INTERVAL until work finishes.
+   */
+  private async withFileLock<T>(work: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const lock = await fs.stat(lockPath).catch(() => undefined);
+      if (lock && Date.now() - lock.mtimeMs > LOCK_STALE_AGE) {
+        console.warn(`⚠️ Removing stale lock ${lockPath}`);
+        await fs.unlink(lockPath).catch(() => undefined);
+      } else if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockPath}`);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+      }
+    }
+
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now).catch(error => console.warn(`⚠️ Failed to refresh ${lockPath}:`, error));
+    }, LOCK_REFRESH_INTERVAL);
+    try {
+      return await work();
+    } finally {
+      clearInterval(heartbeat);
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Replay the log into memory, open it for appending and drop any uncommitted tail.
+   * Must hold the lock file.
+   */
+  private async openLog(): Promise<void> {
+    const committedLength = await this.load();
+    this.handle = await fs.open(this.filePath, 'a+');
+
+    const { size } = await this.handle.stat();
+    if (size > committedLength) {
+      console.warn(`⚠️ Discarding ${size - committedLength} bytes of uncommitted data from ${this.filePath}`);
+      await this.handle.truncate(committedLength);
+    } else if (size < committedLength) {
+      // The final commit marker lost its newline
+      await this.handle.write('\n');
+    }
+    this.size = committedLength;
+  }
+
+  /**
+   * Reload when another window appended to the log or replaced it by compacting since it was last
+   * read. Must hold the lock file.
+   */
+  private async syncWithFile(): Promise<void> {
+    if (!await this.changedOnDisk()) {
+      return;
+    }
+
+    // Lookups of this session are not in the log; carry them over to the replayed entries
+    const accessed = new Map<Table, Map<string, number>>();
+    for (const table of this.tables.values()) {
+      accessed.set(table, new Map([...table.entries].map(([key, entry]) => [key, entry.accessedAt])));
+      table.entries.clear();
+      table.indexes.forEach(index => index.clear());
+    }
+
+    await this.requireHandle().close();
+    this.handle = undefined;
+    this.liveBytes = 0;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.openLog();
+
+    for (const [table, times] of accessed) {
+      for (const [key, entry] of table.entries) {
+        entry.accessedAt = Math.max(entry.accessedAt, times.get(key) ?? 0);
+      }
+    }
+  }
+
+  /**
+   * Whether another window appended to the log or replaced it by compacting since it was last read
+   */
+  private async changedOnDisk(): Promise<boolean> {
+    const [opened, onDisk] = await Promise.all([this.requireHandle().stat(), fs.stat(this.filePath).catch(() => undefined)]);
+    return !onDisk || onDisk.ino !== opened.ino || onDisk.size !== this.size;
+  }
+
+  private requireHandle(): fs.FileHandle {
+    if (!this.handle) {
+      throw new Error('Index database is not open');
+    }
+    return this.handle;
+  }
+
+  /**
+   * Replay the log into memory and return the length of its committed prefix
+   */
+  private async load(): Promise<number> {
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return 0;
+    }
+
+    const input = createReadStream(this.filePath);
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let pending: Array<{ record: WriteRecord; offset: number; length: number }> = [];
+    let offset = 0;
+    let committedLength = 0;
+
+    try {
+      for await (const line of lines) {
+        const length = Buffer.byteLength(line) + 1;
+        let record: LogRecord;
+        try {
+          record = JSON.parse(line, this.reviver) as LogRecord;
+        } catch {
+          break; // Torn write, everything after it is uncommitted
+        }
+
+        if (record.op === 'commit') {
+          for (const write of pending) {
+            this.apply(write.record, write.offset, write.length);
+          }
+          pending = [];
+          committedLength = offset + length;
+        } else {
+          pending.push({ record, offset, length });
+        }
+        offset += length;
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+
+    return committedLength;
+  }
+
+  private async commit(records: WriteRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const handle = this.requireHandle();
+    const lines = records.map(record => `${JSON.stringify(record, this.replacer)}\n`);
+    const buffer = Buffer.from(lines.join('') + COMMIT_LINE);
+
+    try {
+      await handle.write(buffer);
+    } catch (error) {
+      // Drop the partial batch so a later commit marker cannot adopt it
+      await handle.truncate(this.size).catch(() => undefined);
+      throw error;
+    }
+
+    let offset = this.size;
+    records.forEach((record, index) => {
+      const length = Buffer.byteLength(lines[index]!);
+      this.apply(record, offset, length);
+      offset += length;
+    });
+    this.size += buffer.length;
+
+    await this.compactIfNeeded();
+  }
+
+  private apply(record: WriteRecord, offset: number, length: number): void {
+    const table = this.tables.get(record.table);
+    if (!table) {
+      return;
+    }
+
+    if (record.op === 'clear') {
+      for (const entry of table.entries.values()) {
+        this.liveBytes -= entry.length + (entry.touchLength ?? 0);
+      }
+      table.entries.clear();
+      table.indexes.forEach(index => index.clear());
+      return;
+    }
+
+    if (record.op === 'touch') {
+      const entry = table.entries.get(record.key);
+      if (entry) {
+        this.liveBytes += length - (entry.touchLength ?? 0);
+        entry.touchLength = length;
+        entry.usedAt = record.time;
+        entry.accessedAt = Math.max(entry.accessedAt, record.time);
+      }
+      return;
+    }
+
+    this.removeEntry(table, record.key);
+    if (record.op !== 'put') {
+      return;
+    }
+
+    const entry: Entry = { offset, length, updatedAt: record.time, usedAt: record.time, accessedAt: record.time };
+    if (table.options.cacheValues) {
+      entry.value = record.value;
+    }
+    if (table.options.indexes) {
+      entry.indexKeys = indexKeysOf(table, record.value);
+      for (const [name, keys] of Object.entries(entry.indexKeys)) {
+        const index = table.indexes.get(name)!;
+        for (const key of keys) {
+          let members = index.get(key);
+          if (!members) {
+            members = new Set();
+            index.set(key, members);
+          }
+          members.add(record.key);
+        }
+      }
+    }
+    table.entries.set(record.key, entry);
+    this.liveBytes += length;
+  }
+
+  private removeEntry(table: Table, key: string): void {
+    const entry = table.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    for (const [name, keys] of Object.entries(entry.indexKeys ?? {})) {
+      const index = table.indexes.get(name)!;
+      for (const indexKey of keys) {
+        const members = index.get(indexKey);
+        members?.delete(key);
+        if (members?.size === 0) {
+          index.delete(indexKey);
+        }
+      }
+    }
+    table.entries.delete(key);
+    this.liveBytes -= entry.length + (entry.touchLength ?? 0);
+  }
+
+  private lookupValue<T>(table: Table, key: string): Promise<T | undefined> {
+    const entry = table.entries.get(key);
+    if (entry) {
+      entry.accessedAt = Date.now();
+    }
+    return this.readValue<T>(table, key);
+  }
+
+  private async readValue<T>(table: Table, key: string): Promise<T | undefined> {
+    const entry = table.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (table.options.cacheValues) {
+      return entry.value as T;
+    }
+
+    const buffer = Buffer.alloc(entry.length);
+    await this.requireHandle().read(buffer, 0, entry.length, entry.offset);
+    const record = JSON.parse(buffer.toString('utf8'), this.reviver) as LogRecord;
+    return record.op === 'put' ? record.value as T : undefined;
+  }
+
+  private async readValues<T>(table: Table, keys: string[]): Promise<T[]> {
+    const values: T[] = [];
+    for (const key of keys) {
+      const value = await this.readValue<T>(table, key);
+      if (value !== undefined) {
+        values.push(value);
+      }
+    }
+    return values;
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    if (this.size < COMPACTION_MIN_BYTES || this.size - this.liveBytes <= this.size * COMPACTION_DEAD_RATIO) {
+      return;
+    }
+
+    try {
+      await this.rewrite();
+    } catch (error) {
+      console.warn(`⚠️ Failed to compact ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Copy the live records, and the latest touch of each, into a fresh log and swap it in place of
+   * the current one
+   */
+  private async rewrite(): Promise<void> {
+    const handle = this.requireHandle();
+    const tempPath = `${this.filePath}.compact`;
+    const moved: Array<[Entry, number]> = [];
+    let offset = 0;
+
+    const output = await fs.open(tempPath, 'w');
+    try {
+      for (const [tableName, table] of this.tables) {
+        for (const [key, entry] of table.entries) {
+          const buffer = Buffer.alloc(entry.length);
+          await handle.read(buffer, 0, entry.length, entry.offset);
+          await output.write(buffer);
+          moved.push([entry, offset]);
+          offset += entry.length;
+
+          if (entry.touchLength !== undefined) {
+            const touch: LogRecord = { op: 'touch', table: tableName, key, time: entry.usedAt };
+            const line = Buffer.from(`${JSON.stringify(touch)}\n`);
+            await output.write(line);
+            entry.touchLength = line.length;
+            offset += line.length;
+          }
+        }
+      }
+      await output.write(COMMIT_LINE);
+      offset += Buffer.byteLength(COMMIT_LINE);
+      await output.sync();
+    } catch (error) {
+      await output.close();
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+    await output.close();
+
+    // Windows cannot replace a file that is still open
+    await handle.close();
+    try {
+      await renameReplacing(tempPath, this.filePath);
+    } catch (error) {
+      this.handle = await fs.open(this.filePath, 'a+');
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+    this.handle = await fs.open(this.filePath, 'a+');
+
+    for (const [entry, newOffset] of moved) {
+      entry.offset = newOffset;
+    }
+    console.log(`🗜️ Compacted ${path.basename(this.filePath)} from ${this.size} to ${offset} bytes`);
+    this.size = offset;
+    this.liveBytes = offset - Buffer.byteLength(COMMIT_LINE);
+  }
+}
+
+/**
+ * Rename from over to, retrying while Windows reports the target as in use by another window
+ */
+async function renameReplacing(from: string, to: string): Promise<void> {
+  const deadline = Date.now() + RENAME_TIMEOUT;
+  for (;;) {
+    try {
+      await fs.rename(from, to);
+      return;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      const inUse = code === 'EPERM' || code === 'EACCES' || code === 'EBUSY';
+      if (process.platform !== 'win32' || !inUse || Date.now() > deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, RENAME_RETRY_DELAY));
+    }
+  }
+}
+
+function indexKeysOf(table: Table, value: unknown): Record<string, string[]> {
+  const keys: Record<string, string[]> = {};
+  for (const [name, indexOf] of Object.entries(table.options.indexes ?? {})) {
+    keys[name] = indexOf(value);
+  }
+  return keys;
+}
+
+/**
+ * Buffers writes and overlays them on the committed state until the batch is committed
+ */
+class Transaction implements IndexTransaction {
+  public readonly records: WriteRecord[] = [];
+  private readonly tables: Map<string, Table>;
+  private readonly read: (table: Table, key: string) => Promise<unknown>;
+  private readonly writes = new Map<string, Map<string, { value: unknown } | null>>(); // null marks a delete
+  private readonly cleared = new Set<string>();
+
+  constructor(tables: Map<string, Table>, read: (table: Table, key: string) => Promise<unknown>) {
+    this.tables = tables;
+    this.read = read;
+  }
+
+  public async get<T>(table: string, key: string): Promise<T | undefined> {
+    const definition = this.getTable(table);
+    const write = this.writes.get(table)?.get(key);
+    if (write !== undefined) {
+      return write?.value as T | undefined;
+    }
+    if (this.cleared.has(table)) {
+      return undefined;
+    }
+    return await this.read(definition, key) as T | undefined;
+  }
+
+  public keys(table: string, where?: { index: string; key: string }): string[] {
+    const definition = this.getTable(table);
+    const writes = this.writes.get(table) ?? new Map<string, { value: unknown } | null>();
+
+    let committed: Iterable<string> = [];
+    if (!this.cleared.has(table)) {
+      const index = where && definition.indexes.get(where.index);
+      if (where && !index) {
+        throw new Error(`Unknown index ${where.index} on table ${table}`);
+      }
+      committed = index ? index.get(where.key) ?? [] : definition.entries.keys();
+    }
+
+    const keys = new Set([...committed].filter(key => !writes.has(key)));
+    for (const [key, write] of writes) {
+      if (write && (!where || indexKeysOf(definition, write.value)[where.index]?.includes(where.key))) {
+        keys.add(key);
+      }
+    }
+    return [...keys];
+  }
+
+  public put(table: string, key: string, value: unknown): void {
+    this.getTable(table);
+    this.records.push({ op: 'put', table, key, time: Date.now(), value });
+    this.getWrites(table).set(key, { value });
+  }
+
+  public delete(table: string, key: string): void {
+    const definition = this.getTable(table);
+    const writes = this.getWrites(table);
+    if (!writes.get(key) && (this.cleared.has(table) || !definition.entries.has(key))) {
+      return;
+    }
+    this.records.push({ op: 'del', table, key });
+    writes.set(key, null);
+  }
+
+  public clear(table: string): void {
+    this.getTable(table);
+    this.records.push({ op: 'clear', table });
+    this.writes.set(table, new Map());
+    this.cleared.add(table);
+  }
+
+  public touch(table: string, key: string): void {
+    const definition = this.getTable(table);
+    if (this.getWrites(table).has(key) || this.cleared.has(table) || !definition.entries.has(key)) {
+      return; // Written in this batch, or nothing to mark
+    }
+    this.records.push({ op: 'touch', table, key, time: Date.now() });
+  }
+
+  private getTable(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`Unknown index table: ${name}`);
+    }
+    return table;
+  }
+
+  private getWrites(table: string): Map<string, { value: unknown } | null> {
+    let writes = this.writes.get(table);
+    if (!writes) {
+      writes = new Map();
+      this.writes.set(table, writes);
+    }
+    return writes;
+  }
+}
@@ -0,0 +1,202 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { OllamaNativeProvider } from '@/services/OllamaNativeProvider';
+import { OllamaService } from '@/services/OllamaService';
+import { AIProviderConfig } from '@/types';
+import { countMessageTokens } from '@/utils/tokenBudget';
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+interface SentRequest {
+  endpoint: string;
+  body: Record<string, unknown>;
+}
+
+let sent: SentRequest[] = [];
+
+/**
+ * Answer /api/show with show, and /api/chat with a short reply; records every request body
+ */
+function mockServer(show: object | Error): void {
+  sent = [];
+  global.fetch = jest.fn((url: string, init: { body: string }) => {
+    const endpoint = new URL(url).pathname;
+    sent.push({ endpoint, body: JSON.parse(init.body) as Record<string, unknown> });
+
+    if (endpoint === '/api/show' && show instanceof Error) {
+      return Promise.reject(show);
+    }
+    const body = endpoint === '/api/show'
+      ? show
+      : { message: { content: 'ok' }, done: true, prompt_eval_count: 10, eval_count: 1 };
+    return Promise.resolve(new Response(JSON.stringify(body)));
+  }) as unknown as typeof fetch;
+}
+
+function createProvider(config: Partial<AIProviderConfig> = {}): OllamaNativeProvider {
+  return new OllamaNativeProvider({ baseURL: 'http://ollama:11434/v1', model: 'mistral:7b', maxRetries: 0, ...config });
+}
+
+function chatRequests(): SentRequest[] {
+  return sent.filter(request => request.endpoint === '/api/chat');
+}
+
+describe('OllamaNativeProvider', () => {
+  it('sends the window it budgets for as num_ctx', async () => {
+    mockServer({ model_info: { 'general.architecture': 'llama', 'llama.context_length': 8192 } });
+    const provider = createProvider();
+
+    expect(await provider.getContextLength()).toBe(8192);
+    await provider.chatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(chatRequests()[0]?.body.options).toEqual(expect.objectContaining({ num_ctx: 8192 }));
+    // Looked up once per model
+    expect(sent.filter(request => request.endpoint === '/api/show')).toEqual([
+      { endpoint: '/api/show', body: { model: 'mistral:7b' } }
+    ]);
+  });
+
+  it('prefers the Modelfile num_ctx and caps trained windows', async () => {
+    mockServer({
+      parameters: 'stop "[INST]"\nnum_ctx                        24576',
+      model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 }
+    });
+    expect(await createProvider().getContextLength()).toBe(24576);
+
+    mockServer({ model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 } });
+    expect(await createProvider().getContextLength()).toBe(DEFAULT_CONFIG.CHAT.MAX_AUTO_CONTEXT_LENGTH);
+  });
+
+  it('falls back to the table of known models when /api/show fails, and asks again next time', async () => {
+    mockServer(new Error('connect ECONNREFUSED'));
+    const provider = createProvider({ model: 'llama3' });
+
+    expect(await provider.getContextLength()).toBe(8192);
+    expect(await provider.getContextLength()).toBe(8192);
+    expect(sent.filter(request => request.endpoint === '/api/show')).toHaveLength(2);
+  });
+
+  it('uses and sends the contextLength setting without asking the server', async () => {
+    mockServer({ model_info: { 'general.architecture': 'llama', 'llama.context_length': 8192 } });
+    const provider = createProvider({ contextLength: 2048 });
+
+    expect(await provider.getContextLength()).toBe(2048);
+    await provider.chatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(chatRequests()[0]?.body.options).toEqual(expect.objectContaining({ num_ctx: 2048 }));
+    expect(sent.map(request => request.endpoint)).toEqual(['/api/chat']);
+  });
+  it('aborts a stream that stalls between chunks', async () => {
+    let aborted = false;
+    global.fetch = jest.fn((url: string, init: { signal?: AbortSignal }) => {
+      if (new URL(url).pathname === '/api/show') {
+        return Promise.resolve(new Response(JSON.stringify({ parameters: 'num_ctx 4096' })));
+      }
+      // One chunk, then nothing until the request is aborted
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(`${JSON.stringify({ message: { content: 'Hel' } })}\n`));
+          init.signal?.addEventListener('abort', () => {
+            aborted = true;
+            controller.error(new Error('The operation was aborted'));
+          });
+        }
+      });
+      return Promise.resolve(new Response(body));
+    }) as unknown as typeof fetch;
+
+    const deltas: string[] = [];
+    const reply = createProvider({ timeout: 200 }).chatCompletionStream(
+      { messages: [{ role: 'user', content: 'Hi' }] },
+      delta => deltas.push(delta)
+    );
+
+    await expect(reply).rejects.toThrow('timed out after 200ms without a response');
+    expect(deltas).toEqual(['Hel']);
+    expect(aborted).toBe(true);
+  });
+
+  it('aborts a request that timed out before retrying with the fallback model', async () => {
+    const events: string[] = [];
+    global.fetch = jest.fn((url: string, init: { body: string; signal?: AbortSignal }) => {
+      if (new URL(url).pathname === '/api/show') {
+        return Promise.resolve(new Response(JSON.stringify({ parameters: 'num_ctx 4096' })));
+      }
+      const { model } = JSON.parse(init.body) as { model: string };
+      events.push(`request ${model}`);
+      if (model === 'fast') {
+        return Promise.resolve(new Response(JSON.stringify({ message: { content: 'ok' }, done: true })));
+      }
+      // The primary model never answers until it is aborted
+      return new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          events.push(`abort ${model}`);
+          reject(new Error('The operation was aborted'));
+        });
+      });
+    }) as unknown as typeof fetch;
+
+    const provider = createProvider({ model: 'slow', fallbackModel: 'fast', timeout: 200 });
+    const reply = await provider.chatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(reply.model).toBe('fast');
+    expect(events).toEqual(['request slow', 'abort slow', 'request fast']);
+  });
+});
+
+describe('retrying requests', () => {
+  it('sends a request again after a retryable failure and aborts the failed attempt', async () => {
+    const signals: AbortSignal[] = [];
+    global.fetch = jest.fn((url: string, init: { signal?: AbortSignal }) => {
+      if (new URL(url).pathname === '/api/show') {
+        return Promise.resolve(new Response(JSON.stringify({ parameters: 'num_ctx 4096' })));
+      }
+      signals.push(init.signal!);
+      const body = signals.length === 1 ? 'overloaded' : JSON.stringify({ message: { content: 'ok' }, done: true });
+      return Promise.resolve(new Response(body, { status: signals.length === 1 ? 503 : 200 }));
+    }) as unknown as typeof fetch;
+
+    const reply = await createProvider({ maxRetries: 1 }).chatCompletion({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(reply.message.content).toBe('ok');
+    expect(signals).toHaveLength(2);
+    expect(signals.map(signal => signal.aborted)).toEqual([true, false]);
+  });
+});
+
+describe('fitting requests into the context window', () => {
+  const longMessage = 'lorem ipsum dolor sit amet '.repeat(300); // About 1500 tokens
+
+  it('drops the oldest messages after the system prompt rather than exceed the window', async () => {
+    mockServer({});
+    const provider = createProvider({ contextLength: 1536 });
+    await provider.chatCompletion({
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: longMessage },
+        { role: 'assistant', content: 'Noted.' },
+        { role: 'user', content: 'Hi' }
+      ],
+      max_tokens: 1000
+    });
+
+    const body = chatRequests()[0]!.body as { messages: Array<{ content: string }>; options: { num_predict: number } };
+    expect(body.messages.map(message => message.content)).toEqual(['You are helpful.', 'Noted.', 'Hi']);
+    expect(body.options.num_predict).toBeGreaterThanOrEqual(DEFAULT_CONFIG.CHAT.MIN_RESPONSE_TOKENS);
+    expect(body.options.num_predict + countMessageTokens(body.messages)).toBeLessThanOrEqual(1536);
+  });
+
+  it('fails instead of sending a prompt that leaves no room for an answer', async () => {
+    mockServer({});
+    const reply = createProvider({ contextLength: 1024 }).chatCompletion({ messages: [{ role: 'user', content: longMessage }] });
+
+    await expect(reply).rejects.toThrow('leaving no room for an answer');
+    expect(chatRequests()).toEqual([]);
+  });
+});
+
+describe('OllamaService', () => {
+  it('budgets against the server default window, which /v1 cannot change', async () => {
+    expect(await new OllamaService({ model: 'mistral:7b' }).getContextLength()).toBe(DEFAULT_CONFIG.CHAT.DEFAULT_CONTEXT_LENGTH);
+    expect(await new OllamaService({ model: 'mistral:7b', contextLength: 32768 }).getContextLength()).toBe(32768);
+  });
+});
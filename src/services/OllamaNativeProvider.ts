@@ -0,0 +1,186 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { AIProviderConfig, AIProviderId, ProviderChatRequest, ProviderChatResult } from '@/types';
+import { OllamaService } from '@/services/OllamaService';
+import { getModelContextLength } from '@/utils/tokenBudget';
+
+// One response of /api/chat; streamed responses send one per line with done set on the last
+interface NativeChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+// The parts of /api/show used to pick a context window
+interface NativeShowResponse {
+  parameters?: string; // Modelfile PARAMETER lines, e.g. "num_ctx 8192"
+  model_info?: Record<string, unknown>; // Holds <architecture>.context_length, the trained window
+}
+
+/**
+ * Ollama through its own /api/chat and /api/embed endpoints instead of the /v1 compatibility
+ * layer. The native API takes the context window per request, so every chat request sends the
+ * window its prompt was budgeted for as num_ctx.
+ */
+export class OllamaNativeProvider extends OllamaService {
+  private readonly contextLengths = new Map<string, Promise<number>>();
+
+  public override get id(): AIProviderId {
+    return 'ollamaNative';
+  }
+
+  public override updateConfig(config: AIProviderConfig): void {
+    super.updateConfig(config);
+    this.contextLengths.clear();
+  }
+
+  protected override async complete(request: ProviderChatRequest, signal?: AbortSignal): Promise<ProviderChatResult> {
+    const response = await this.post('/api/chat', await this.toChatBody(request, false), signal);
+    const body = await response.json() as NativeChatResponse;
+    if (body.error) {
+      throw new Error(body.error);
+    }
+    return this.toResult(body.message?.content ?? '', body);
+  }
+
+  protected override async completeStream(
+    request: ProviderChatRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ProviderChatResult> {
+    const response = await this.post('/api/chat', await this.toChatBody(request, true), signal);
+    if (!response.body) {
+      throw new Error('Empty response from /api/chat');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let last: NativeChatResponse = {};
+
+    // Newline-delimited JSON; a read can end in the middle of a line
+    const handleLine = (line: string): void => {
+      if (!line.trim()) {
+        return;
+      }
+      const chunk = JSON.parse(line) as NativeChatResponse;
+      if (chunk.error) {
+        throw new Error(chunk.error);
+      }
+      const delta = chunk.message?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      last = chunk;
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    return this.toResult(content, last);
+  }
+
+  protected override async createEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.post('/api/embed', { model: this.getEmbeddingModel(), input: texts }, signal);
+    const body = await response.json() as { embeddings?: number[][]; error?: string };
+    if (body.error) {
+      throw new Error(body.error);
+    }
+    return body.embeddings ?? [];
+  }
+
+  /**
+   * The contextLength setting, else the window the model's Modelfile sets, else its trained window
+   * up to CHAT.MAX_AUTO_CONTEXT_LENGTH. Looked up once per model through /api/show.
+   */
+  protected override getContextLengthOf(model: string): Promise<number> {
+    if (this.config.contextLength) {
+      return Promise.resolve(this.config.contextLength);
+    }
+
+    let contextLength = this.contextLengths.get(model);
+    if (!contextLength) {
+      contextLength = this.fetchContextLength(model);
+      this.contextLengths.set(model, contextLength);
+    }
+    return contextLength;
+  }
+
+  private async fetchContextLength(model: string): Promise<number> {
+    const { MAX_AUTO_CONTEXT_LENGTH } = DEFAULT_CONFIG.CHAT;
+    try {
+      const response = await this.post('/api/show', { model });
+      const body = await response.json() as NativeShowResponse;
+
+      const configured = /^num_ctx\s+(\d+)/m.exec(body.parameters ?? '')?.[1];
+      if (configured) {
+        return Number(configured);
+      }
+      const architecture = body.model_info?.['general.architecture'];
+      const trained = body.model_info?.[`${String(architecture)}.context_length`];
+      return Math.min(typeof trained === 'number' ? trained : getModelContextLength(model), MAX_AUTO_CONTEXT_LENGTH);
+    } catch (error) {
+      // Not cached, so the next request asks the server again
+      this.contextLengths.delete(model);
+      console.warn(`⚠️ Could not read the context window of ${model} from /api/show:`, error);
+      return Math.min(getModelContextLength(model), MAX_AUTO_CONTEXT_LENGTH);
+    }
+  }
+
+  private async post(endpoint: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.getServerURL()}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.getAuthHeaders() },
+      body: JSON.stringify(body),
+      ...(signal && { signal })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  }
+
+  private async toChatBody(request: ProviderChatRequest, stream: boolean): Promise<object> {
+    // Without num_ctx the server would use its default window, whatever the prompt was budgeted for
+    const contextLength = await this.getContextLengthOf(request.model);
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      ...(request.json && { format: 'json' }),
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+        num_ctx: contextLength
+      }
+    };
+  }
+
+  private toResult(content: string, final: NativeChatResponse): ProviderChatResult {
+    if (final.prompt_eval_count === undefined || final.eval_count === undefined) {
+      return { content };
+    }
+    return {
+      content,
+      usage: {
+        prompt_tokens: final.prompt_eval_count,
+        completion_tokens: final.eval_count,
+        total_tokens: final.prompt_eval_count + final.eval_count
+      }
+    };
+  }
+}
@@ -1,42 +1,123 @@
-import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { DEFAULT_CONFIG, normalizeModelName } from '@/constants/defaults';
 import {
+  AIProvider,
+  AIProviderCapabilities,
+  AIProviderConfig,
+  AIProviderId,
   AIResponse,
   ChatAnalysisResult,
   ChatCompletionMessage,
   ChatCompletionRequest,
   ChatCompletionResponse,
   ChatContext,
+  ChatStreamOptions,
   FileContext,
-  OllamaConfig,
+  ModelInfo,
+  ModelTask,
+  ProviderChatRequest,
+  ProviderChatResult,
+  StructuredAnalysisPayload,
+  StructuredSuggestionPayload,
   Suggestion,
   SuggestionCategory,
   SuggestionType
 } from '@/types';
-import OpenAI from 'openai';
+import { buildRepairPrompt, numberLines, parseStructuredAnalysis, STRUCTURED_OUTPUT_SCHEMA } from '@/utils/structuredOutput';
+import { countMessageTokens, countTokens, fitMessages } from '@/utils/tokenBudget';
+import OpenAI, { ClientOptions } from 'openai';
 import * as vscode from 'vscode';
 
-export class OllamaService {
+// One entry of Ollama's /api/tags
+interface OllamaTag {
+  name: string;
+  size?: number;
+  details?: { family?: string; parameter_size?: string; quantization_level?: string };
+}
+
+// Messages as sent to the server: the SDK's plain-text system, user and assistant turns
+type ApiChatMessage = (
+  | OpenAI.Chat.ChatCompletionSystemMessageParam
+  | OpenAI.Chat.ChatCompletionUserMessageParam
+  | OpenAI.Chat.ChatCompletionAssistantMessageParam
+) & Pick<ChatCompletionMessage, 'role' | 'content'>;
+
+// The parts of an SDK chat completion a ChatCompletionResponse is built from
+interface ApiChatCompletion {
+  choices: Array<{ message: Pick<OpenAI.Chat.ChatCompletionMessage, 'role' | 'content'> }>;
+  usage?: OpenAI.CompletionUsage;
+}
+
+// Failures another model may not have: the model is missing on the server, or too slow
+function isModelFailure(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return message.includes('timed out') || /\b404\b|not found|does not exist/.test(message);
+}
+
+/**
+ * Ollama through its OpenAI-compatible /v1 API. Prompting, retries and the circuit breaker live
+ * here; the other providers extend it and only replace the transport methods (complete,
+ * completeStream, createEmbeddings) or the capabilities.
+ */
+export class OllamaService implements AIProvider {
   private client: OpenAI;
-  private config: OllamaConfig;
+  protected config: AIProviderConfig;
   private isApiAvailable: boolean = true;
   private lastFailureTime: number = 0;
   private retryAfterMs: number = DEFAULT_CONFIG.RETRY.CIRCUIT_BREAKER_TIMEOUT;
+  private models: { list: ModelInfo[]; fetchedAt: number } | undefined;
   
   // Enhanced timeout and retry configuration
-  private readonly defaultTimeout: number;
-  private readonly maxRetries: number;
+  private defaultTimeout: number;
+  private maxRetries: number;
   private readonly baseRetryDelay: number = DEFAULT_CONFIG.RETRY.BASE_DELAY;
 
-  constructor(config: OllamaConfig) {
+  constructor(config: AIProviderConfig) {
     this.config = config;
+    this.client = this.createClient(config);
     
-    // Initialize OpenAI client pointing to GPU Ollama instance
+    // Use configured timeout or sensible defaults
+    this.defaultTimeout = config.timeout || DEFAULT_CONFIG.OLLAMA.TIMEOUT;
+    this.maxRetries = config.maxRetries ?? DEFAULT_CONFIG.OLLAMA.MAX_RETRIES;
+    
+    console.log(`🚀 ${this.label} provider initialized with ${this.defaultTimeout}ms timeout and ${this.maxRetries} max retries`);
+  }
+
+  public get id(): AIProviderId {
+    return 'ollama';
+  }
+
+  public get label(): string {
+    return DEFAULT_CONFIG.PROVIDERS[this.id].LABEL;
+  }
+
+  public get capabilities(): AIProviderCapabilities {
+    return { streaming: true, jsonMode: true, embeddings: true };
+  }
+
+  /**
+   * Apply new connection settings without reloading the window.
+   * The client is rebuilt and the circuit breaker is reset so the new endpoint gets a fresh chance.
+   */
+  public updateConfig(config: AIProviderConfig): void {
+    this.config = config;
+    this.client = this.createClient(config);
+    this.defaultTimeout = config.timeout || DEFAULT_CONFIG.OLLAMA.TIMEOUT;
+    this.maxRetries = config.maxRetries ?? DEFAULT_CONFIG.OLLAMA.MAX_RETRIES;
+    this.isApiAvailable = true;
+    this.lastFailureTime = 0;
+    this.models = undefined;
+
+    console.log(`🔄 ${this.label} configuration updated: ${this.getBaseURL()} with model: ${this.getModel()}`);
+  }
+
+  private createClient(config: AIProviderConfig): OpenAI {
+    // Initialize OpenAI client pointing to the configured server
     const baseURL = config.baseURL || DEFAULT_CONFIG.OLLAMA.BASE_URL;
     
     // For Ollama with Basic Auth, we need to create proper Basic Auth header
-    let authOptions: any = {
+    const authOptions: ClientOptions = {
       baseURL,
-      apiKey: DEFAULT_CONFIG.OLLAMA.API_KEY,
+      apiKey: config.bearerToken || DEFAULT_CONFIG.OLLAMA.API_KEY,
       timeout: config.timeout || DEFAULT_CONFIG.OLLAMA.TIMEOUT,
     };
     
@@ -46,55 +127,231 @@ export class OllamaService {
       authOptions.defaultHeaders = {
         'Authorization': `Basic ${credentials}`
       };
-      console.log(`🔧 Initializing Ollama client with Basic Auth for user: ${config.username}`);
-    } else if (DEFAULT_CONFIG.OLLAMA.USERNAME && DEFAULT_CONFIG.OLLAMA.PASSWORD) {
-      const credentials = Buffer.from(`${DEFAULT_CONFIG.OLLAMA.USERNAME}:${DEFAULT_CONFIG.OLLAMA.PASSWORD}`).toString('base64');
-      authOptions.defaultHeaders = {
-        'Authorization': `Basic ${credentials}`
-      };
-      console.log(`🔧 Initializing Ollama client with Basic Auth `);
+      console.log(`🔧 Initializing ${this.label} client with Basic Auth for user: ${config.username}`);
+    } else if (config.bearerToken) {
+      // The OpenAI client sends apiKey as "Authorization: Bearer <token>"
+      console.log(`🔧 Initializing ${this.label} client with bearer token`);
     }
     
-    console.log(`🔧 Connecting to Ollama server: ${baseURL}`);
-    
-    this.client = new OpenAI(authOptions);
-    
-    this.isApiAvailable = true;
-    
-    // Use configured timeout or sensible defaults
-    this.defaultTimeout = config.timeout || DEFAULT_CONFIG.OLLAMA.TIMEOUT;
-    this.maxRetries = config.maxRetries || DEFAULT_CONFIG.OLLAMA.MAX_RETRIES;
+    console.log(`🔧 Connecting to ${this.label}: ${baseURL}`);
     
-    console.log(`🚀 Ollama Service initialized with ${this.defaultTimeout}ms timeout and ${this.maxRetries} max retries`);
+    return new OpenAI(authOptions);
+  }
+
+  protected getBaseURL(): string {
+    return this.config.baseURL || DEFAULT_CONFIG.OLLAMA.BASE_URL;
+  }
+
+  /**
+   * The configured base URL without the /v1 suffix of the compatibility layer, where Ollama's own
+   * /api endpoints live
+   */
+  protected getServerURL(): string {
+    return this.getBaseURL().replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    if (this.config.username && this.config.password) {
+      return { Authorization: `Basic ${Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64')}` };
+    }
+    if (this.config.bearerToken) {
+      return { Authorization: `Bearer ${this.config.bearerToken}` };
+    }
+    return {};
+  }
+
+  /**
+   * Send one chat request and wait for the whole answer
+   */
+  protected async complete(request: ProviderChatRequest, signal?: AbortSignal): Promise<ProviderChatResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } })
+    }, signal ? { signal } : undefined);
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      ...(completion.usage && { usage: completion.usage })
+    };
+  }
+
+  /**
+   * Send one chat request, passing each token delta to onDelta as it arrives
+   */
+  protected async completeStream(
+    request: ProviderChatRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ProviderChatResult> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        // Servers without usage reporting ignore this and the caller estimates the usage
+        stream_options: { include_usage: true }
+      },
+      signal ? { signal } : undefined
+    );
+
+    let content = '';
+    let usage: ProviderChatResult['usage'];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+    return { content, ...(usage && { usage }) };
   }
 
-  // Enhanced timeout wrapper with retry logic
+  /**
+   * Ollama's /api/tags has sizes and families; fall back to the bare names of /v1/models for
+   * servers that only have the compatibility layer
+   */
+  protected async fetchModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    try {
+      return await this.fetchOllamaTags(signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn('⚠️ /api/tags unavailable, listing models through /v1/models:', error);
+      return this.fetchOpenAIModels(signal);
+    }
+  }
+
+  protected async fetchOpenAIModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    for await (const model of this.client.models.list(signal ? { signal } : undefined)) {
+      models.push({ id: model.id });
+    }
+    return models;
+  }
+
+  /**
+   * Models of Ollama's /api/tags with their sizes and details. Relies on the global fetch of the
+   * Node 18 extension host, which engines.vscode ^1.82.0 guarantees.
+   */
+  private async fetchOllamaTags(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.getServerURL()}/api/tags`, { headers: this.getAuthHeaders(), ...(signal && { signal }) });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as { models?: OllamaTag[] };
+    return (body.models ?? []).map(tag => ({
+      id: tag.name,
+      ...(typeof tag.size === 'number' && { sizeBytes: tag.size }),
+      ...(tag.details?.family && { family: tag.details.family }),
+      ...(tag.details?.parameter_size && { parameterSize: tag.details.parameter_size }),
+      ...(tag.details?.quantization_level && { quantization: tag.details.quantization_level })
+    }));
+  }
+
+  protected async createEmbeddings(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.getEmbeddingModel(),
+      input: texts
+    }, signal ? { signal } : undefined);
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  /**
+   * Send request with a timeout, and send it again with exponential backoff while the failure is
+   * retryable. Each attempt gets its own signal, which signal also cancels; an attempt that failed
+   * or timed out is aborted so it does not keep running on the server.
+   */
   private async withTimeout<T>(
-    promise: Promise<T>, 
-    timeoutMs: number = this.defaultTimeout, 
+    request: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number = this.defaultTimeout,
     operation: string = 'API request',
-    retryCount: number = 0
+    signal?: AbortSignal
   ): Promise<T> {
-    const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(`${operation} timed out after ${timeoutMs}ms`)), timeoutMs)
-    );
-    
-    try {
-      const result = await Promise.race([promise, timeoutPromise]);
-      return result;
-    } catch (error: any) {
-      // Implement exponential backoff for retries
-      if (retryCount < this.maxRetries && this.shouldRetry(error)) {
+    for (let retryCount = 0; ; retryCount++) {
+      const controller = new AbortController();
+      const cancel = (): void => controller.abort();
+      if (signal?.aborted) {
+        controller.abort();
+      }
+      signal?.addEventListener('abort', cancel, { once: true });
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${operation} timed out after ${timeoutMs}ms`)), timeoutMs);
+      });
+
+      try {
+        return await Promise.race([request(controller.signal), timeoutPromise]);
+      } catch (error: unknown) {
+        controller.abort();
+        if (signal?.aborted || retryCount >= this.maxRetries || !this.shouldRetry(error)) {
+          throw error;
+        }
+
+        // Implement exponential backoff for retries
         const delay = this.baseRetryDelay * Math.pow(2, retryCount);
         console.log(`⏳ Retrying ${operation} in ${delay}ms (attempt ${retryCount + 1}/${this.maxRetries})`);
         await this.delay(delay);
-        
-        // Recursive retry with increased timeout
-        const newTimeout = Math.min(timeoutMs * 1.5, 60000); // Cap at 60 seconds
-        return this.withTimeout(promise, newTimeout, operation, retryCount + 1);
+        timeoutMs = Math.min(timeoutMs * 1.5, 60000); // Cap at 60 seconds
+      } finally {
+        // A pending timer would keep the process alive after the request settled
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
+      }
+    }
+  }
+
+  /**
+   * Abort work once idleMs pass without it reporting activity, for streams that can stall
+   * between chunks. signal still cancels it as before.
+   */
+  private async withIdleTimeout<T>(
+    work: (signal: AbortSignal, onActivity: () => void) => Promise<T>,
+    signal: AbortSignal | undefined,
+    idleMs: number,
+    operation: string
+  ): Promise<T> {
+    const controller = new AbortController();
+    const cancel = (): void => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    const onActivity = (): void => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, idleMs);
+    };
+
+    onActivity();
+    try {
+      return await work(controller.signal, onActivity);
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`${operation} timed out after ${idleMs}ms without a response`);
       }
-      
       throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
@@ -104,8 +361,8 @@ export class OllamaService {
   }
 
   // Determine if an error is retryable
-  private shouldRetry(error: any): boolean {
-    const errorMessage = error.message?.toLowerCase() || '';
+  private shouldRetry(error: unknown): boolean {
+    const errorMessage = (error instanceof Error ? error.message : String(error)).toLowerCase();
     // Don't retry timeouts as they're likely due to file size/complexity
     return !errorMessage.includes('timed out') && (
            errorMessage.includes('network') ||
@@ -143,7 +400,7 @@ export class OllamaService {
       suggestions.push("Consider breaking down large files into smaller modules");
     }
     
-    suggestions.push("Try switching to a lighter Ollama model in defaults.ts for faster analysis");
+    suggestions.push("Try switching to a lighter Ollama model via the balaAnalyzer.ollama.model setting for faster analysis");
     
     return "Suggestions: " + suggestions.join(". ");
   }
@@ -175,37 +432,80 @@ export class OllamaService {
     };
   }
 
-  public async analyzeCode(fileContext: FileContext): Promise<AIResponse> {
+  /**
+   * Models the server offers, cached for DEFAULT_CONFIG.MODELS.LIST_CACHE_TTL unless refresh is set
+   */
+  public async listModels(refresh: boolean = false): Promise<ModelInfo[]> {
+    if (!refresh && this.models && Date.now() - this.models.fetchedAt < DEFAULT_CONFIG.MODELS.LIST_CACHE_TTL) {
+      return this.models.list;
+    }
+
+    const list = await this.withTimeout(signal => this.fetchModels(signal), Math.min(this.defaultTimeout, 15000), 'Listing models');
+    list.sort((a, b) => a.id.localeCompare(b.id));
+    this.models = { list, fetchedAt: Date.now() };
+    return list;
+  }
+
+  /**
+   * Whether the server offers model. Throws when the model list cannot be fetched.
+   */
+  public async isModelAvailable(model: string): Promise<boolean> {
+    const name = normalizeModelName(model);
+    return (await this.listModels()).some(info => normalizeModelName(info.id) === name);
+  }
+
+  public async analyzeCode(fileContext: FileContext, signal?: AbortSignal): Promise<AIResponse> {
     if (!this.shouldAttemptApiCall()) {
-      throw new Error('Ollama API unavailable. Please check your Ollama instance is running.');
+      throw new Error(`${this.label} API unavailable. Please check the server is running.`);
     }
 
     const prompt = this.buildAnalysisPrompt(fileContext);
-    console.log(`🔍 Analyzing ${fileContext.language} code with Ollama...`);
+    console.log(`🔍 Analyzing ${fileContext.language} code with ${this.label}...`);
     
     // Calculate dynamic timeout based on file size and complexity
     const dynamicTimeout = this.calculateAnalysisTimeout(fileContext);
     console.log(`📊 Using dynamic timeout: ${dynamicTimeout}ms for ${fileContext.size} byte file`);
     
     try {
-      const completion = await this.withTimeout(
-        this.client.chat.completions.create({
-          model: this.getSelectedModel(),
-          messages: [
-            { role: 'system', content: 'You are an expert code analyst. Provide structured analysis with insights, improvements, and suggestions.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.3,
-          max_tokens: 1200, // Increased token limit
-        }),
-        dynamicTimeout,
-        'Code analysis'
+      const { result: { analysis, tokens }, model } = await this.withModelFallback(
+        this.getModelFor('analyze'),
+        'Code analysis',
+        (candidate, attemptSignal) => this.requestStructuredAnalysis(
+          candidate,
+          'You are an expert code analyst. Provide structured analysis with insights, improvements, and suggestions. Respond only with JSON.',
+          prompt,
+          fileContext,
+          {
+            temperature: DEFAULT_CONFIG.TEMPERATURE.ANALYZE,
+            maxTokens: DEFAULT_CONFIG.MAX_TOKENS.ANALYZE,
+            timeout: dynamicTimeout,
+            operation: 'Code analysis',
+            signal: attemptSignal
+          }
+        ),
+        () => !signal?.aborted,
+        signal
       );
 
-      const responseText = completion.choices[0]?.message?.content || '';
-      return this.parseAIResponse(responseText, fileContext);
+      const suggestions = analysis.suggestions.map(payload => this.toSuggestion(payload, fileContext));
+      return {
+        summary: analysis.summary,
+        suggestions,
+        confidence: suggestions.length > 0
+          ? suggestions.reduce((sum, s) => sum + s.confidence, 0) / suggestions.length
+          : 0.8,
+        modelUsed: model,
+        usage: {
+          tokens
+        }
+      };
     } catch (error: any) {
-      console.error('Ollama code analysis error:', error);
+      // Cancellation is not a failure; let the caller see the abort as-is
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      console.error(`${this.label} code analysis error:`, error);
       
       // Enhanced error handling with user guidance
       if (error.message?.includes('timed out')) {
@@ -216,12 +516,12 @@ export class OllamaService {
       // Handle connection errors
       if (error.message?.includes('ECONNREFUSED') || error.message?.includes('fetch failed')) {
         this.markApiUnavailable();
-        throw new Error(`Cannot connect to Ollama server at ${this.config.baseURL || 'https://gpu1.oginnovation.com:11433'}. Please check the server is running and accessible.`);
+        throw new Error(`Cannot connect to the ${this.label} at ${this.getBaseURL()}. Please check the server is running and accessible.`);
       }
       
       // Handle authentication errors
       if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        throw new Error('Ollama server requires authentication. Please configure your API key in settings.');
+        throw new Error(`The ${this.label} requires authentication. Run "BuildAI: Set Provider Credentials" to configure them.`);
       }
 
       throw new Error(`AI analysis failed: ${error.message || error}`);
@@ -232,53 +532,85 @@ export class OllamaService {
     const prompt = this.buildSummaryPrompt(filePaths);
     
     try {
-      const completion = await this.withTimeout(
-        this.client.chat.completions.create({
-          model: this.getSelectedModel(),
-          messages: [
-            { role: 'system', content: 'You are an expert technical writer. Generate comprehensive, well-structured summaries of codebases.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.2,
-          max_tokens: 500,
-        }),
-        Math.min(this.defaultTimeout * 0.6, 20000), // Use 60% of configured timeout, cap at 20s
-        'Summary generation'
+      const { result: completion } = await this.withModelFallback(
+        this.getModelFor('summary'),
+        'Summary generation',
+        (candidate, attemptSignal) => this.withTimeout(
+          requestSignal => this.complete({
+            model: candidate,
+            messages: [
+              { role: 'system', content: 'You are an expert technical writer. Generate comprehensive, well-structured summaries of codebases.' },
+              { role: 'user', content: prompt }
+            ],
+            temperature: 0.2,
+            maxTokens: 500
+          }, requestSignal),
+          Math.min(this.defaultTimeout * 0.6, 20000), // Use 60% of configured timeout, cap at 20s
+          'Summary generation',
+          attemptSignal
+        )
       );
 
-      return completion.choices[0]?.message?.content || 'Unable to generate summary.';
+      return completion.content || 'Unable to generate summary.';
     } catch (error) {
-      console.error('Ollama API error:', error);
+      console.error(`${this.label} API error:`, error);
       return `Failed to generate summary: ${error}`;
     }
   }
 
-  public async getSuggestions(fileContext: FileContext, analysisContext?: string): Promise<Suggestion[]> {
+  public async getSuggestions(fileContext: FileContext, analysisContext?: string, signal?: AbortSignal): Promise<Suggestion[]> {
     const prompt = this.buildSuggestionPrompt(fileContext, analysisContext);
     
     try {
-      const completion = await this.withTimeout(
-        this.client.chat.completions.create({
-          model: this.getSelectedModel(),
-          messages: [
-            { role: 'system', content: 'You are a senior code reviewer. Provide specific, actionable code improvement suggestions with examples.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.4,
-          max_tokens: 800,
-        }),
-        Math.min(this.defaultTimeout * 0.7, 22000), // Use 70% of configured timeout, cap at 22s
-        'Suggestion generation'
+      const { result: { analysis } } = await this.withModelFallback(
+        this.getModelFor('suggest'),
+        'Suggestion generation',
+        (candidate, attemptSignal) => this.requestStructuredAnalysis(
+          candidate,
+          'You are a senior code reviewer. Provide specific, actionable code improvement suggestions with exact replacement code. Respond only with JSON.',
+          prompt,
+          fileContext,
+          {
+            temperature: DEFAULT_CONFIG.TEMPERATURE.SUGGEST,
+            maxTokens: DEFAULT_CONFIG.MAX_TOKENS.SUGGEST,
+            timeout: Math.min(this.defaultTimeout * 0.7, 22000), // Use 70% of configured timeout, cap at 22s
+            operation: 'Suggestion generation',
+            signal: attemptSignal
+          }
+        ),
+        () => !signal?.aborted,
+        signal
       );
 
-      const responseText = completion.choices[0]?.message?.content || '';
-      return this.parseSuggestions(responseText, fileContext);
+      return analysis.suggestions.map(payload => this.toSuggestion(payload, fileContext));
     } catch (error) {
-      console.error('Ollama API error:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error(`${this.label} API error:`, error);
       return [];
     }
   }
 
+  /**
+   * Embed texts with the configured embedding model, one vector per text in input order
+   */
+  public async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (!this.capabilities.embeddings) {
+      throw new Error(`The ${this.label} provider has no embeddings endpoint configured.`);
+    }
+    if (!this.shouldAttemptApiCall()) {
+      throw new Error(`${this.label} API temporarily unavailable. Try again later.`);
+    }
+
+    return this.withTimeout(
+      requestSignal => this.createEmbeddings(texts, requestSignal),
+      undefined,
+      `Embedding with ${this.getEmbeddingModel()}`,
+      signal
+    );
+  }
+
   // Enhanced Chat Completion Methods
   public async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     try {
@@ -286,45 +618,139 @@ export class OllamaService {
       if (!this.shouldAttemptApiCall()) {
         const status = this.getApiStatus();
         const nextRetry = status.nextRetryTime ? status.nextRetryTime.toLocaleTimeString() : 'later';
-        throw new Error(`Ollama API temporarily unavailable. Try again at ${nextRetry}.`);
+        throw new Error(`${this.label} API temporarily unavailable. Try again at ${nextRetry}.`);
       }
 
       const messages = this.formatMessagesForAPI(request.messages);
+      const preferredModel = request.model || this.getModelFor('chat');
       
-      console.log(`🎯 Using Ollama model: ${this.getSelectedModel()}`);
+      console.log(`🎯 Using ${this.label} model: ${preferredModel}`);
       console.log(`📝 Chat completion with ${messages.length} messages`);
       
       const startTime = Date.now();
       
-      const completion = await this.withTimeout(
-        this.client.chat.completions.create({
-          model: this.getSelectedModel(),
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          })),
-          temperature: Math.min(request.temperature || 0.7, 0.8),
-          max_tokens: Math.min(request.max_tokens || 1000, 1500),
-          stream: false
-        }),
-        undefined, // Use default timeout with retry logic
-        `Chat completion with ${this.getSelectedModel()}`
+      const { result: completion, model } = await this.withModelFallback(
+        preferredModel,
+        'Chat completion',
+        async (candidate, attemptSignal) => {
+          const fitted = await this.fitToContext(messages, request.max_tokens, candidate);
+          return this.withTimeout(
+            requestSignal => this.complete({
+              model: candidate,
+              messages: fitted.messages.map(msg => ({
+                role: msg.role,
+                content: msg.content
+              })),
+              temperature: Math.min(request.temperature || 0.7, 0.8),
+              maxTokens: fitted.maxTokens
+            }, requestSignal),
+            undefined, // Use default timeout with retry logic
+            `Chat completion with ${candidate}`,
+            attemptSignal
+          );
+        }
       );
       
       const elapsed = Date.now() - startTime;
       console.log(`✅ Chat completion successful in ${elapsed}ms`);
       
-      return this.formatChatResponse(completion, this.getSelectedModel(), request);
+      return this.formatChatResponse({
+        choices: [{ message: { role: 'assistant', content: completion.content } }],
+        ...(completion.usage && { usage: completion.usage })
+      }, model, request);
       
     } catch (error) {
-      console.error('Ollama chat completion error:', error);
+      console.error(`${this.label} chat completion error:`, error);
       throw new Error(`Chat completion failed: ${error}`);
     }
   }
 
+  /**
+   * Streaming variant of chatCompletion. Each token delta is passed to onDelta as it arrives;
+   * the resolved response carries the full accumulated message.
+   */
+  public async chatCompletionStream(
+    request: ChatCompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    if (!this.shouldAttemptApiCall()) {
+      const status = this.getApiStatus();
+      const nextRetry = status.nextRetryTime ? status.nextRetryTime.toLocaleTimeString() : 'later';
+      throw new Error(`${this.label} API temporarily unavailable. Try again at ${nextRetry}.`);
+    }
+
+    let messages = this.formatMessagesForAPI(request.messages);
+    let model = request.model || this.getModelFor('chat');
+    console.log(`🎯 Streaming chat completion with ${model} (${messages.length} messages)`);
+
+    const startTime = Date.now();
+    let content = '';
+    let usage: ChatCompletionResponse['usage'] | undefined;
+    let streamed = false;
+
+    try {
+      const { result, model: usedModel } = await this.withModelFallback(
+        model,
+        'Streaming chat completion',
+        async (candidate, attemptSignal) => {
+          const fitted = await this.fitToContext(messages, request.max_tokens, candidate);
+          return this.withIdleTimeout(
+            (idleSignal, onActivity) => this.completeStream(
+              {
+                model: candidate,
+                messages: fitted.messages.map(msg => ({
+                  role: msg.role,
+                  content: msg.content
+                })),
+                temperature: Math.min(request.temperature || 0.7, 0.8),
+                maxTokens: fitted.maxTokens
+              },
+              delta => {
+                onActivity();
+                streamed = true;
+                onDelta(delta);
+              },
+              idleSignal
+            ),
+            attemptSignal,
+            this.defaultTimeout,
+            `Streaming chat completion with ${candidate}`
+          ).then(result => ({ ...result, messages: fitted.messages }));
+        },
+        // Once part of the answer is shown, another model cannot take over
+        () => !signal?.aborted && !streamed,
+        signal
+      );
+      model = usedModel;
+      messages = result.messages;
+      content = result.content;
+      usage = result.usage;
+    } catch (error) {
+      console.error(`${this.label} streaming chat completion error:`, error);
+      throw new Error(`Chat completion failed: ${String(error)}`);
+    }
+
+    console.log(`✅ Streaming chat completion finished in ${Date.now() - startTime}ms`);
+
+    // Without a usage block from the server, count the tokens ourselves
+    const promptTokens = countMessageTokens(messages);
+    const completionTokens = countTokens(content);
+    const completion: ApiChatCompletion = {
+      choices: [{ message: { role: 'assistant', content } }],
+      usage: usage ?? {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+    return this.formatChatResponse(completion, model, request);
+  }
+
   public async conversationalAnalysis(
     messages: ChatCompletionMessage[], 
-    context: ChatContext
+    context: ChatContext,
+    streamOptions?: ChatStreamOptions
   ): Promise<ChatAnalysisResult> {
     try {
       const systemPrompt = this.buildSystemPrompt(context);
@@ -333,22 +759,27 @@ export class OllamaService {
         ...messages
       ];
 
-      console.log('🎯 Ollama Service - Conversational Analysis');
+      console.log(`🎯 ${this.label} - Conversational Analysis`);
       console.log(`Input messages: ${messages.length}, System prompt: ${systemPrompt.length} chars`);
       
       const request: ChatCompletionRequest = {
         messages: analysisMessages,
         context,
         temperature: 0.3,
-        max_tokens: 1500
+        max_tokens: DEFAULT_CONFIG.CHAT.MAX_RESPONSE_TOKENS
       };
 
-      const response = await this.chatCompletion(request);
+      // Without streaming support the whole answer arrives at once
+      const response = streamOptions?.onDelta && this.capabilities.streaming
+        ? await this.chatCompletionStream(request, streamOptions.onDelta, streamOptions.signal)
+        : await this.chatCompletion(request);
       
       return {
         analysis: response.message.content,
         suggestions: response.suggestions || [],
         confidence: response.confidence || 0.8,
+        usage: response.usage,
+        model: response.model,
         relatedFiles: this.extractRelatedFiles(context),
         codeBlocks: this.extractCodeBlocks(response.message.content)
       };
@@ -372,6 +803,7 @@ export class OllamaService {
 
       const request: ChatCompletionRequest = {
         messages,
+        model: this.getModelFor('command'),
         context,
         temperature: this.getCommandTemperature(command),
         max_tokens: this.getCommandMaxTokens(command)
@@ -395,23 +827,143 @@ export class OllamaService {
         { role: 'user', content: 'Please provide a concise summary of our conversation and current context.' }
       ];
 
+      // Include as many of the latest messages as the window leaves room for
+      const model = this.getModelFor('summary');
+      const budget = await this.getContextLengthOf(model) - DEFAULT_CONFIG.CHAT.SUMMARY_MAX_TOKENS - countMessageTokens(summaryMessages);
       const request: ChatCompletionRequest = {
-        messages: [...messages.slice(-10), ...summaryMessages], // Include last 10 messages for context
+        messages: [...fitMessages(messages, budget), ...summaryMessages],
+        model,
         context,
         temperature: 0.2,
-        max_tokens: 300
+        max_tokens: DEFAULT_CONFIG.CHAT.SUMMARY_MAX_TOKENS
       };
 
       const response = await this.chatCompletion(request);
       return response.message.content;
     } catch (error) {
       console.error('Summary generation error:', error);
-      return 'Unable to generate conversation summary.';
+      throw new Error(`Summary generation failed: ${String(error)}`);
     }
   }
 
-  private getSelectedModel(): string {
-    return DEFAULT_CONFIG.OLLAMA.MODEL;
+  public getModel(): string {
+    return this.config.model || DEFAULT_CONFIG.OLLAMA.MODEL;
+  }
+
+  /**
+   * Model the routing settings assign to task, or the main model
+   */
+  public getModelFor(task: ModelTask): string {
+    return this.config.modelRouting?.[task] || this.getModel();
+  }
+
+  /**
+   * Model to retry with when a routed model is missing or times out; the main model unless set
+   */
+  public getFallbackModel(): string {
+    return this.config.fallbackModel || this.getModel();
+  }
+
+  public getEmbeddingModel(): string {
+    return this.config.embeddingModel || DEFAULT_CONFIG.OLLAMA.EMBEDDING_MODEL;
+  }
+
+  /**
+   * Context window the server runs the chat model with, in tokens
+   */
+  public getContextLength(): Promise<number> {
+    return this.getContextLengthOf(this.getModelFor('chat'));
+  }
+
+  /**
+   * Tokens taken by the system prompt conversationalAnalysis puts in front of the messages
+   */
+  public countSystemPromptTokens(context: ChatContext): number {
+    return countMessageTokens([{ content: this.buildSystemPrompt(context) }]);
+  }
+
+  /**
+   * Fit a request into the context window of model. The requested response length is limited to
+   * what the prompt leaves; when that is under MIN_RESPONSE_TOKENS, the oldest messages between
+   * the system prompt and the last message are dropped to make room. Throws when even that leaves
+   * too little room for an answer.
+   */
+  private async fitToContext(
+    messages: ChatCompletionMessage[],
+    requested: number | undefined,
+    model: string
+  ): Promise<{ messages: ChatCompletionMessage[]; maxTokens: number }> {
+    const contextLength = await this.getContextLengthOf(model);
+    const { MIN_RESPONSE_TOKENS } = DEFAULT_CONFIG.CHAT;
+
+    let fitted = messages;
+    if (contextLength - countMessageTokens(fitted) < MIN_RESPONSE_TOKENS) {
+      const leading = messages.length > 1 && messages[0]!.role === 'system' ? 1 : 0;
+      const head = messages.slice(0, leading);
+      const last = messages.slice(-1);
+      const budget = contextLength - MIN_RESPONSE_TOKENS - countMessageTokens([...head, ...last]);
+      fitted = [...head, ...fitMessages(messages.slice(leading, -1), Math.max(0, budget)), ...last];
+      console.warn(`⚠️ Dropped ${messages.length - fitted.length} message(s) to fit the ${contextLength} token window of ${model}`);
+    }
+
+    const available = contextLength - countMessageTokens(fitted);
+    if (available < MIN_RESPONSE_TOKENS) {
+      const setting = this.id === 'openaiCompatible' ? 'balaAnalyzer.openaiCompatible.contextLength' : 'balaAnalyzer.ollama.contextLength';
+      throw new Error(
+        `The prompt takes ${contextLength - available} of the ${contextLength} tokens ${model} can handle, leaving no room for an answer. Shorten the message or raise ${setting}.`
+      );
+    }
+    return { messages: fitted, maxTokens: Math.min(requested || 1000, available) };
+  }
+
+  /**
+   * Context window of model on the server: the setting, else the server's default num_ctx. The /v1
+   * API cannot request a larger window, however long a context the model supports.
+   */
+  protected getContextLengthOf(_model: string): Promise<number> {
+    return Promise.resolve(this.config.contextLength || DEFAULT_CONFIG.CHAT.DEFAULT_CONTEXT_LENGTH);
+  }
+
+  /**
+   * Run a request with model, and once more with the fallback model when the server does not
+   * have model or the request times out. Resolves with the result and the model that produced it.
+   * Each attempt gets its own signal, which signal also cancels; a failed attempt is aborted so a
+   * request that timed out stops competing with the fallback for the server.
+   */
+  private async withModelFallback<T>(
+    model: string,
+    operation: string,
+    run: (model: string, signal: AbortSignal) => Promise<T>,
+    canRetry: () => boolean = (): boolean => true,
+    signal?: AbortSignal
+  ): Promise<{ result: T; model: string }> {
+    const attempt = async (candidate: string): Promise<T> => {
+      const controller = new AbortController();
+      const cancel = (): void => controller.abort();
+      if (signal?.aborted) {
+        controller.abort();
+      }
+      signal?.addEventListener('abort', cancel, { once: true });
+      try {
+        return await run(candidate, controller.signal);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      } finally {
+        signal?.removeEventListener('abort', cancel);
+      }
+    };
+
+    try {
+      return { result: await attempt(model), model };
+    } catch (error) {
+      const fallback = this.getFallbackModel();
+      if (fallback === model || !canRetry() || !isModelFailure(error)) {
+        throw error;
+      }
+      console.warn(`⚠️ ${operation} with ${model} failed, retrying with fallback model ${fallback}:`, error);
+      return { result: await attempt(fallback), model: fallback };
+    }
   }
 
   private buildAnalysisPrompt(fileContext: FileContext): string {
@@ -424,19 +976,16 @@ File: ${fileContext.uri.fsPath}
 Language: ${fileContext.language}
 Size: ${fileContext.size} bytes${truncationNote}
 
-Code:
+Code (each line starts with its line number and "| ", which is not part of the code):
 \`\`\`${fileContext.language}
-${fileContext.content}
+${numberLines(fileContext.content)}
 \`\`\`
 
 Please analyze this code and provide:
 1. A brief summary of what this code does
-2. Potential improvements or refactoring opportunities
-3. Security concerns if any
-4. Performance optimization suggestions
-5. Code quality assessment
+2. Suggestions covering refactoring opportunities, security concerns, performance optimizations and code quality
 
-Format your response as a structured analysis.`;
+${this.buildJsonInstructions()}`;
   }
 
   private buildSummaryPrompt(filePaths: FileContext[]): string {
@@ -463,9 +1012,9 @@ Keep the summary concise but informative.`;
 File: ${fileContext.uri.fsPath}
 ${analysisContext ? `Context: ${analysisContext}` : ''}
 
-Code:
+Code (each line starts with its line number and "| ", which is not part of the code):
 \`\`\`${fileContext.language}
-${fileContext.content}
+${numberLines(fileContext.content)}
 \`\`\`
 
 Please provide specific, actionable suggestions for:
@@ -475,87 +1024,106 @@ Please provide specific, actionable suggestions for:
 4. Best practices alignment
 5. Readability improvements
 
-For each suggestion, provide:
-- The specific line or code block to change
-- The exact replacement code
-- Explanation of the benefit
-- Confidence level (high/medium/low)`;
+${this.buildJsonInstructions()}`;
   }
 
-  private parseAIResponse(response: string, fileContext: FileContext): AIResponse {
-    const suggestions = this.parseSuggestions(response, fileContext);
-    
-    return {
-      summary: this.extractSummary(response),
-      suggestions,
-      confidence: 0.8,
-      modelUsed: this.getSelectedModel(),
-      usage: {
-        tokens: response.length / 4, // Rough estimate
-      }
-    };
-  }
+  private buildJsonInstructions(): string {
+    return `Respond with ONLY a JSON object (no markdown fences, no commentary) matching this schema:
+${STRUCTURED_OUTPUT_SCHEMA}
 
-  private extractSummary(response: string): string {
-    const lines = response.split('\n');
-    const summaryStart = lines.findIndex(line => 
-      line.toLowerCase().includes('summary') || 
-      line.toLowerCase().includes('this code')
-    );
-    
-    if (summaryStart >= 0 && summaryStart < lines.length - 1) {
-      return lines[summaryStart + 1]?.trim() || '';
-    }
-    
-    return lines[0] || 'No summary available.';
+Line numbers refer to the numbers shown before each line. "replacement" must contain the complete code for the whole
+startLine..endLine range, without line-number prefixes and with the original indentation preserved.
+Use an empty "suggestions" array if nothing needs to change.`;
   }
 
-  private parseSuggestions(response: string, fileContext: FileContext): Suggestion[] {
-    const suggestions: Suggestion[] = [];
-    const lines = response.split('\n');
-    
-    let currentSuggestion: Partial<Suggestion> = {};
-    
-    for (const line of lines) {
-      if (line.toLowerCase().includes('suggestion') || line.toLowerCase().includes('improve')) {
-        if (currentSuggestion.title) {
-          suggestions.push(this.completeSuggestion(currentSuggestion, fileContext));
-        }
-        currentSuggestion = {
-          title: line.trim(),
-          description: '',
-          confidence: 0.7,
-          type: SuggestionType.IMPROVEMENT,
-          category: SuggestionCategory.BEST_PRACTICES
-        };
-      } else if (currentSuggestion.title && line.trim()) {
-        currentSuggestion.description += line.trim() + ' ';
+  /**
+   * Request a response matching STRUCTURED_OUTPUT_SCHEMA. Validation errors are sent back to the model
+   * so it can repair its output, up to DEFAULT_CONFIG.AI.JSON_REPAIR_ATTEMPTS extra requests.
+   */
+  private async requestStructuredAnalysis(
+    model: string,
+    systemPrompt: string,
+    userPrompt: string,
+    fileContext: FileContext,
+    options: { temperature: number; maxTokens: number; timeout: number; operation: string; signal?: AbortSignal | undefined }
+  ): Promise<{ analysis: StructuredAnalysisPayload; tokens: number }> {
+    const lineCount = fileContext.content.split(/\r?\n/).length;
+    const maxAttempts = DEFAULT_CONFIG.AI.JSON_REPAIR_ATTEMPTS + 1;
+    const messages: ChatCompletionMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+    let tokens = 0;
+    let lastErrors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Without JSON mode the prompt's JSON instructions and the repair loop keep the output parseable
+      const completion = await this.withTimeout(
+        requestSignal => this.complete({
+          model,
+          messages: messages.map(msg => ({
+            role: msg.role,
+            content: msg.content
+          })),
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          json: this.capabilities.jsonMode
+        }, requestSignal),
+        options.timeout,
+        options.operation,
+        options.signal
+      );
+
+      const responseText = completion.content;
+      tokens += completion.usage?.total_tokens || Math.round(responseText.length / 4);
+
+      const parsed = parseStructuredAnalysis(responseText, lineCount);
+      if (parsed.value && parsed.errors.length === 0) {
+        return { analysis: parsed.value, tokens };
       }
+
+      lastErrors = parsed.errors;
+      console.warn(`⚠️ ${options.operation} returned invalid JSON (attempt ${attempt}/${maxAttempts}): ${parsed.errors.join(' ')}`);
+
+      // Out of repair attempts: keep the valid part of the response if there is one
+      if (attempt === maxAttempts && parsed.value) {
+        return { analysis: parsed.value, tokens };
+      }
+
+      messages.push(
+        { role: 'assistant', content: responseText },
+        { role: 'user', content: buildRepairPrompt(parsed.errors) }
+      );
     }
-    
-    if (currentSuggestion.title) {
-      suggestions.push(this.completeSuggestion(currentSuggestion, fileContext));
-    }
-    
-    return suggestions;
+
+    throw new Error(`Model did not return valid JSON after ${maxAttempts} attempts: ${lastErrors.join(' ')}`);
   }
 
-  private completeSuggestion(partial: Partial<Suggestion>, fileContext: FileContext): Suggestion {
+  /**
+   * Turn a validated payload into a Suggestion whose range covers the reported lines
+   */
+  private toSuggestion(payload: StructuredSuggestionPayload, fileContext: FileContext): Suggestion {
+    const lines = fileContext.content.split(/\r?\n/);
+    const startLine = payload.startLine - 1;
+    const endLine = payload.endLine - 1;
+    const originalCode = lines.slice(startLine, endLine + 1).join('\n');
+
     return {
       id: Math.random().toString(36).substr(2, 9),
-      type: partial.type || SuggestionType.IMPROVEMENT,
-      title: partial.title || 'Untitled suggestion',
-      description: partial.description || 'No description available',
-      confidence: partial.confidence || 0.5,
-      range: new vscode.Range(0, 0, 0, 0),
-      originalCode: fileContext.content,
-      suggestedCode: fileContext.content,
-      category: partial.category || SuggestionCategory.BEST_PRACTICES,
+      type: payload.type,
+      title: payload.title,
+      description: payload.description || 'No description available',
+      confidence: payload.confidence,
+      range: new vscode.Range(startLine, 0, endLine, lines[endLine]?.length ?? 0),
+      originalCode,
+      // Advisory-only suggestions keep the original code so applying them is a no-op
+      suggestedCode: payload.replacement ?? originalCode,
+      category: payload.category,
       isApplied: false
     };
   }
 
-  private formatMessagesForAPI(messages: ChatCompletionMessage[]): any[] {
+  private formatMessagesForAPI(messages: ChatCompletionMessage[]): ApiChatMessage[] {
     return messages.map(msg => ({
       role: msg.role,
       content: msg.content,
@@ -563,30 +1131,26 @@ For each suggestion, provide:
     }));
   }
 
-  private formatChatResponse(response: any, model: string, request: ChatCompletionRequest): ChatCompletionResponse {
-    const message = response.choices?.[0]?.message || {
-      role: 'assistant',
-      content: 'No response generated.'
-    };
+  private formatChatResponse(response: ApiChatCompletion, model: string, request: ChatCompletionRequest): ChatCompletionResponse {
+    const content = response.choices[0]?.message.content ?? 'No response generated.';
 
-    const usage = response.usage || {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0
+    const usage = {
+      prompt_tokens: response.usage?.prompt_tokens ?? 0,
+      completion_tokens: response.usage?.completion_tokens ?? 0,
+      total_tokens: response.usage?.total_tokens ?? 0
     };
 
     // Extract suggestions from the response content if present
-    const suggestions = this.extractSuggestionsFromText(message.content, request.context);
+    const suggestions = this.extractSuggestionsFromText(content, request.context);
 
     return {
       message: {
-        role: message.role,
-        content: message.content,
-        metadata: response.metadata
+        role: 'assistant',
+        content
       },
       usage,
       model,
-      confidence: this.calculateConfidence(message.content, usage),
+      confidence: this.calculateConfidence(content, usage),
       suggestions
     };
   }
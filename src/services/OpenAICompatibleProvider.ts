@@ -0,0 +1,33 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { AIProviderCapabilities, AIProviderId, ModelInfo } from '@/types';
+import { OllamaService } from '@/services/OllamaService';
+
+/**
+ * Any server with an OpenAI-style /v1 API, such as llama.cpp server, vLLM or LM Studio. The
+ * transport is the same as Ollama's compatibility layer, but what these servers support varies,
+ * so streaming, JSON mode and embeddings come from the balaAnalyzer.openaiCompatible settings.
+ */
+export class OpenAICompatibleProvider extends OllamaService {
+  public override get id(): AIProviderId {
+    return 'openaiCompatible';
+  }
+
+  public override get capabilities(): AIProviderCapabilities {
+    return this.config.capabilities ?? DEFAULT_CONFIG.OPENAI_COMPATIBLE.CAPABILITIES;
+  }
+
+  /**
+   * The placeholder model name stands for whatever the server serves
+   */
+  public override async isModelAvailable(model: string): Promise<boolean> {
+    return model === DEFAULT_CONFIG.OPENAI_COMPATIBLE.MODEL || super.isModelAvailable(model);
+  }
+
+  protected override getBaseURL(): string {
+    return this.config.baseURL || DEFAULT_CONFIG.OPENAI_COMPATIBLE.BASE_URL;
+  }
+
+  protected override fetchModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    return this.fetchOpenAIModels(signal);
+  }
+}
@@ -0,0 +1,107 @@
+import { ContextStore } from '@/services/ContextStore';
+import { Suggestion } from '@/types';
+import { SuggestionDiffPreview } from '@/ui/SuggestionDiffPreview';
+import * as vscode from 'vscode';
+
+/**
+ * Applies stored AI suggestions to documents one at a time and records them as applied
+ */
+export class SuggestionApplier {
+  private contextStore: ContextStore;
+  private diffPreview: SuggestionDiffPreview;
+
+  constructor(contextStore: ContextStore, diffPreview: SuggestionDiffPreview) {
+    this.contextStore = contextStore;
+    this.diffPreview = diffPreview;
+  }
+
+  /**
+   * Unapplied suggestions for a document whose target code is still present,
+   * optionally limited to those overlapping a range
+   */
+  public async getApplicableSuggestions(document: vscode.TextDocument, range?: vscode.Range): Promise<Suggestion[]> {
+    const result = await this.contextStore.getAnalysisResult(document.uri);
+    if (!result) {
+      return [];
+    }
+
+    return result.suggestions
+      .filter(suggestion => !suggestion.isApplied && suggestion.suggestedCode !== suggestion.originalCode)
+      .filter(suggestion => !range || suggestion.range.intersection(range) !== undefined)
+      .filter(suggestion => this.matchesDocument(document, suggestion))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Locate a stored suggestion by id, looking in the given file first and then in every file
+   * of the last workspace analysis
+   */
+  public async findSuggestion(suggestionId: string, uri?: vscode.Uri): Promise<{ uri: vscode.Uri; suggestion: Suggestion } | undefined> {
+    const candidates: vscode.Uri[] = uri ? [uri] : [];
+    const summary = await this.contextStore.getWorkspaceSummary();
+    candidates.push(...(summary?.analysisResults.map(result => result.fileUri) ?? []));
+
+    for (const candidate of candidates) {
+      const result = await this.contextStore.getAnalysisResult(candidate);
+      const suggestion = result?.suggestions.find(s => s.id === suggestionId);
+      if (suggestion) {
+        return { uri: candidate, suggestion };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace the suggestion's range with its suggested code. The change is shown as a diff first
+   * and only lands, and is marked applied, once the user accepts it.
+   */
+  public async applySuggestion(uri: vscode.Uri, suggestionId: string): Promise<boolean> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const result = await this.contextStore.getAnalysisResult(uri);
+    const suggestion = result?.suggestions.find(s => s.id === suggestionId);
+
+    if (!suggestion || suggestion.isApplied) {
+      void vscode.window.showWarningMessage('BuildAI: This suggestion is no longer available.');
+      return false;
+    }
+    if (!this.matchesDocument(document, suggestion)) {
+      this.showStaleWarning();
+      return false;
+    }
+
+    const replacement = await this.diffPreview.review(document, suggestion);
+    if (replacement === undefined) {
+      return false;
+    }
+
+    // The document may have been edited while the diff was open
+    if (!this.matchesDocument(document, suggestion)) {
+      this.showStaleWarning();
+      return false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, suggestion.range, replacement);
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      void vscode.window.showErrorMessage(`BuildAI: Failed to apply "${suggestion.title}".`);
+      return false;
+    }
+
+    await this.contextStore.markSuggestionApplied(uri, suggestion.id, this.contextStore.calculateHash(document.getText()), replacement);
+    void vscode.window.showInformationMessage(`BuildAI: Applied "${suggestion.title}".`);
+    return true;
+  }
+
+  private showStaleWarning(): void {
+    void vscode.window.showWarningMessage('BuildAI: The code this suggestion targets has changed. Re-run the analysis to refresh it.');
+  }
+
+  private matchesDocument(document: vscode.TextDocument, suggestion: Suggestion): boolean {
+    if (suggestion.range.end.line >= document.lineCount) {
+      return false;
+    }
+    const current = document.getText(suggestion.range).replace(/\r\n/g, '\n');
+    return current === suggestion.originalCode.replace(/\r\n/g, '\n');
+  }
+}
@@ -9,6 +9,7 @@ export interface AnalysisResult {
   metrics: CodeMetrics;
   timestamp: Date;
   confidence: number;
+  fileHash?: string; // FileContext.hash of the content this result was produced from
 }
 
 export interface Suggestion {
@@ -41,6 +42,23 @@ export enum SuggestionCategory {
   BEST_PRACTICES = 'best_practices'
 }
 
+// Structured JSON contract requested from the model by analyzeCode/getSuggestions
+export interface StructuredSuggestionPayload {
+  title: string;
+  description: string;
+  type: SuggestionType;
+  category: SuggestionCategory;
+  confidence: number; // 0-1
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  replacement: string | null; // Replacement for startLine..endLine, null for advisory-only suggestions
+}
+
+export interface StructuredAnalysisPayload {
+  summary: string;
+  suggestions: StructuredSuggestionPayload[];
+}
+
 export interface FileRelationship {
   fromFile: vscode.Uri;
   toFile: vscode.Uri;
@@ -49,6 +67,11 @@ export interface FileRelationship {
   description: string;
 }
 
+export interface ResolvedImport {
+  specifier: string; // As written in the source, e.g. '@/types' or '../utils'
+  uri: vscode.Uri;
+}
+
 export enum RelationshipType {
   IMPORTS = 'imports',
   INHERITS = 'inherits',
@@ -58,6 +81,41 @@ export enum RelationshipType {
   SIMILAR_TO = 'similar_to'
 }
 
+// Dependency graph webview
+export interface DependencyGraphNode {
+  id: string; // File URI string
+  label: string; // File name
+  path: string; // Workspace-relative path
+  inCycle: boolean;
+}
+
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+  type: RelationshipType;
+  strength: number;
+  description: string;
+  inCycle: boolean; // IMPORTS edge that is part of an import cycle
+}
+
+export interface DependencyGraphData {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  cycles: string[][]; // Node ids of each import cycle (strongly connected component)
+}
+
+export enum GraphWebviewMessageType {
+  READY = 'ready',
+  REFRESH = 'refresh',
+  OPEN_FILE = 'openFile',
+  CHAT_ABOUT_FILE = 'chatAboutFile'
+}
+
+export interface GraphWebviewMessage {
+  type: GraphWebviewMessageType;
+  payload?: { id: string };
+}
+
 export interface CodeMetrics {
   linesOfCode: number;
   complexity: number;
@@ -74,17 +132,303 @@ export interface WorkspaceSummary {
   relationships: FileRelationship[];
   suggestions: Suggestion[];
   timestamp: Date;
+  incomplete?: boolean; // Set when the run was cancelled before every file was analyzed
+  skippedFiles?: number; // Incremental runs: unchanged files whose stored result was reused
+  reanalyzedFiles?: number; // Incremental runs: files sent to the model again
+}
+
+export interface AnalyzeFilesOptions {
+  incremental?: boolean; // Reuse stored results for files whose hash and dependencies are unchanged
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'json';
+
+// Plain, path-based snapshot of a WorkspaceSummary used by exported reports
+export interface AnalysisReport {
+  generatedAt: string;
+  analyzedAt: string;
+  totalFiles: number;
+  analyzedFiles: number;
+  incomplete: boolean;
+  overallMetrics: CodeMetrics;
+  files: AnalysisReportFile[];
+  suggestionsByCategory: Partial<Record<SuggestionCategory, AnalysisReportSuggestion[]>>;
+  relationships: AnalysisReportRelationship[];
+}
+
+export interface AnalysisReportFile {
+  path: string;
+  language: string;
+  summary: string;
+  confidence: number;
+  metrics: CodeMetrics;
+  suggestionCount: number;
+}
+
+export interface AnalysisReportSuggestion {
+  file: string;
+  title: string;
+  description: string;
+  type: SuggestionType;
+  confidence: number;
+  startLine: number; // 1-based
+  endLine: number; // 1-based, inclusive
+  isApplied: boolean;
+}
+
+export interface AnalysisReportRelationship {
+  from: string;
+  to: string;
+  type: RelationshipType;
+  strength: number;
+  description: string;
+}
+
+// Subset of the SARIF 2.1.0 object model produced by the SARIF exporter
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifExportOptions {
+  toolVersion: string;
+  rootUri?: string; // Workspace root; files under it are written relative to %SRCROOT%
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri?: string;
+      rules: SarifRule[];
+    };
+  };
+  originalUriBaseIds?: Record<string, { uri: string }>;
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  snippet?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{ physicalLocation: { artifactLocation: SarifArtifactLocation; region: SarifRegion } }>;
+  fixes?: Array<{
+    description: { text: string };
+    artifactChanges: Array<{
+      artifactLocation: SarifArtifactLocation;
+      replacements: Array<{ deletedRegion: SarifRegion; insertedContent: { text: string } }>;
+    }>;
+  }>;
+  properties: { suggestionId: string; confidence: number };
+}
+
+// Embedded index database backing ContextStore
+export interface IndexTableOptions<T = unknown> {
+  cacheValues?: boolean; // Keep decoded values in memory instead of re-reading them from the log
+  indexes?: Record<string, (value: T) => string[]>; // Secondary index name -> keys the value is listed under
+}
+
+export interface IndexEntryInfo {
+  key: string;
+  size: number; // Bytes the entry occupies in the log
+  updatedAt: Date;
+  usedAt: Date; // Last write, or last touch by a transaction
+  accessedAt: Date; // Last lookup by key, write or touch in this session
+}
+
+// A per-workspace partition of the context store under globalStorage/workspaces
+export interface StoredWorkspace {
+  id: string;
+  name: string;
+  folders: string[]; // Folder URIs
+  lastOpened?: Date;
+  sizeBytes: number;
+  isCurrent: boolean;
+  isShared?: boolean; // Data written before the store was partitioned, seen by every workspace
+  isLocked?: boolean; // Another window is writing to it right now
+}
+
+export interface WorkspaceFolderSummary {
+  folder: vscode.WorkspaceFolder | undefined; // undefined for files outside every workspace folder
+  summary: WorkspaceSummary;
+}
+
+export interface StorageUsage {
+  databaseBytes: number;
+  liveBytes: number; // Part of databaseBytes holding current records; the rest is reclaimed by compaction
+  analysisResults: number;
+  fileContexts: number;
+  relationships: number;
+  conversations: number;
+}
+
+export interface HousekeepingReport {
+  timestamp: Date;
+  purgedWorkspaces: number;
+  evictedFiles: number;
+  error?: string;
+}
+
+// Semantic search index: one record per file, rebuilt when its FileContext hash changes
+export interface EmbeddedChunk {
+  startLine: number; // 0-based, inclusive
+  endLine: number;
+  preview: string;
+  vector: string; // Base64 of the unit-length Float32Array
+}
+
+export interface FileEmbeddings {
+  uri: vscode.Uri;
+  hash: string; // FileContext.hash the chunks were computed from
+  model: string;
+  chunks: EmbeddedChunk[];
+}
+
+export interface SemanticSearchResult {
+  uri: vscode.Uri;
+  startLine: number;
+  endLine: number;
+  preview: string;
+  score: number; // Cosine similarity to the query
+}
+
+// Workspace code injected into a chat request
+export interface RetrievedChunk {
+  uri: vscode.Uri;
+  startLine: number; // 0-based, inclusive
+  endLine: number;
+  content: string;
+  score: number;
+}
+
+// Code a chat answer was grounded on, rendered as a file:line link in the chat webview
+export interface CodeCitation {
+  uri: string;
+  path: string; // Workspace-relative, as the model sees it
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+// Reads see the transaction's own pending writes; nothing is written until the callback returns
+export interface IndexTransaction {
+  get<T>(table: string, key: string): Promise<T | undefined>;
+  keys(table: string, where?: { index: string; key: string }): string[];
+  put(table: string, key: string, value: unknown): void;
+  delete(table: string, key: string): void;
+  clear(table: string): void;
+  touch(table: string, key: string): void; // Mark a record as still in use without rewriting it
+}
+
+// Operations that can be routed to their own model through the modelRouting setting
+export type ModelTask = 'analyze' | 'suggest' | 'summary' | 'command' | 'chat';
+
+// Backends the extension can talk to; each is an AIProvider created by createAIProvider
+export type AIProviderId = 'ollama' | 'ollamaNative' | 'openaiCompatible';
+
+export interface AIProviderCapabilities {
+  streaming: boolean; // Chat answers arrive token by token
+  jsonMode: boolean; // Structured analysis can ask the server to constrain output to JSON
+  embeddings: boolean; // Semantic search and semantic chat retrieval need an embeddings endpoint
+}
+
+/**
+ * Everything analysis, chat and the semantic index need from a model backend
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly label: string;
+  readonly capabilities: AIProviderCapabilities;
+  updateConfig(config: AIProviderConfig): void;
+  getApiStatus(): { available: boolean; nextRetryTime?: Date | undefined };
+  getModel(): string;
+  getModelFor(task: ModelTask): string;
+  getFallbackModel(): string;
+  getEmbeddingModel(): string;
+  listModels(refresh?: boolean): Promise<ModelInfo[]>;
+  isModelAvailable(model: string): Promise<boolean>;
+  getContextLength(): Promise<number>;
+  countSystemPromptTokens(context: ChatContext): number;
+  analyzeCode(fileContext: FileContext, signal?: AbortSignal): Promise<AIResponse>;
+  getSuggestions(fileContext: FileContext, analysisContext?: string, signal?: AbortSignal): Promise<Suggestion[]>;
+  generateSummary(filePaths: FileContext[]): Promise<string>;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+  chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+  chatCompletionStream(request: ChatCompletionRequest, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<ChatCompletionResponse>;
+  conversationalAnalysis(messages: ChatCompletionMessage[], context: ChatContext, streamOptions?: ChatStreamOptions): Promise<ChatAnalysisResult>;
+  processCommand(command: string, content: string, context: ChatContext): Promise<ChatCompletionResponse>;
+  generateContextualSummary(messages: ChatCompletionMessage[], context: ChatContext): Promise<string>;
+}
+
+// A model the provider's server offers; sizes and details only come from Ollama's /api/tags
+export interface ModelInfo {
+  id: string;
+  sizeBytes?: number;
+  family?: string;
+  parameterSize?: string; // e.g. "7.2B"
+  quantization?: string; // e.g. "Q4_K_M"
+}
+
+// One request to a provider's chat endpoint, independent of its wire format
+export interface ProviderChatRequest {
+  model: string;
+  messages: Array<Pick<ChatCompletionMessage, 'role' | 'content'>>;
+  temperature: number;
+  maxTokens: number;
+  json?: boolean; // Ask for a JSON object; only set when the provider supports JSON mode
 }
 
-export interface OllamaConfig {
+export interface ProviderChatResult {
+  content: string;
+  usage?: ChatCompletionResponse['usage']; // Missing when the server does not report usage
+}
+
+export interface AIProviderConfig {
+  provider?: AIProviderId; // Defaults to 'ollama'
   baseURL?: string;
   username?: string; // For HTTP Basic Auth (if server is protected)
   password?: string; // For HTTP Basic Auth (if server is protected)
+  bearerToken?: string; // For token-protected servers (sent as "Authorization: Bearer")
   model?: string;
+  modelRouting?: Partial<Record<ModelTask, string>>; // Tasks without an entry use model
+  fallbackModel?: string; // Retried when a routed model is missing or times out; defaults to model
+  embeddingModel?: string; // Used for the semantic search index
+  contextLength?: number; // Context window of model in tokens; 0 uses the window the server runs it with
   timeout?: number;
   maxRetries?: number;
+  capabilities?: AIProviderCapabilities; // Only for openaiCompatible, whose servers differ
 }
 
+// Credentials kept in VSCode SecretStorage, never in settings or the bundle
+export type ProviderCredentials =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string };
+
 export interface AnalysisConfig {
   maxFileSize: number;
   timeout: number;
@@ -105,7 +449,7 @@ export interface CacheConfig {
 }
 
 export interface ExtensionConfig {
-  ollama: OllamaConfig; // Primary AI service
+  provider: AIProviderConfig; // Primary AI service
   analysis: AnalysisConfig;
   context: ContextConfig;
   cache: CacheConfig;
@@ -165,6 +509,23 @@ export interface ChatMessageMetadata {
   relatedFiles?: string[];
   isFromEditor?: boolean; // Whether the analyzed content came from active editor or file system
   isAnalysisResult?: boolean; // Whether this is an automated analysis result
+  interrupted?: boolean; // Whether a streamed response was cut off before completion
+  citations?: CodeCitation[]; // Workspace code retrieved for the answer
+  contextUsage?: ContextUsage;
+}
+
+// How much of the model's context window a chat request took
+export interface ContextUsage {
+  promptTokens: number;
+  contextLength: number;
+  summarizedMessages: number; // Older messages only present through the rolling summary
+}
+
+// Older turns of a long conversation, condensed once they no longer fit the context window
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string; // Last message folded into the summary
+  messageCount: number;
 }
 
 export interface ChatSession {
@@ -173,7 +534,15 @@ export interface ChatSession {
   context: ChatContext;
   createdAt: Date;
   updatedAt: Date;
-  title?: string;
+  title?: string; // Set when the user renames the session; lists derive one otherwise
+  summary?: ConversationSummary;
+}
+
+export interface ChatSessionSummary {
+  sessionId: string;
+  title: string;
+  lastUpdated: Date;
+  messageCount: number;
 }
 
 export interface WebviewMessage {
@@ -182,6 +551,27 @@ export interface WebviewMessage {
   requestId?: string;
 }
 
+// Payloads the webview sends with the messages of the same name
+export interface UpdateSettingsPayload {
+  action?: string;
+}
+
+export interface OpenCitationPayload {
+  path: string;
+  line: number;
+  endLine?: number;
+  uri?: string;
+}
+
+export interface ListSessionsPayload {
+  query?: string; // Filter of the session list, kept when the list is sent again
+}
+
+// RESUME_SESSION, RENAME_SESSION, DELETE_SESSION and EXPORT_SESSION
+export interface SessionPayload extends ListSessionsPayload {
+  sessionId: string;
+}
+
 export interface ExtensionMessage {
   type: ExtensionMessageType;
   payload: any;
@@ -195,7 +585,16 @@ export enum WebviewMessageType {
   ANALYZE_CODE = 'analyzeCode',
   GET_HISTORY = 'getHistory',
   CLEAR_HISTORY = 'clearHistory',
-  UPDATE_SETTINGS = 'updateSettings'
+  UPDATE_SETTINGS = 'updateSettings',
+  STOP_GENERATION = 'stopGeneration',
+  OPEN_CITATION = 'openCitation',
+  LIST_SESSIONS = 'listSessions',
+  NEW_SESSION = 'newSession',
+  RESUME_SESSION = 'resumeSession',
+  RENAME_SESSION = 'renameSession',
+  DELETE_SESSION = 'deleteSession',
+  EXPORT_SESSION = 'exportSession',
+  IMPORT_SESSION = 'importSession'
 }
 
 export enum ExtensionMessageType {
@@ -206,7 +605,10 @@ export enum ExtensionMessageType {
   HISTORY_UPDATE = 'historyUpdate',
   ERROR = 'error',
   TYPING_START = 'typingStart',
-  TYPING_END = 'typingEnd'
+  TYPING_END = 'typingEnd',
+  STREAM_CHUNK = 'streamChunk',
+  STREAM_END = 'streamEnd',
+  SESSION_LIST = 'sessionList'
 }
 
 export interface ChatPanelState {
@@ -233,6 +635,11 @@ export interface ChatCompletionRequest {
   context?: ChatContext;
 }
 
+export interface ChatStreamOptions {
+  onDelta?: (delta: string) => void; // Receives each token delta as it arrives
+  signal?: AbortSignal; // Aborts the in-flight request
+}
+
 export interface ChatCompletionResponse {
   message: ChatCompletionMessage;
   usage: {
@@ -250,10 +657,21 @@ export interface ConversationHistory {
   messages: ChatMessage[];
   context: ChatContext;
   summary?: string;
+  rollingSummary?: ConversationSummary;
+  title?: string;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+// Portable export of a conversation; the dates are ISO strings in the file
+export interface ChatTranscript {
+  format: 'buildai-chat-transcript';
+  version: number;
+  title: string;
+  exportedAt: Date;
+  history: ConversationHistory;
+}
+
 export interface ChatCommand {
   name: string;
   description: string;
@@ -275,6 +693,8 @@ export interface ChatAnalysisResult {
   codeBlocks?: CodeBlock[];
   relatedFiles?: vscode.Uri[];
   confidence: number;
+  usage?: ChatCompletionResponse['usage'];
+  model?: string;
 }
 
 export interface CodeBlock {
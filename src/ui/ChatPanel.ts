@@ -1,35 +1,53 @@
 import { MultiFileAnalyzer } from '@/analyzers/MultiFileAnalyzer';
 import { ChatService } from '@/services/ChatService';
 import { ContextStore } from '@/services/ContextStore';
-import { OllamaService } from '@/services/OllamaService';
+import { EmbeddingIndex } from '@/services/EmbeddingIndex';
+import { SuggestionApplier } from '@/services/SuggestionApplier';
 import {
+    AIProvider,
+    AIResponse,
     ChatContext,
     ChatMessage,
     ChatPanelState,
     ChatSession,
+    ChatStreamOptions,
+    ChatTranscript,
+    CodeCitation,
+    ContextUsage,
     ExtensionMessage,
     ExtensionMessageType,
+    ListSessionsPayload,
+    OpenCitationPayload,
+    SessionPayload,
+    UpdateSettingsPayload,
     WebviewMessage,
     WebviewMessageType
 } from '@/types';
+import { formatTranscriptMarkdown, parseTranscript, toTranscript } from '@/utils/chatTranscript';
+import { getRelativePathFromWorkspace } from '@/utils/fileUtils';
+import * as path from 'path';
 import * as vscode from 'vscode';
 
 export class ChatPanel {
   public static currentPanel: ChatPanel | undefined;
   private readonly _panel: vscode.WebviewPanel;
   private readonly _extensionUri: vscode.Uri;
-  private readonly _ollamaService: OllamaService;
+  private readonly _aiProvider: AIProvider;
   private readonly _contextStore: ContextStore;
   private readonly _chatService: ChatService;
+  private readonly _suggestionApplier: SuggestionApplier | undefined;
   private _disposables: vscode.Disposable[] = [];
   private _currentSession: ChatSession;
   private _panelState: ChatPanelState;
+  private _activeRequest: AbortController | undefined;
 
   public static createOrShow(
     extensionUri: vscode.Uri,
-    ollamaService: OllamaService,
+    aiProvider: AIProvider,
     contextStore: ContextStore,
-    analyzer?: MultiFileAnalyzer
+    analyzer?: MultiFileAnalyzer,
+    suggestionApplier?: SuggestionApplier,
+    embeddingIndex?: EmbeddingIndex
   ) {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
@@ -57,7 +75,7 @@ export class ChatPanel {
       }
     );
 
-    ChatPanel.currentPanel = new ChatPanel(panel, extensionUri, ollamaService, contextStore, analyzer);
+    ChatPanel.currentPanel = new ChatPanel(panel, extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
   }
 
   public static kill() {
@@ -68,41 +86,39 @@ export class ChatPanel {
   public static revive(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
-    ollamaService: OllamaService,
+    aiProvider: AIProvider,
     contextStore: ContextStore,
-    analyzer?: MultiFileAnalyzer
+    analyzer?: MultiFileAnalyzer,
+    suggestionApplier?: SuggestionApplier,
+    embeddingIndex?: EmbeddingIndex
   ) {
-    ChatPanel.currentPanel = new ChatPanel(panel, extensionUri, ollamaService, contextStore, analyzer);
+    ChatPanel.currentPanel = new ChatPanel(panel, extensionUri, aiProvider, contextStore, analyzer, suggestionApplier, embeddingIndex);
   }
 
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
-    ollamaService: OllamaService,
+    aiProvider: AIProvider,
     contextStore: ContextStore,
-    analyzer?: MultiFileAnalyzer
+    analyzer?: MultiFileAnalyzer,
+    suggestionApplier?: SuggestionApplier,
+    embeddingIndex?: EmbeddingIndex
   ) {
     this._panel = panel;
     this._extensionUri = extensionUri;
-    this._ollamaService = ollamaService;
+    this._aiProvider = aiProvider;
     this._contextStore = contextStore;
-    this._chatService = new ChatService(ollamaService, contextStore, analyzer);
+    this._chatService = new ChatService(aiProvider, contextStore, analyzer, embeddingIndex);
+    this._suggestionApplier = suggestionApplier;
+
+    // The panel shows ChatService's own session object, so what is displayed is what gets saved
+    this._currentSession = this._chatService.createSession(this._getCurrentContext());
 
     // Initialize state
     this._panelState = {
       isVisible: true,
       position: panel.viewColumn || undefined,
-      sessionId: this._generateSessionId()
-    };
-
-    // Initialize new session
-    this._currentSession = {
-      id: this._panelState.sessionId!,
-      messages: [],
-      context: this._getCurrentContext(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      title: 'New Chat Session'
+      sessionId: this._currentSession.id
     };
 
     // Set the webview's initial html content
@@ -143,14 +159,23 @@ export class ChatPanel {
     );
 
     // Load previous session if available
-    this._loadPreviousSession();
+    void this._loadPreviousSession().catch(error => {
+      console.error('Failed to load the previous chat session:', error);
+      this._sendToWebview({
+        type: ExtensionMessageType.ERROR,
+        payload: { error: `Failed to load the previous chat session: ${error instanceof Error ? error.message : 'Unknown error'}` }
+      });
+    });
   }
 
   public dispose() {
     ChatPanel.currentPanel = undefined;
 
+    // Stop any in-flight response; ChatService keeps whatever was streamed so far
+    this._activeRequest?.abort();
+
     // Save current session before disposing
-    this._saveSession();
+    void this._saveSession();
 
     // Clean up our resources
     this._panel.dispose();
@@ -195,43 +220,55 @@ export class ChatPanel {
         <title>BuildAI Assistant</title>
       </head>
       <body>
-        <div class="chat-container">
-          <div class="chat-header">
-            <div class="header-title">
-              <span class="icon">🤖</span>
-              <h1>BuildAI Assistant</h1>
+        <div class="app-layout">
+          <aside class="session-sidebar" id="sessionSidebar" hidden>
+            <div class="sidebar-header">
+              <input type="search" id="sessionSearch" placeholder="Search chats..." />
+              <button id="newSessionBtn" class="btn-icon" title="New Chat">➕</button>
+              <button id="importSessionBtn" class="btn-icon" title="Import Transcript">📥</button>
             </div>
-            <div class="header-controls">
-              <button id="clearChat" class="btn-icon" title="Clear Chat">🗑️</button>
-              <button id="settingsBtn" class="btn-icon" title="Settings">⚙️</button>
+            <ul class="session-list" id="sessionList"></ul>
+          </aside>
+          <div class="chat-container">
+            <div class="chat-header">
+              <div class="header-title">
+                <span class="icon">🤖</span>
+                <h1>BuildAI Assistant</h1>
+              </div>
+              <div class="header-controls">
+                <span id="contextUsage" class="context-usage" hidden></span>
+                <button id="historyBtn" class="btn-icon" title="Chat History">🕘</button>
+                <button id="clearChat" class="btn-icon" title="Clear Chat">🗑️</button>
+                <button id="settingsBtn" class="btn-icon" title="Select AI provider">⚙️</button>
+              </div>
             </div>
-          </div>
           
-          <div class="chat-messages" id="chatMessages">
-            <div class="welcome-message">
-              <div class="message assistant">
-                <div class="message-content">
-                  <p>👋 Hello! I'm your AI code assistant. I can help you:</p>
-                  <ul>
-                    <li>Analyze your code and provide insights</li>
-                    <li>Suggest improvements and optimizations</li>
-                    <li>Answer questions about your codebase</li>
-                    <li>Help with debugging and best practices</li>
-                  </ul>
-                  <p>Try typing a message or use commands like <code>/analyze</code>, <code>/suggest</code>, or <code>/explain</code>!</p>
+            <div class="chat-messages" id="chatMessages">
+              <div class="welcome-message">
+                <div class="message assistant">
+                  <div class="message-content">
+                    <p>👋 Hello! I'm your AI code assistant. I can help you:</p>
+                    <ul>
+                      <li>Analyze your code and provide insights</li>
+                      <li>Suggest improvements and optimizations</li>
+                      <li>Answer questions about your codebase</li>
+                      <li>Help with debugging and best practices</li>
+                    </ul>
+                    <p>Try typing a message or use commands like <code>/analyze</code>, <code>/suggest</code>, or <code>/explain</code>!</p>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
           
-          <div class="chat-input-container">
-            <div class="input-wrapper">
-              <textarea id="chatInput" placeholder="Ask me anything about your code..." rows="1"></textarea>
-              <button id="sendButton" class="send-btn" title="Send Message">
-                <span class="send-icon">📤</span>
-              </button>
+            <div class="chat-input-container">
+              <div class="input-wrapper">
+                <textarea id="chatInput" placeholder="Ask me anything about your code..." rows="1"></textarea>
+                <button id="sendButton" class="send-btn" title="Send Message">
+                  <span class="send-icon">📤</span>
+                </button>
+              </div>
+              <div class="input-status" id="inputStatus"></div>
             </div>
-            <div class="input-status" id="inputStatus"></div>
           </div>
         </div>
         
@@ -268,7 +305,44 @@ export class ChatPanel {
           break;
           
         case WebviewMessageType.UPDATE_SETTINGS:
-          await this._handleUpdateSettings(message.payload, message.requestId);
+          await this._handleUpdateSettings(message.payload as UpdateSettingsPayload | undefined);
+          break;
+
+        case WebviewMessageType.STOP_GENERATION:
+          this._activeRequest?.abort();
+          break;
+
+        case WebviewMessageType.OPEN_CITATION:
+          await this._handleOpenCitation(message.payload as OpenCitationPayload);
+          break;
+
+        case WebviewMessageType.LIST_SESSIONS:
+          await this._handleListSessions(message.payload as ListSessionsPayload, message.requestId);
+          break;
+
+        case WebviewMessageType.NEW_SESSION:
+          this._startNewSession();
+          this._sendHistory(message.requestId);
+          break;
+
+        case WebviewMessageType.RESUME_SESSION:
+          await this._switchToSession((message.payload as SessionPayload).sessionId, message.requestId);
+          break;
+
+        case WebviewMessageType.RENAME_SESSION:
+          await this._handleRenameSession(message.payload as SessionPayload, message.requestId);
+          break;
+
+        case WebviewMessageType.DELETE_SESSION:
+          await this._handleDeleteSession(message.payload as SessionPayload, message.requestId);
+          break;
+
+        case WebviewMessageType.EXPORT_SESSION:
+          await this.exportTranscript((message.payload as SessionPayload).sessionId);
+          break;
+
+        case WebviewMessageType.IMPORT_SESSION:
+          await this.importTranscript();
           break;
           
         default:
@@ -293,10 +367,6 @@ export class ChatPanel {
       context: this._getCurrentContext()
     };
 
-    // Add user message to session
-    this._currentSession.messages.push(userMessage);
-    this._currentSession.updatedAt = new Date();
-
     // Send typing indicator
     this._sendToWebview({
       type: ExtensionMessageType.TYPING_START,
@@ -304,9 +374,23 @@ export class ChatPanel {
       requestId
     });
 
+    const abortController = new AbortController();
+    this._activeRequest = abortController;
+    let streamed = false;
+
     try {
-      // Process the message with AI
-      const aiResponse = await this._processWithAI(payload.content, this._getCurrentContext());
+      // Process the message with AI, forwarding token deltas as they arrive
+      const aiResponse = await this._processWithAI(payload.content, this._getCurrentContext(), {
+        signal: abortController.signal,
+        onDelta: (delta: string) => {
+          streamed = true;
+          this._sendToWebview({
+            type: ExtensionMessageType.STREAM_CHUNK,
+            payload: { delta },
+            requestId
+          });
+        }
+      });
       
       const assistantMessage: ChatMessage = {
         id: this._generateMessageId(),
@@ -317,17 +401,17 @@ export class ChatPanel {
         metadata: {
           tokens: aiResponse.usage.tokens,
           model: aiResponse.modelUsed,
-          confidence: aiResponse.confidence
+          confidence: aiResponse.confidence,
+          ...(aiResponse.interrupted && { interrupted: true }),
+          ...(aiResponse.citations.length > 0 && { citations: aiResponse.citations }),
+          ...(aiResponse.contextUsage && { contextUsage: aiResponse.contextUsage })
         }
       };
 
-      // Add assistant message to session
-      this._currentSession.messages.push(assistantMessage);
-      this._currentSession.updatedAt = new Date();
-
-      // Send response to webview
+      // ChatService has already recorded both sides of the exchange in the session
+      // Send response to webview; a streamed response replaces the partial message built from chunks
       this._sendToWebview({
-        type: ExtensionMessageType.MESSAGE_RESPONSE,
+        type: streamed ? ExtensionMessageType.STREAM_END : ExtensionMessageType.MESSAGE_RESPONSE,
         payload: { 
           userMessage, 
           assistantMessage,
@@ -349,8 +433,6 @@ export class ChatPanel {
           error: error instanceof Error ? error.message : 'Unknown error'
         }
       };
-
-      this._currentSession.messages.push(errorMessage);
       
       this._sendToWebview({
         type: ExtensionMessageType.ERROR,
@@ -358,6 +440,10 @@ export class ChatPanel {
         requestId
       });
     } finally {
+      if (this._activeRequest === abortController) {
+        this._activeRequest = undefined;
+      }
+
       // Stop typing indicator
       this._sendToWebview({
         type: ExtensionMessageType.TYPING_END,
@@ -367,6 +453,49 @@ export class ChatPanel {
     }
   }
 
+  /**
+   * Open a file:line citation. Citations the model wrote itself only carry a path, which is
+   * resolved against the workspace folders.
+   */
+  private async _handleOpenCitation(payload: OpenCitationPayload): Promise<void> {
+    const uri = payload.uri ? vscode.Uri.parse(payload.uri) : await this._resolveCitationPath(payload.path);
+    if (!uri) {
+      void vscode.window.showWarningMessage(`BuildAI: Could not find ${payload.path} in the workspace.`);
+      return;
+    }
+
+    const startLine = Math.max(0, payload.line - 1);
+    const endLine = Math.max(startLine, (payload.endLine ?? payload.line) - 1);
+    await vscode.window.showTextDocument(uri, {
+      viewColumn: vscode.ViewColumn.One,
+      selection: endLine > startLine ? new vscode.Range(startLine, 0, endLine + 1, 0) : new vscode.Range(startLine, 0, startLine, 0)
+    });
+  }
+
+  private async _resolveCitationPath(citedPath: string): Promise<vscode.Uri | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const candidates = path.isAbsolute(citedPath)
+      ? [vscode.Uri.file(citedPath)]
+      : folders.flatMap(folder => [
+          vscode.Uri.joinPath(folder.uri, citedPath),
+          // Multi-root workspaces prefix relative paths with the folder name
+          ...(citedPath.startsWith(`${folder.name}/`) ? [vscode.Uri.joinPath(folder.uri, citedPath.slice(folder.name.length + 1))] : [])
+        ]);
+
+    for (const candidate of candidates) {
+      try {
+        await vscode.workspace.fs.stat(candidate);
+        return candidate;
+      } catch {
+        // Not in this folder
+      }
+    }
+
+    // Models sometimes shorten the path to its last segments
+    const [found] = await vscode.workspace.findFiles(`**/${citedPath}`, '**/node_modules/**', 1);
+    return found;
+  }
+
   private async _handleRequestContext(requestId?: string) {
     const context = this._getCurrentContext();
     this._sendToWebview({
@@ -386,36 +515,210 @@ export class ChatPanel {
     });
   }
 
-  private async _handleApplySuggestion(payload: { suggestionId: string }, requestId?: string) {
-    // Implementation for applying suggestions
+  private async _handleApplySuggestion(payload: { suggestionId: string; fileUri?: string }, requestId?: string): Promise<void> {
+    const activeFile = vscode.window.activeTextEditor?.document.uri;
+    const preferredUri = payload.fileUri ? vscode.Uri.parse(payload.fileUri) : activeFile;
+    const found = await this._suggestionApplier?.findSuggestion(payload.suggestionId, preferredUri);
+
+    let success = false;
+    if (found && this._suggestionApplier) {
+      // Applying goes through the same diff review as quick fixes and the Apply command
+      success = await this._suggestionApplier.applySuggestion(found.uri, found.suggestion.id);
+    } else {
+      void vscode.window.showWarningMessage('BuildAI: This suggestion is not linked to an analyzed file and cannot be applied.');
+    }
+
     this._sendToWebview({
       type: ExtensionMessageType.SUGGESTION_APPLIED,
-      payload: { success: true, suggestionId: payload.suggestionId },
+      payload: { success, suggestionId: payload.suggestionId },
       requestId
     });
   }
 
   private async _handleGetHistory(requestId?: string) {
+    this._sendHistory(requestId);
+  }
+
+  private async _handleClearHistory(requestId?: string): Promise<void> {
+    // Clearing deletes the session; other sessions stay in the history sidebar
+    const sessionId = this._currentSession.id;
+    this._startNewSession();
+    await this._chatService.clearSession(sessionId);
+    this._sendHistory(requestId);
+  }
+
+  private async _handleListSessions(payload: ListSessionsPayload, requestId?: string): Promise<void> {
+    const sessions = await this._chatService.listSessions(payload.query);
     this._sendToWebview({
-      type: ExtensionMessageType.HISTORY_UPDATE,
-      payload: { messages: this._currentSession.messages },
+      type: ExtensionMessageType.SESSION_LIST,
+      payload: { sessions, currentSessionId: this._currentSession.id },
       requestId
     });
   }
 
-  private async _handleClearHistory(requestId?: string) {
-    this._currentSession.messages = [];
-    this._currentSession.updatedAt = new Date();
+  private async _handleRenameSession(payload: SessionPayload, requestId?: string): Promise<void> {
+    const current = (await this._chatService.listSessions()).find(session => session.sessionId === payload.sessionId);
+    const title = await vscode.window.showInputBox({
+      title: 'Rename Chat Session',
+      value: current?.title ?? '',
+      validateInput: value => (value.trim() ? undefined : 'The title cannot be empty')
+    });
+    if (!title?.trim()) {
+      return;
+    }
+
+    await this._chatService.renameSession(payload.sessionId, title.trim());
+    await this._handleListSessions(payload, requestId);
+  }
+
+  private async _handleDeleteSession(payload: SessionPayload, requestId?: string): Promise<void> {
+    const choice = await vscode.window.showWarningMessage(
+      'Delete this chat session? This cannot be undone.',
+      { modal: true },
+      'Delete'
+    );
+    if (choice !== 'Delete') {
+      return;
+    }
+
+    if (payload.sessionId === this._currentSession.id) {
+      this._startNewSession();
+      this._sendHistory();
+    }
+    await this._chatService.clearSession(payload.sessionId);
+    await this._handleListSessions(payload, requestId);
+  }
+
+  /**
+   * Save a session as Markdown for PR descriptions and docs, or as JSON that Import Chat
+   * Transcript reads back. Without a session id the current one is exported, or one is picked
+   * when it is still empty.
+   */
+  public async exportTranscript(sessionId?: string): Promise<void> {
+    const sessions = await this._chatService.listSessions();
+    let exportedId = sessionId ?? this._currentSession.id;
+    if (!sessionId && this._currentSession.messages.length === 0) {
+      const picked = await vscode.window.showQuickPick(
+        sessions.map(session => ({
+          label: session.title,
+          description: `${session.messageCount} messages · ${session.lastUpdated.toLocaleString()}`,
+          sessionId: session.sessionId
+        })),
+        { placeHolder: 'Select the chat session to export' }
+      );
+      if (!picked) {
+        return;
+      }
+      exportedId = picked.sessionId;
+    }
+
+    const history = await this._chatService.getConversation(exportedId);
+    if (!history || history.messages.length === 0) {
+      void vscode.window.showWarningMessage('BuildAI: This chat session has no messages to export.');
+      return;
+    }
+    const title = sessions.find(session => session.sessionId === exportedId)?.title ?? history.title ?? 'BuildAI Chat';
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+      saveLabel: 'Export Transcript',
+      filters: {
+        'Markdown': ['md'],
+        'JSON': ['json']
+      },
+      ...(workspaceFolder && { defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, 'buildai-chat.md') })
+    });
+    if (!target) {
+      return;
+    }
+
+    const content = target.path.toLowerCase().endsWith('.json')
+      ? JSON.stringify(toTranscript(history, title), null, 2)
+      : formatTranscriptMarkdown(history, title, value =>
+          getRelativePathFromWorkspace(value.startsWith('file:') ? vscode.Uri.parse(value) : vscode.Uri.file(value))
+        );
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+    const action = await vscode.window.showInformationMessage(
+      `BuildAI: Exported chat transcript to ${target.fsPath}`,
+      'Open Transcript'
+    );
+    if (action === 'Open Transcript') {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+
+  /**
+   * Recreate a conversation from a JSON transcript as a new session and open it
+   */
+  public async importTranscript(): Promise<void> {
+    const [file] = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Import Transcript',
+      filters: { 'Chat Transcript': ['json'] }
+    }) ?? [];
+    if (!file) {
+      return;
+    }
+
+    let transcript: ChatTranscript;
+    try {
+      transcript = parseTranscript(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8'));
+    } catch (error) {
+      void vscode.window.showErrorMessage(`BuildAI: Could not import ${path.basename(file.fsPath)}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    // Keep the title it was exported under, which was derived unless the session had been renamed
+    const title = transcript.history.title || transcript.title;
+    const session = await this._chatService.importConversation({
+      ...transcript.history,
+      ...(title && { title })
+    });
+    await this._switchToSession(session.id);
+    void vscode.window.showInformationMessage(`BuildAI: Imported "${title || 'chat session'}" with ${session.messages.length} messages.`);
+  }
+
+  /**
+   * Show a saved session in the panel; new messages continue it
+   */
+  private async _switchToSession(sessionId: string, requestId?: string): Promise<void> {
+    if (sessionId === this._currentSession.id) {
+      return;
+    }
+
+    const session = this._chatService.getSession(sessionId) ?? await this._chatService.loadSession(sessionId);
+    if (!session) {
+      void vscode.window.showWarningMessage('BuildAI: This chat session no longer exists.');
+      return;
+    }
+
+    // A response still streaming belongs to the session being left
+    this._activeRequest?.abort();
+    this._currentSession = session;
+    this._panelState.sessionId = session.id;
+    this._sendHistory(requestId);
+  }
+
+  private _startNewSession(): void {
+    this._activeRequest?.abort();
+    this._currentSession = this._chatService.createSession(this._getCurrentContext());
+    this._panelState.sessionId = this._currentSession.id;
+  }
+
+  private _sendHistory(requestId?: string): void {
     this._sendToWebview({
       type: ExtensionMessageType.HISTORY_UPDATE,
-      payload: { messages: [] },
+      payload: { messages: this._currentSession.messages, sessionId: this._currentSession.id },
       requestId
     });
   }
 
-  private async _handleUpdateSettings(payload: any, requestId?: string) {
-    // Handle settings updates
-    console.log('Settings update:', payload);
+  private async _handleUpdateSettings(payload: UpdateSettingsPayload | undefined): Promise<void> {
+    // The settings button picks the provider; the rest is in the Settings editor
+    if (payload?.action === 'open') {
+      await vscode.commands.executeCommand('balaAnalyzer.selectProvider');
+    }
   }
 
   private _sendToWebview(message: ExtensionMessage) {
@@ -427,13 +730,18 @@ export class ChatPanel {
     this._panel.webview.postMessage(messageToSend);
   }
 
-  private async _processWithAI(content: string, context: ChatContext) {
+  private async _processWithAI(
+    content: string,
+    context: ChatContext,
+    streamOptions?: ChatStreamOptions
+  ): Promise<AIResponse & { interrupted: boolean; citations: CodeCitation[]; contextUsage: ContextUsage | undefined }> {
     try {
       // Use the new ChatService for message processing
       const response = await this._chatService.processMessage(
         this._currentSession.id, 
         content, 
-        context
+        context,
+        streamOptions
       );
 
       // Convert ChatMessage to the expected format
@@ -442,7 +750,10 @@ export class ChatPanel {
         suggestions: [],  // Suggestions are now handled by the ChatService directly
         confidence: response.metadata?.confidence || 0.7,
         modelUsed: response.metadata?.model || 'auto',
-        usage: { tokens: response.metadata?.tokens || 100 }
+        usage: { tokens: response.metadata?.tokens || 100 },
+        interrupted: response.metadata?.interrupted || false,
+        citations: response.metadata?.citations ?? [],
+        contextUsage: response.metadata?.contextUsage
       };
     } catch (error) {
       console.error('ChatService processing failed:', error);
@@ -453,7 +764,10 @@ export class ChatPanel {
         suggestions: [],
         confidence: 0.3,
         modelUsed: 'auto',
-        usage: { tokens: 50 }
+        usage: { tokens: 50 },
+        interrupted: false,
+        citations: [],
+        contextUsage: undefined
       };
     }
   }
@@ -488,18 +802,23 @@ export class ChatPanel {
     });
   }
 
+  /**
+   * Continue the most recent session of the workspace when the panel opens
+   */
   private async _loadPreviousSession() {
-    // Implementation for loading previous chat session
-    // This would integrate with ContextStore
+    const [latest] = await this._chatService.listSessions();
+    // Results shown while the list loaded already started a session of their own
+    if (!latest || this._currentSession.messages.length > 0) {
+      return;
+    }
+    await this._switchToSession(latest.sessionId);
   }
 
   private async _saveSession() {
-    // Implementation for saving current chat session
-    // This would integrate with ContextStore
-  }
-
-  private _generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // An empty session is not worth a history entry
+    if (this._currentSession.messages.length > 0) {
+      await this._chatService.saveSession(this._currentSession);
+    }
   }
 
   private _generateMessageId(): string {
@@ -532,6 +851,7 @@ export class ChatPanel {
 
     this._currentSession.messages.push(analysisMessage);
     this._currentSession.updatedAt = new Date();
+    void this._saveSession();
 
     this._sendToWebview({
       type: ExtensionMessageType.MESSAGE_RESPONSE,
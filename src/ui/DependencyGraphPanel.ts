@@ -0,0 +1,150 @@
+import { ContextStore } from '@/services/ContextStore';
+import { GraphWebviewMessage, GraphWebviewMessageType, RelationshipType } from '@/types';
+import { buildDependencyGraph } from '@/utils/dependencyGraph';
+import { getRelativePathFromWorkspace } from '@/utils/fileUtils';
+import * as vscode from 'vscode';
+
+/**
+ * Webview rendering the stored FileRelationship data as a dependency graph
+ */
+export class DependencyGraphPanel {
+  public static currentPanel: DependencyGraphPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private readonly _contextStore: ContextStore;
+  private _disposables: vscode.Disposable[] = [];
+
+  public static createOrShow(extensionUri: vscode.Uri, contextStore: ContextStore): void {
+    if (DependencyGraphPanel.currentPanel) {
+      DependencyGraphPanel.currentPanel._panel.reveal();
+      void DependencyGraphPanel.currentPanel._postGraph();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'balaDependencyGraph',
+      'BuildAI Dependency Graph',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'src', 'ui', 'webview')]
+      }
+    );
+
+    DependencyGraphPanel.currentPanel = new DependencyGraphPanel(panel, extensionUri, contextStore);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, contextStore: ContextStore) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+    this._contextStore = contextStore;
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    this._panel.webview.onDidReceiveMessage(this._handleWebviewMessage.bind(this), null, this._disposables);
+
+    // Redraw after each analysis run or cache clear
+    contextStore.onDidStoreWorkspaceSummary(() => this._refreshGraph(), null, this._disposables);
+    contextStore.onDidClear(() => this._refreshGraph(), null, this._disposables);
+  }
+
+  public dispose(): void {
+    DependencyGraphPanel.currentPanel = undefined;
+    this._panel.dispose();
+    while (this._disposables.length) {
+      this._disposables.pop()?.dispose();
+    }
+  }
+
+  private async _handleWebviewMessage(message: GraphWebviewMessage): Promise<void> {
+    try {
+      switch (message.type) {
+        case GraphWebviewMessageType.READY:
+        case GraphWebviewMessageType.REFRESH:
+          await this._postGraph();
+          break;
+
+        case GraphWebviewMessageType.OPEN_FILE:
+          if (message.payload) {
+            await vscode.window.showTextDocument(vscode.Uri.parse(message.payload.id), { viewColumn: vscode.ViewColumn.One });
+          }
+          break;
+
+        case GraphWebviewMessageType.CHAT_ABOUT_FILE:
+          if (message.payload) {
+            // The chat takes its file context from the active editor
+            await vscode.window.showTextDocument(vscode.Uri.parse(message.payload.id), { viewColumn: vscode.ViewColumn.One });
+            await vscode.commands.executeCommand('balaAnalyzer.openAIChat');
+          }
+          break;
+
+        default:
+          console.warn('Unknown dependency graph message type:', message.type);
+      }
+    } catch (error) {
+      console.error('Error handling dependency graph message:', error);
+      void vscode.window.showErrorMessage(`BuildAI: ${error instanceof Error ? error.message : 'Dependency graph action failed'}`);
+    }
+  }
+
+  private _refreshGraph(): void {
+    this._postGraph().catch(error => {
+      console.error('Failed to refresh the dependency graph:', error);
+    });
+  }
+
+  private async _postGraph(): Promise<void> {
+    const relationships = await this._contextStore.getAllRelationships();
+    const graph = buildDependencyGraph(relationships, getRelativePathFromWorkspace);
+    await this._panel.webview.postMessage({
+      type: 'graphData',
+      payload: { ...graph, relationshipTypes: Object.values(RelationshipType) }
+    });
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'src', 'ui', 'webview', 'graph.js')).toString();
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'src', 'ui', 'webview', 'graph.css')).toString();
+    const nonce = this._getNonce();
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src ${webview.cspSource} 'unsafe-inline';">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <link href="${styleUri}" rel="stylesheet">
+        <title>BuildAI Dependency Graph</title>
+      </head>
+      <body>
+        <div class="graph-toolbar">
+          <div class="filter-group" id="typeFilters"></div>
+          <label class="strength-filter">
+            Min strength
+            <input type="range" id="minStrength" min="0" max="1" step="0.05" value="0">
+            <span id="minStrengthValue">0.00</span>
+          </label>
+          <button id="refreshGraph" class="btn">Refresh</button>
+        </div>
+        <div class="graph-body">
+          <svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+          <aside class="graph-details" id="details">
+            <p class="hint">Select a file to see its relationships. Double-click a file to open it.</p>
+          </aside>
+        </div>
+        <div class="graph-status" id="status"></div>
+        <script nonce="${nonce}" src="${scriptUri}"></script>
+      </body>
+      </html>`;
+  }
+
+  private _getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+      text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+  }
+}
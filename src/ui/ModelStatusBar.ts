@@ -0,0 +1,145 @@
+import { DEFAULT_CONFIG, getModelDescription, normalizeModelName } from '@/constants/defaults';
+import { AIProvider, ModelInfo, ModelTask } from '@/types';
+import { updateModelSetting } from '@/utils/configuration';
+import { formatFileSize } from '@/utils/fileUtils';
+import * as vscode from 'vscode';
+
+export const SELECT_MODEL_COMMAND = 'balaAnalyzer.selectModel';
+
+interface ModelItem extends vscode.QuickPickItem {
+  model?: string; // Unset for the manual entry item
+}
+
+/**
+ * Shows the active model in the status bar and switches it from the models the provider's
+ * server offers. The model is stored in the workspace settings, so each workspace keeps its own.
+ */
+export class ModelStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly aiProvider: AIProvider;
+  private refreshId = 0;
+
+  constructor(aiProvider: AIProvider) {
+    this.aiProvider = aiProvider;
+    this.item = vscode.window.createStatusBarItem('balaAnalyzer.model', vscode.StatusBarAlignment.Right, 100);
+    this.item.name = 'BuildAI Model';
+    this.item.command = SELECT_MODEL_COMMAND;
+    this.item.show();
+    void this.refresh();
+  }
+
+  /**
+   * Show the current model and the tasks routed to other models, flagged when the server does
+   * not offer one of them
+   */
+  public async refresh(): Promise<void> {
+    const refreshId = ++this.refreshId;
+    const model = this.aiProvider.getModel();
+    const routes = (Object.keys(DEFAULT_CONFIG.MODELS.TASKS) as ModelTask[])
+      .map(task => ({ task, model: this.aiProvider.getModelFor(task) }))
+      .filter(route => route.model !== model);
+    const fallback = this.aiProvider.getFallbackModel();
+    const details = [
+      ...routes.map(route => `${DEFAULT_CONFIG.MODELS.TASKS[route.task]}: ${route.model}`),
+      ...(fallback !== model ? [`Fallback: ${fallback}`] : [])
+    ];
+
+    this.item.text = `$(hubot) ${model}${routes.length > 0 ? ` +${routes.length}` : ''}`;
+    this.item.tooltip = [`${this.aiProvider.label}: ${model}`, ...details, 'Click to switch models.'].join('\n');
+    this.item.backgroundColor = undefined;
+
+    const models = [...new Set([model, ...routes.map(route => route.model), fallback])];
+    let missing: string[];
+    try {
+      const available = await Promise.all(models.map(name => this.aiProvider.isModelAvailable(name)));
+      missing = models.filter((_, i) => !available[i]);
+    } catch (error) {
+      // An unreachable server is reported by the requests that fail, not here
+      console.warn('⚠️ Could not check the models against the server:', error);
+      return;
+    }
+
+    // A newer refresh started while the model list was loading
+    if (refreshId !== this.refreshId || missing.length === 0) {
+      return;
+    }
+    this.item.text = `$(warning) ${model}`;
+    this.item.tooltip = [
+      `Not available on the ${this.aiProvider.label}: ${missing.join(', ')}`,
+      ...details,
+      'Click to pick one of its models.'
+    ].join('\n');
+    this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  }
+
+  /**
+   * Pick one of the server's models, or type a name when the list is unavailable
+   */
+  public async showPicker(): Promise<void> {
+    const current = this.aiProvider.getModel();
+    let picked: ModelItem | undefined;
+    try {
+      picked = await vscode.window.showQuickPick<ModelItem>(
+        this.aiProvider.listModels(true).then(models => this.toItems(models, current)),
+        { title: `Select Model (${this.aiProvider.label})`, placeHolder: 'Model for analysis and chat in this workspace', matchOnDescription: true }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const action = await vscode.window.showErrorMessage(
+        `BuildAI: Could not list the models of the ${this.aiProvider.label}: ${message}`,
+        'Enter Model Name'
+      );
+      if (action !== 'Enter Model Name') {
+        return;
+      }
+      picked = { label: '' };
+    }
+    if (!picked) {
+      return;
+    }
+
+    const model = picked.model ?? (await vscode.window.showInputBox({
+      title: 'Select Model',
+      prompt: 'Model name as the server knows it',
+      value: current,
+      ignoreFocusOut: true
+    }))?.trim();
+    if (!model || model === current) {
+      return;
+    }
+
+    // The configuration listener applies the setting and refreshes the status bar
+    await updateModelSetting(this.aiProvider.id, model);
+    void vscode.window.showInformationMessage(`BuildAI: Switched to ${model}.`);
+  }
+
+  public dispose(): void {
+    this.item.dispose();
+  }
+
+  private toItems(models: ModelInfo[], current: string): ModelItem[] {
+    const currentName = normalizeModelName(current);
+    const items: ModelItem[] = models.map(info => {
+      const details = [
+        info.family,
+        info.parameterSize,
+        info.quantization,
+        info.sizeBytes !== undefined ? formatFileSize(info.sizeBytes) : undefined
+      ];
+      const isCurrent = normalizeModelName(info.id) === currentName;
+      const knownDescription = getModelDescription(info.id);
+      return {
+        label: `${isCurrent ? '$(check) ' : ''}${info.id}`,
+        description: details.filter(Boolean).join(' · '),
+        ...(knownDescription && { detail: knownDescription }),
+        model: info.id
+      };
+    });
+
+    return [
+      ...items,
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      { label: '$(edit) Enter a model name...', description: 'For models the server does not list' }
+    ];
+  }
+}
@@ -0,0 +1,41 @@
+import { SuggestionApplier } from '@/services/SuggestionApplier';
+import { SuggestionType } from '@/types';
+import { DIAGNOSTIC_SOURCE } from '@/ui/SuggestionDiagnostics';
+import * as vscode from 'vscode';
+
+export const APPLY_SUGGESTION_COMMAND = 'balaAnalyzer.applySuggestion';
+
+/**
+ * Offers each stored suggestion overlapping the cursor or selection as a quick fix
+ */
+export class SuggestionCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private applier: SuggestionApplier;
+
+  constructor(applier: SuggestionApplier) {
+    this.applier = applier;
+  }
+
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const suggestions = await this.applier.getApplicableSuggestions(document, range);
+
+    return suggestions.map(suggestion => {
+      const action = new vscode.CodeAction(`BuildAI: ${suggestion.title}`, vscode.CodeActionKind.QuickFix);
+      action.command = {
+        command: APPLY_SUGGESTION_COMMAND,
+        title: 'Apply AI Suggestion',
+        arguments: [document.uri, suggestion.id]
+      };
+      action.diagnostics = context.diagnostics.filter(diagnostic =>
+        diagnostic.source === DIAGNOSTIC_SOURCE && diagnostic.range.isEqual(suggestion.range)
+      );
+      action.isPreferred = suggestion.type === SuggestionType.SECURITY || suggestion.type === SuggestionType.BUG_FIX;
+      return action;
+    });
+  }
+}
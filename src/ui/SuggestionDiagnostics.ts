@@ -0,0 +1,128 @@
+import { ContextStore } from '@/services/ContextStore';
+import { AnalysisResult, Suggestion, SuggestionType } from '@/types';
+import { readFileContentSmart } from '@/utils/fileUtils';
+import * as vscode from 'vscode';
+
+export const DIAGNOSTIC_SOURCE = 'BuildAI';
+
+/**
+ * Publishes stored AnalysisResult suggestions to the Problems panel.
+ * Diagnostics for a file are dropped as soon as its content no longer matches
+ * the hash the analysis was produced from, since the ranges would be stale.
+ */
+export class SuggestionDiagnostics implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  private readonly contextStore: ContextStore;
+  private readonly fileHashes: Map<string, string> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(contextStore: ContextStore) {
+    this.contextStore = contextStore;
+    this.collection = vscode.languages.createDiagnosticCollection('balaAnalyzer');
+
+    this.disposables.push(
+      this.collection,
+      contextStore.onDidStoreAnalysisResult(result => this.update(result)),
+      contextStore.onDidClear(() => this.clear()),
+      vscode.workspace.onDidChangeTextDocument(event => this.checkDocument(event.document))
+    );
+
+    void this.restore();
+  }
+
+  /**
+   * Replace the diagnostics of one file with the suggestions of its latest result
+   */
+  public update(result: AnalysisResult): void {
+    const key = result.fileUri.toString();
+    const diagnostics = result.suggestions
+      .filter(suggestion => !suggestion.isApplied)
+      .map(suggestion => this.toDiagnostic(suggestion));
+
+    if (result.fileHash) {
+      this.fileHashes.set(key, result.fileHash);
+    } else {
+      this.fileHashes.delete(key);
+    }
+    this.collection.set(result.fileUri, diagnostics);
+
+    // The document may already have been edited while the analysis was running
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+    if (document) {
+      this.checkDocument(document);
+    }
+  }
+
+  public clear(): void {
+    this.fileHashes.clear();
+    this.collection.clear();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(disposable => { disposable.dispose(); });
+    this.disposables = [];
+    this.fileHashes.clear();
+  }
+
+  private toDiagnostic(suggestion: Suggestion): vscode.Diagnostic {
+    const message = suggestion.description
+      ? `${suggestion.title}: ${suggestion.description}`
+      : suggestion.title;
+    const diagnostic = new vscode.Diagnostic(suggestion.range, message, this.getSeverity(suggestion.type));
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = suggestion.type;
+    return diagnostic;
+  }
+
+  private getSeverity(type: SuggestionType): vscode.DiagnosticSeverity {
+    switch (type) {
+      case SuggestionType.SECURITY:
+        return vscode.DiagnosticSeverity.Error;
+      case SuggestionType.BUG_FIX:
+        return vscode.DiagnosticSeverity.Warning;
+      case SuggestionType.STYLE:
+        return vscode.DiagnosticSeverity.Hint;
+      default:
+        return vscode.DiagnosticSeverity.Information;
+    }
+  }
+
+  private checkDocument(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const expectedHash = this.fileHashes.get(key);
+    if (!expectedHash) {
+      return;
+    }
+
+    if (this.contextStore.calculateHash(document.getText()) !== expectedHash) {
+      this.fileHashes.delete(key);
+      this.collection.delete(document.uri);
+    }
+  }
+
+  /**
+   * Re-publish results from the last workspace analysis for files that are unchanged since then
+   */
+  private async restore(): Promise<void> {
+    try {
+      const summary = await this.contextStore.getWorkspaceSummary();
+      if (!summary) {
+        return;
+      }
+
+      for (const stored of summary.analysisResults) {
+        const result = await this.contextStore.getAnalysisResult(stored.fileUri) ?? stored;
+        if (!result.fileHash || result.suggestions.length === 0) {
+          continue;
+        }
+
+        const content = await readFileContentSmart(result.fileUri);
+        if (content && this.contextStore.calculateHash(content.content) === result.fileHash) {
+          this.update(result);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to restore BuildAI diagnostics:', error);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { Suggestion } from '@/types';
+import * as vscode from 'vscode';
+
+export const PREVIEW_SCHEME = 'balaAnalyzer-preview';
+
+/**
+ * Shows a suggestion as a diff between the current document and a read-only virtual
+ * copy with the suggested code applied, and asks the user to accept, edit or reject it.
+ */
+export class SuggestionDiffPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private contents: Map<string, string> = new Map();
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private registration: vscode.Disposable;
+
+  public readonly onDidChange: vscode.Event<vscode.Uri> = this.changeEmitter.event;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this);
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  /**
+   * Resolve to the replacement code the user accepted (possibly edited), or undefined if rejected
+   */
+  public async review(document: vscode.TextDocument, suggestion: Suggestion): Promise<string | undefined> {
+    const fileName = document.uri.path.split('/').pop() || document.uri.path;
+    const previewUri = vscode.Uri.from({
+      scheme: PREVIEW_SCHEME,
+      path: document.uri.path,
+      query: suggestion.id
+    });
+    let replacement = suggestion.suggestedCode;
+
+    try {
+      for (;;) {
+        this.setContent(previewUri, this.applyReplacement(document, suggestion.range, replacement));
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          document.uri,
+          previewUri,
+          `${fileName} ↔ BuildAI: ${suggestion.title}`,
+          { preview: true }
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+          `BuildAI: Apply "${suggestion.title}" to ${fileName}?`,
+          'Accept',
+          'Edit',
+          'Reject'
+        );
+
+        if (choice === 'Accept') {
+          return replacement;
+        }
+        if (choice !== 'Edit') {
+          return undefined;
+        }
+
+        const edited = await this.editReplacement(replacement, document.languageId);
+        if (edited !== undefined) {
+          replacement = edited;
+        }
+      }
+    } finally {
+      await this.closeDiff(previewUri);
+      this.contents.delete(previewUri.toString());
+    }
+  }
+
+  public dispose(): void {
+    this.registration.dispose();
+    this.changeEmitter.dispose();
+    this.contents.clear();
+  }
+
+  private setContent(uri: vscode.Uri, content: string): void {
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+  }
+
+  private applyReplacement(document: vscode.TextDocument, range: vscode.Range, replacement: string): string {
+    const text = document.getText();
+    return text.substring(0, document.offsetAt(range.start)) + replacement + text.substring(document.offsetAt(range.end));
+  }
+
+  /**
+   * Open the replacement in a scratch editor and return its text once the user is done
+   */
+  private async editReplacement(replacement: string, language: string): Promise<string | undefined> {
+    const draft = await vscode.workspace.openTextDocument({ content: replacement, language });
+    await vscode.window.showTextDocument(draft, { preview: false });
+
+    const choice = await vscode.window.showInformationMessage(
+      'BuildAI: Edit the suggested code, then choose Done to review the diff again.',
+      'Done',
+      'Cancel'
+    );
+    const edited = draft.getText();
+
+    // Discard the scratch document without a save prompt
+    await vscode.window.showTextDocument(draft);
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+
+    return choice === 'Done' ? edited : undefined;
+  }
+
+  private async closeDiff(previewUri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString());
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+}
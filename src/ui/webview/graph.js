@@ -0,0 +1,411 @@
+// Dependency graph webview
+const vscode = acquireVsCodeApi();
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const NODE_RADIUS = 7;
+const EDGE_COLORS = {
+  imports: '#4f9ee8',
+  calls: '#4ec9b0',
+  inherits: '#c586c0',
+  implements: '#dcdcaa',
+  depends_on: '#ce9178',
+  similar_to: '#808080'
+};
+
+// State
+let graph = { nodes: [], edges: [], cycles: [] };
+let positions = new Map();
+let enabledTypes = new Set();
+let minStrength = 0;
+let selectedId = null;
+let view = { x: 0, y: 0, scale: 1 };
+
+// DOM Elements
+let svg;
+let viewport;
+let details;
+let statusBar;
+
+document.addEventListener('DOMContentLoaded', initialize);
+
+function initialize() {
+  svg = document.getElementById('graph');
+  details = document.getElementById('details');
+  statusBar = document.getElementById('status');
+
+  viewport = document.createElementNS(SVG_NS, 'g');
+  svg.appendChild(createArrowMarkers());
+  svg.appendChild(viewport);
+
+  const strengthInput = document.getElementById('minStrength');
+  strengthInput?.addEventListener('input', () => {
+    minStrength = parseFloat(strengthInput.value);
+    document.getElementById('minStrengthValue').textContent = minStrength.toFixed(2);
+    render();
+  });
+
+  document.getElementById('refreshGraph')?.addEventListener('click', () => {
+    vscode.postMessage({ type: 'refresh' });
+  });
+
+  setupPanAndZoom();
+  window.addEventListener('message', handleExtensionMessage);
+  vscode.postMessage({ type: 'ready' });
+}
+
+function handleExtensionMessage(event) {
+  const message = event.data;
+  if (message.type !== 'graphData') return;
+
+  const isFirstLoad = enabledTypes.size === 0;
+  graph = message.payload;
+  if (isFirstLoad) {
+    // Similarity edges are noisy, so they start hidden
+    enabledTypes = new Set(message.payload.relationshipTypes.filter(type => type !== 'similar_to'));
+  }
+  if (selectedId && !graph.nodes.some(node => node.id === selectedId)) {
+    selectedId = null;
+  }
+
+  renderTypeFilters(message.payload.relationshipTypes);
+  layout();
+  render();
+  renderDetails();
+}
+
+function renderTypeFilters(types) {
+  const container = document.getElementById('typeFilters');
+  if (!container) return;
+  container.innerHTML = '';
+
+  types.forEach(type => {
+    const count = graph.edges.filter(edge => edge.type === type).length;
+    const label = document.createElement('label');
+    label.className = 'type-filter';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = enabledTypes.has(type);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        enabledTypes.add(type);
+      } else {
+        enabledTypes.delete(type);
+      }
+      render();
+    });
+
+    const swatch = document.createElement('span');
+    swatch.className = 'swatch';
+    swatch.style.background = EDGE_COLORS[type] || '#999';
+
+    label.appendChild(checkbox);
+    label.appendChild(swatch);
+    label.appendChild(document.createTextNode(`${type.replace('_', ' ')} (${count})`));
+    container.appendChild(label);
+  });
+}
+
+function getVisibleEdges() {
+  return graph.edges.filter(edge => enabledTypes.has(edge.type) && edge.strength >= minStrength);
+}
+
+// Force-directed layout, computed once per data update over all edges so filtering does not move nodes
+function layout() {
+  const width = svg.clientWidth || 800;
+  const height = svg.clientHeight || 600;
+  const previous = positions;
+  positions = new Map();
+
+  graph.nodes.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(graph.nodes.length, 1);
+    positions.set(node.id, previous.get(node.id) || {
+      x: width / 2 + Math.cos(angle) * width / 3,
+      y: height / 2 + Math.sin(angle) * height / 3
+    });
+  });
+
+  const nodes = graph.nodes.map(node => positions.get(node.id));
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const links = graph.edges
+    .map(edge => [indexById.get(edge.from), indexById.get(edge.to)])
+    .filter(([a, b]) => a !== undefined && b !== undefined);
+  const idealLength = Math.max(60, Math.sqrt((width * height) / Math.max(nodes.length, 1)) * 0.6);
+  const iterations = nodes.length > 300 ? 120 : 250;
+
+  for (let i = 0; i < iterations; i++) {
+    const temperature = 1 - i / iterations;
+    const forces = nodes.map(() => ({ x: 0, y: 0 }));
+
+    // Repulsion between all pairs
+    for (let a = 0; a < nodes.length; a++) {
+      for (let b = a + 1; b < nodes.length; b++) {
+        let dx = nodes[a].x - nodes[b].x;
+        let dy = nodes[a].y - nodes[b].y;
+        let distanceSq = dx * dx + dy * dy;
+        if (distanceSq < 0.01) {
+          dx = Math.random() - 0.5;
+          dy = Math.random() - 0.5;
+          distanceSq = 0.01;
+        }
+        const force = (idealLength * idealLength) / distanceSq;
+        forces[a].x += dx * force * 0.05;
+        forces[a].y += dy * force * 0.05;
+        forces[b].x -= dx * force * 0.05;
+        forces[b].y -= dy * force * 0.05;
+      }
+    }
+
+    // Attraction along edges
+    links.forEach(([sourceIndex, targetIndex]) => {
+      const source = nodes[sourceIndex];
+      const target = nodes[targetIndex];
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (distance - idealLength) / distance * 0.1;
+      forces[sourceIndex].x += dx * force;
+      forces[sourceIndex].y += dy * force;
+      forces[targetIndex].x -= dx * force;
+      forces[targetIndex].y -= dy * force;
+    });
+
+    // Gravity toward the centre keeps disconnected files on screen
+    nodes.forEach((node, index) => {
+      forces[index].x += (width / 2 - node.x) * 0.01;
+      forces[index].y += (height / 2 - node.y) * 0.01;
+      const maxStep = 20 * temperature + 1;
+      node.x += Math.max(-maxStep, Math.min(maxStep, forces[index].x));
+      node.y += Math.max(-maxStep, Math.min(maxStep, forces[index].y));
+    });
+  }
+}
+
+function render() {
+  if (!viewport) return;
+  viewport.innerHTML = '';
+  applyViewTransform();
+
+  const visibleEdges = getVisibleEdges();
+  const connected = new Set();
+  visibleEdges.forEach(edge => {
+    connected.add(edge.from);
+    connected.add(edge.to);
+  });
+
+  const edgeLayer = document.createElementNS(SVG_NS, 'g');
+  visibleEdges.forEach(edge => {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to) return;
+
+    // Stop the line at the node border so the arrow head stays visible
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const line = document.createElementNS(SVG_NS, 'line');
+    line.setAttribute('x1', from.x);
+    line.setAttribute('y1', from.y);
+    line.setAttribute('x2', to.x - (dx / distance) * (NODE_RADIUS + 3));
+    line.setAttribute('y2', to.y - (dy / distance) * (NODE_RADIUS + 3));
+    line.setAttribute('stroke', edge.inCycle ? '#f14c4c' : (EDGE_COLORS[edge.type] || '#999'));
+    line.setAttribute('stroke-width', String(1 + edge.strength * 2));
+    line.setAttribute('marker-end', `url(#arrow-${edge.inCycle ? 'cycle' : edge.type})`);
+    line.setAttribute('class', 'edge' + (edge.inCycle ? ' cycle' : '') + (isSelectedEdge(edge) ? ' selected' : ''));
+
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = `${edge.type}: ${edge.description} (strength ${edge.strength.toFixed(2)})`;
+    line.appendChild(title);
+    edgeLayer.appendChild(line);
+  });
+  viewport.appendChild(edgeLayer);
+
+  const nodeLayer = document.createElementNS(SVG_NS, 'g');
+  graph.nodes.forEach(node => {
+    const position = positions.get(node.id);
+    if (!position) return;
+
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('class', 'node' +
+      (node.inCycle ? ' cycle' : '') +
+      (node.id === selectedId ? ' selected' : '') +
+      (connected.has(node.id) ? '' : ' isolated'));
+    group.setAttribute('transform', `translate(${position.x}, ${position.y})`);
+
+    const circle = document.createElementNS(SVG_NS, 'circle');
+    circle.setAttribute('r', String(NODE_RADIUS));
+    group.appendChild(circle);
+
+    const label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', String(NODE_RADIUS + 4));
+    label.setAttribute('y', '4');
+    label.textContent = node.label;
+    group.appendChild(label);
+
+    const title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = node.path + (node.inCycle ? '\n⚠️ Part of an import cycle' : '');
+    group.appendChild(title);
+
+    group.addEventListener('click', event => {
+      event.stopPropagation();
+      selectedId = node.id;
+      render();
+      renderDetails();
+    });
+    group.addEventListener('dblclick', event => {
+      event.stopPropagation();
+      vscode.postMessage({ type: 'openFile', payload: { id: node.id } });
+    });
+    nodeLayer.appendChild(group);
+  });
+  viewport.appendChild(nodeLayer);
+
+  const cycleNote = graph.cycles.length > 0 ? ` • ⚠️ ${graph.cycles.length} import cycle(s)` : '';
+  statusBar.textContent = `${graph.nodes.length} files • ${visibleEdges.length} of ${graph.edges.length} relationships shown${cycleNote}`;
+}
+
+function isSelectedEdge(edge) {
+  return selectedId !== null && (edge.from === selectedId || edge.to === selectedId);
+}
+
+function renderDetails() {
+  if (!details) return;
+  details.innerHTML = '';
+
+  const node = graph.nodes.find(n => n.id === selectedId);
+  if (!node) {
+    details.appendChild(createElement('p', 'hint', graph.nodes.length === 0
+      ? 'No relationships stored yet. Run a workspace analysis first.'
+      : 'Select a file to see its relationships. Double-click a file to open it.'));
+    renderCycles();
+    return;
+  }
+
+  details.appendChild(createElement('h2', '', node.label));
+  details.appendChild(createElement('p', 'path', node.path));
+  if (node.inCycle) {
+    details.appendChild(createElement('p', 'cycle-warning', '⚠️ Part of an import cycle'));
+  }
+
+  const actions = createElement('div', 'actions', '');
+  const openButton = createElement('button', 'btn', 'Open File');
+  openButton.addEventListener('click', () => vscode.postMessage({ type: 'openFile', payload: { id: node.id } }));
+  const chatButton = createElement('button', 'btn', 'Chat About File');
+  chatButton.addEventListener('click', () => vscode.postMessage({ type: 'chatAboutFile', payload: { id: node.id } }));
+  actions.appendChild(openButton);
+  actions.appendChild(chatButton);
+  details.appendChild(actions);
+
+  renderEdgeList('Outgoing', graph.edges.filter(edge => edge.from === node.id), edge => edge.to);
+  renderEdgeList('Incoming', graph.edges.filter(edge => edge.to === node.id), edge => edge.from);
+}
+
+function renderEdgeList(title, edges, otherEnd) {
+  details.appendChild(createElement('h3', '', `${title} (${edges.length})`));
+  const list = createElement('ul', 'edge-list', '');
+  edges.forEach(edge => {
+    const other = graph.nodes.find(n => n.id === otherEnd(edge));
+    const item = createElement('li', edge.inCycle ? 'cycle' : '', '');
+    const link = createElement('a', '', other ? other.label : otherEnd(edge));
+    link.href = '#';
+    link.title = other ? other.path : '';
+    link.addEventListener('click', event => {
+      event.preventDefault();
+      selectedId = otherEnd(edge);
+      render();
+      renderDetails();
+    });
+    item.appendChild(createElement('span', `badge ${edge.type}`, edge.type.replace('_', ' ')));
+    item.appendChild(link);
+    item.appendChild(createElement('span', 'strength', edge.strength.toFixed(2)));
+    list.appendChild(item);
+  });
+  details.appendChild(list);
+}
+
+function renderCycles() {
+  if (graph.cycles.length === 0) return;
+
+  details.appendChild(createElement('h3', 'cycle-warning', `⚠️ Import cycles (${graph.cycles.length})`));
+  const list = createElement('ul', 'cycle-list', '');
+  graph.cycles.forEach(cycle => {
+    const labels = cycle.map(id => graph.nodes.find(n => n.id === id)?.label || id);
+    const item = createElement('li', '', labels.join(' → '));
+    item.addEventListener('click', () => {
+      selectedId = cycle[0];
+      render();
+      renderDetails();
+    });
+    list.appendChild(item);
+  });
+  details.appendChild(list);
+}
+
+function createArrowMarkers() {
+  const defs = document.createElementNS(SVG_NS, 'defs');
+  const colors = { ...EDGE_COLORS, cycle: '#f14c4c' };
+  Object.entries(colors).forEach(([name, color]) => {
+    const marker = document.createElementNS(SVG_NS, 'marker');
+    marker.setAttribute('id', `arrow-${name}`);
+    marker.setAttribute('viewBox', '0 0 10 10');
+    marker.setAttribute('refX', '9');
+    marker.setAttribute('refY', '5');
+    marker.setAttribute('markerWidth', '6');
+    marker.setAttribute('markerHeight', '6');
+    marker.setAttribute('orient', 'auto-start-reverse');
+    const path = document.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
+    path.setAttribute('fill', color);
+    marker.appendChild(path);
+    defs.appendChild(marker);
+  });
+  return defs;
+}
+
+function setupPanAndZoom() {
+  let dragStart = null;
+
+  svg.addEventListener('mousedown', event => {
+    dragStart = { x: event.clientX - view.x, y: event.clientY - view.y };
+  });
+  window.addEventListener('mousemove', event => {
+    if (!dragStart) return;
+    view.x = event.clientX - dragStart.x;
+    view.y = event.clientY - dragStart.y;
+    applyViewTransform();
+  });
+  window.addEventListener('mouseup', () => {
+    dragStart = null;
+  });
+  svg.addEventListener('click', () => {
+    if (selectedId === null) return;
+    selectedId = null;
+    render();
+    renderDetails();
+  });
+
+  svg.addEventListener('wheel', event => {
+    event.preventDefault();
+    const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+    const scale = Math.max(0.2, Math.min(4, view.scale * factor));
+    // Zoom around the cursor
+    const rect = svg.getBoundingClientRect();
+    const cursorX = event.clientX - rect.left;
+    const cursorY = event.clientY - rect.top;
+    view.x = cursorX - (cursorX - view.x) * (scale / view.scale);
+    view.y = cursorY - (cursorY - view.y) * (scale / view.scale);
+    view.scale = scale;
+    applyViewTransform();
+  }, { passive: false });
+}
+
+function applyViewTransform() {
+  viewport?.setAttribute('transform', `translate(${view.x}, ${view.y}) scale(${view.scale})`);
+}
+
+function createElement(tag, className, text) {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text) element.textContent = text;
+  return element;
+}
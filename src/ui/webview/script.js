@@ -8,12 +8,23 @@ let chatMessages;
 let inputStatus;
 let clearChatBtn;
 let settingsBtn;
+let contextUsageIndicator;
+let historyBtn;
+let sessionSidebar;
+let sessionSearch;
+let sessionList;
+let newSessionBtn;
+let importSessionBtn;
 
 // State Management
 let isTyping = false;
 let chatHistory = [];
 let currentRequestId = null;
 let isConnected = true;
+let streamingMessage = null;
+let streamingContent = '';
+let currentSessionId = null;
+let sessionSearchTimer = null;
 
 // Initialize when DOM is loaded
 document.addEventListener('DOMContentLoaded', () => {
@@ -35,6 +46,13 @@ function initializeElements() {
   inputStatus = document.getElementById('inputStatus');
   clearChatBtn = document.getElementById('clearChat');
   settingsBtn = document.getElementById('settingsBtn');
+  contextUsageIndicator = document.getElementById('contextUsage');
+  historyBtn = document.getElementById('historyBtn');
+  sessionSidebar = document.getElementById('sessionSidebar');
+  sessionSearch = document.getElementById('sessionSearch');
+  sessionList = document.getElementById('sessionList');
+  newSessionBtn = document.getElementById('newSessionBtn');
+  importSessionBtn = document.getElementById('importSessionBtn');
 
   // Validate required elements
   if (!chatInput || !sendButton || !chatMessages) {
@@ -49,8 +67,8 @@ function initializeElements() {
 
 // Setup event listeners
 function setupEventListeners() {
-  // Send button click
-  sendButton?.addEventListener('click', handleSendMessage);
+  // Send button click (doubles as a stop button while a response is generating)
+  sendButton?.addEventListener('click', handleSendButtonClick);
 
   // Input events
   chatInput?.addEventListener('input', handleInputChange);
@@ -59,6 +77,16 @@ function setupEventListeners() {
 
   // Header controls
   clearChatBtn?.addEventListener('click', handleClearChat);
+  historyBtn?.addEventListener('click', toggleSessionSidebar);
+
+  // Session history sidebar
+  sessionSearch?.addEventListener('input', handleSessionSearchInput);
+  sessionList?.addEventListener('click', handleSessionListClick);
+  newSessionBtn?.addEventListener('click', handleNewSession);
+  importSessionBtn?.addEventListener('click', handleImportSession);
+
+  // file:line citations in assistant messages
+  chatMessages?.addEventListener('click', handleCitationClick);
   settingsBtn?.addEventListener('click', handleSettingsClick);
 
   // Window message listener for extension communication
@@ -152,11 +180,42 @@ function autoResizeTextarea() {
 function updateSendButtonState() {
   if (!sendButton || !chatInput) return;
   
+  const sendIcon = sendButton.querySelector('.send-icon');
+  if (isTyping) {
+    // Allow stopping the in-flight response
+    sendButton.disabled = false;
+    sendButton.style.opacity = '1';
+    sendButton.title = 'Stop Generating';
+    if (sendIcon) sendIcon.textContent = '⏹️';
+    return;
+  }
+  
   const hasContent = chatInput.value.trim().length > 0;
-  const canSend = hasContent && !isTyping && isConnected;
+  const canSend = hasContent && isConnected;
   
   sendButton.disabled = !canSend;
   sendButton.style.opacity = canSend ? '1' : '0.5';
+  sendButton.title = 'Send Message';
+  if (sendIcon) sendIcon.textContent = '📤';
+}
+
+// Handle send button click
+function handleSendButtonClick() {
+  if (isTyping) {
+    handleStopGeneration();
+    return;
+  }
+  handleSendMessage();
+}
+
+// Ask the extension to stop the response being generated
+function handleStopGeneration() {
+  sendToExtension({
+    type: 'stopGeneration',
+    payload: {},
+    requestId: currentRequestId
+  });
+  updateInputStatus('⏹️ Stopping response...', 'info');
 }
 
 // Validate input
@@ -259,6 +318,14 @@ function handleExtensionMessage(event) {
       handleError(message.payload, message.requestId);
       break;
       
+    case 'streamChunk':
+      handleStreamChunk(message.payload, message.requestId);
+      break;
+      
+    case 'streamEnd':
+      handleStreamEnd(message.payload, message.requestId);
+      break;
+      
     case 'typingStart':
       showTypingIndicator();
       break;
@@ -279,6 +346,10 @@ function handleExtensionMessage(event) {
       handleSuggestionApplied(message.payload);
       break;
       
+    case 'sessionList':
+      handleSessionList(message.payload);
+      break;
+      
     default:
       console.warn('Unknown message type:', message.type);
   }
@@ -313,6 +384,42 @@ function handleMessageResponse(payload, requestId) {
   }
   
   currentRequestId = null;
+  
+  // The exchange was saved, which moves the session to the top of the history
+  requestSessionList();
+}
+
+// Handle a streamed token delta from extension
+function handleStreamChunk(payload, requestId) {
+  if (requestId !== currentRequestId || !chatMessages) return;
+  
+  // Swap the typing indicator for the message being streamed
+  if (!streamingMessage) {
+    document.getElementById('typingIndicator')?.remove();
+    streamingContent = '';
+    streamingMessage = createMessageElement({ id: requestId, type: 'assistant', content: '' });
+    streamingMessage.classList.add('streaming');
+    chatMessages.appendChild(streamingMessage);
+  }
+  
+  streamingContent += payload.delta || '';
+  const contentDiv = streamingMessage.querySelector('.message-content');
+  if (contentDiv) {
+    contentDiv.innerHTML = processMessageContent(streamingContent);
+  }
+  scrollToBottom();
+}
+
+// Handle the end of a streamed response
+function handleStreamEnd(payload, requestId) {
+  if (requestId !== currentRequestId) return;
+  
+  // Replace the partial message with the final one from the extension
+  streamingMessage?.remove();
+  streamingMessage = null;
+  streamingContent = '';
+  
+  handleMessageResponse(payload, requestId);
 }
 
 // Handle context updates
@@ -332,6 +439,9 @@ function handleContextUpdate(payload) {
 function handleError(payload, requestId) {
   if (requestId === currentRequestId) {
     hideTypingIndicator();
+    streamingMessage?.remove();
+    streamingMessage = null;
+    streamingContent = '';
     currentRequestId = null;
   }
   
@@ -351,11 +461,145 @@ function handleError(payload, requestId) {
 
 // Handle history updates
 function handleHistoryUpdate(payload) {
-  const { messages } = payload;
+  const { messages, sessionId } = payload;
+  
+  // Another session was opened; a response still in flight belonged to the previous one
+  if (sessionId && sessionId !== currentSessionId) {
+    resetPendingResponse();
+    currentSessionId = sessionId;
+    requestSessionList();
+  }
+  
   chatHistory = messages || [];
   renderChatHistory();
 }
 
+// Drop the typing indicator and any partially streamed message
+function resetPendingResponse() {
+  streamingMessage?.remove();
+  streamingMessage = null;
+  streamingContent = '';
+  currentRequestId = null;
+  hideTypingIndicator();
+}
+
+// Show or hide the session history sidebar
+function toggleSessionSidebar() {
+  if (!sessionSidebar) return;
+  
+  sessionSidebar.hidden = !sessionSidebar.hidden;
+  historyBtn?.classList.toggle('active', !sessionSidebar.hidden);
+  if (!sessionSidebar.hidden) {
+    requestSessionList();
+    sessionSearch?.focus();
+  }
+}
+
+// Ask the extension for the saved sessions matching the search box
+function requestSessionList() {
+  if (!sessionSidebar || sessionSidebar.hidden) return;
+  
+  sendToExtension({
+    type: 'listSessions',
+    payload: { query: sessionSearch?.value ?? '' },
+    requestId: generateRequestId()
+  });
+}
+
+function handleSessionSearchInput() {
+  clearTimeout(sessionSearchTimer);
+  sessionSearchTimer = setTimeout(requestSessionList, 250);
+}
+
+// Render the saved sessions
+function handleSessionList(payload) {
+  if (!sessionList) return;
+  
+  const { sessions, currentSessionId: activeSessionId } = payload;
+  currentSessionId = activeSessionId;
+  sessionList.innerHTML = '';
+  
+  if (!sessions || sessions.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'session-empty';
+    empty.textContent = sessionSearch?.value ? 'No matching chats' : 'No saved chats yet';
+    sessionList.appendChild(empty);
+    return;
+  }
+  
+  sessions.forEach(session => {
+    sessionList.appendChild(createSessionElement(session));
+  });
+}
+
+function createSessionElement(session) {
+  const item = document.createElement('li');
+  item.className = `session-item${session.sessionId === currentSessionId ? ' active' : ''}`;
+  item.dataset.sessionId = session.sessionId;
+  item.title = session.title;
+  
+  const info = document.createElement('div');
+  info.className = 'session-info';
+  
+  const title = document.createElement('div');
+  title.className = 'session-title';
+  title.textContent = session.title;
+  
+  const meta = document.createElement('div');
+  meta.className = 'session-meta';
+  meta.textContent = `${formatSessionDate(session.lastUpdated)} • ${session.messageCount} messages`;
+  
+  info.append(title, meta);
+  
+  const actions = document.createElement('div');
+  actions.className = 'session-actions';
+  actions.innerHTML = `
+    <button class="btn-icon" data-action="export" title="Export Transcript">💾</button>
+    <button class="btn-icon" data-action="rename" title="Rename">✏️</button>
+    <button class="btn-icon" data-action="delete" title="Delete">🗑️</button>
+  `;
+  
+  item.append(info, actions);
+  return item;
+}
+
+// Resume, export, rename or delete a session from the sidebar
+function handleSessionListClick(e) {
+  const item = e.target.closest('.session-item');
+  if (!item) return;
+  
+  const sessionId = item.dataset.sessionId;
+  const action = e.target.closest('[data-action]')?.dataset.action;
+  const query = sessionSearch?.value ?? '';
+  
+  if (action === 'export') {
+    sendToExtension({ type: 'exportSession', payload: { sessionId }, requestId: generateRequestId() });
+  } else if (action === 'rename') {
+    sendToExtension({ type: 'renameSession', payload: { sessionId, query }, requestId: generateRequestId() });
+  } else if (action === 'delete') {
+    sendToExtension({ type: 'deleteSession', payload: { sessionId, query }, requestId: generateRequestId() });
+  } else if (sessionId !== currentSessionId) {
+    sendToExtension({ type: 'resumeSession', payload: { sessionId }, requestId: generateRequestId() });
+  }
+}
+
+function handleImportSession() {
+  sendToExtension({
+    type: 'importSession',
+    payload: {},
+    requestId: generateRequestId()
+  });
+}
+
+function handleNewSession() {
+  sendToExtension({
+    type: 'newSession',
+    payload: {},
+    requestId: generateRequestId()
+  });
+  chatInput?.focus();
+}
+
 // Handle analysis complete
 function handleAnalysisComplete(payload) {
   updateInputStatus('✅ Analysis complete', 'success');
@@ -367,7 +611,7 @@ function handleSuggestionApplied(payload) {
   if (payload.success) {
     updateInputStatus('✅ Suggestion applied successfully', 'success');
   } else {
-    updateInputStatus('❌ Failed to apply suggestion', 'error');
+    updateInputStatus('↩️ Suggestion was not applied', 'error');
   }
   setTimeout(() => clearInputStatus(), 3000);
 }
@@ -378,9 +622,38 @@ function addMessageToUI(message) {
   
   const messageElement = createMessageElement(message);
   chatMessages.appendChild(messageElement);
+  if (message.metadata?.contextUsage) {
+    updateContextUsage(message.metadata.contextUsage);
+  }
   scrollToBottom();
 }
 
+// Show how much of the model's context window the last prompt used
+function updateContextUsage(usage) {
+  if (!contextUsageIndicator) return;
+  
+  if (!usage) {
+    contextUsageIndicator.hidden = true;
+    return;
+  }
+  
+  const percent = getContextPercent(usage);
+  contextUsageIndicator.textContent = `${formatTokenCount(usage.promptTokens)} / ${formatTokenCount(usage.contextLength)} tokens (${percent}%)`;
+  contextUsageIndicator.title = usage.summarizedMessages > 0
+    ? `Context window in use by the last prompt. ${usage.summarizedMessages} older message(s) were summarized to fit.`
+    : 'Context window in use by the last prompt';
+  contextUsageIndicator.classList.toggle('high', percent >= 80);
+  contextUsageIndicator.hidden = false;
+}
+
+function getContextPercent(usage) {
+  return usage.contextLength > 0 ? Math.round((usage.promptTokens / usage.contextLength) * 100) : 0;
+}
+
+function formatTokenCount(tokens) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k` : String(tokens);
+}
+
 // Create message element
 function createMessageElement(message) {
   const messageDiv = document.createElement('div');
@@ -395,6 +668,11 @@ function createMessageElement(message) {
   
   messageDiv.appendChild(contentDiv);
   
+  // Link the workspace code the answer was grounded on
+  if (message.metadata?.citations?.length > 0) {
+    messageDiv.appendChild(createSourcesElement(message.metadata.citations));
+  }
+  
   // Add metadata if available
   if (message.metadata || message.timestamp) {
     const metaDiv = document.createElement('div');
@@ -410,6 +688,12 @@ function createMessageElement(message) {
     if (message.metadata?.confidence) {
       metaText += ` • ${Math.round(message.metadata.confidence * 100)}% confidence`;
     }
+    if (message.metadata?.contextUsage) {
+      metaText += ` • ${getContextPercent(message.metadata.contextUsage)}% of context`;
+    }
+    if (message.metadata?.interrupted) {
+      metaText += ' • interrupted';
+    }
     
     metaDiv.textContent = metaText;
     messageDiv.appendChild(metaDiv);
@@ -437,12 +721,72 @@ function processMessageContent(content) {
   // Italic
   content = content.replace(/\*(.*?)\*/g, '<em>$1</em>');
   
+  // file:line citations, outside code blocks
+  content = content
+    .split(/(<pre>[\s\S]*?<\/pre>)/)
+    .map(part => part.startsWith('<pre>') ? part : linkifyCitations(part))
+    .join('');
+  
   // Line breaks
   content = content.replace(/\n/g, '<br>');
   
   return content;
 }
 
+// Turn path/to/file.ext:line and path/to/file.ext:start-end into links (content is already escaped)
+function linkifyCitations(content) {
+  return content.replace(
+    /(^|[\s(\[>'"])((?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z]\w*):(\d+)(?:-(\d+))?(?!\w)/g,
+    (match, prefix, path, line, endLine) => {
+      const label = `${path}:${line}${endLine ? `-${endLine}` : ''}`;
+      return `${prefix}<a href="#" class="citation-link" data-path="${path}" data-line="${line}" data-end-line="${endLine || line}">${label}</a>`;
+    }
+  );
+}
+
+// Create the list of retrieved sources shown under an answer
+function createSourcesElement(citations) {
+  const sourcesDiv = document.createElement('div');
+  sourcesDiv.className = 'message-sources';
+  
+  const label = document.createElement('span');
+  label.className = 'sources-label';
+  label.textContent = '📚 Sources:';
+  sourcesDiv.appendChild(label);
+  
+  citations.forEach(citation => {
+    const link = document.createElement('a');
+    link.href = '#';
+    link.className = 'citation-link';
+    link.textContent = `${citation.path}:${citation.startLine}-${citation.endLine}`;
+    link.dataset.path = citation.path;
+    link.dataset.uri = citation.uri;
+    link.dataset.line = String(citation.startLine);
+    link.dataset.endLine = String(citation.endLine);
+    sourcesDiv.appendChild(link);
+  });
+  
+  return sourcesDiv;
+}
+
+// Open the cited location in the editor
+function handleCitationClick(e) {
+  const link = e.target.closest?.('.citation-link');
+  if (!link) return;
+  
+  e.preventDefault();
+  sendToExtension({
+    type: 'openCitation',
+    payload: {
+      path: link.dataset.path,
+      line: Number(link.dataset.line),
+      endLine: Number(link.dataset.endLine),
+      ...(link.dataset.uri && { uri: link.dataset.uri })
+    },
+    requestId: generateRequestId()
+  });
+}
+
 // Escape HTML
 function escapeHtml(text) {
   const div = document.createElement('div');
@@ -575,6 +919,8 @@ function showError(message) {
 function clearChatUI() {
   if (!chatMessages) return;
   
+  updateContextUsage(null);
+  
   // Remove all messages except welcome message
   const messages = chatMessages.querySelectorAll('.message, .suggestion-pills, .typing-indicator');
   messages.forEach(msg => {
@@ -657,6 +1003,13 @@ function formatTimestamp(timestamp) {
   return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
+function formatSessionDate(timestamp) {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? formatTimestamp(date)
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
 // Error handling
 window.addEventListener('error', (event) => {
   console.error('Webview error:', event.error);
@@ -0,0 +1,138 @@
+import { ChatMessage, ConversationHistory } from '@/types';
+import { formatTranscriptMarkdown, parseTranscript, toTranscript, TRANSCRIPT_FORMAT, TRANSCRIPT_VERSION } from '@/utils/chatTranscript';
+
+function message(overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id: 'msg-1',
+    type: 'user',
+    content: 'Why does this throw?',
+    timestamp: new Date('2026-01-02T03:04:05.000Z'),
+    ...overrides
+  };
+}
+
+function history(messages: ChatMessage[] = [message()]): ConversationHistory {
+  return {
+    sessionId: 'session-1',
+    messages,
+    context: { activeFile: '/workspace/src/app.ts' },
+    summary: 'Debugging a crash',
+    rollingSummary: { content: 'Earlier turns', throughMessageId: 'msg-1', messageCount: 1 },
+    title: 'Crash investigation',
+    createdAt: new Date('2026-01-02T03:00:00.000Z'),
+    lastUpdated: new Date('2026-01-02T03:10:00.000Z')
+  };
+}
+
+function transcriptJson(overrides: Record<string, unknown> = {}, historyOverrides: Record<string, unknown> = {}): string {
+  const transcript = JSON.parse(JSON.stringify(toTranscript(history(), 'Crash investigation'))) as Record<string, unknown>;
+  return JSON.stringify({
+    ...transcript,
+    ...overrides,
+    history: { ...(transcript.history as Record<string, unknown>), ...historyOverrides }
+  });
+}
+
+describe('parseTranscript', () => {
+  it('round-trips a transcript written by toTranscript, reviving its dates', () => {
+    const original = toTranscript(history([
+      message({ metadata: { model: 'mistral:7b' }, context: { selectedText: 'x.y' } }),
+      message({ id: 'msg-2', type: 'assistant', content: 'x is undefined', timestamp: new Date('2026-01-02T03:05:00.000Z') })
+    ]), 'Crash investigation');
+
+    const parsed = parseTranscript(JSON.stringify(original));
+
+    expect(parsed).toEqual(original);
+    expect(parsed.history.messages[1]!.timestamp).toBeInstanceOf(Date);
+    expect(parsed.format).toBe(TRANSCRIPT_FORMAT);
+    expect(parsed.version).toBe(TRANSCRIPT_VERSION);
+  });
+
+  it('rejects invalid JSON and files that are not transcripts', () => {
+    expect(() => parseTranscript('{')).toThrow(/^Invalid JSON/);
+    expect(() => parseTranscript('[]')).toThrow('Not a BuildAI chat transcript.');
+    expect(() => parseTranscript(transcriptJson({ format: 'other' }))).toThrow('Not a BuildAI chat transcript.');
+    expect(() => parseTranscript(JSON.stringify({ format: TRANSCRIPT_FORMAT, version: 1, history: 'none' }))).toThrow('Not a BuildAI chat transcript.');
+  });
+
+  it('rejects missing and newer versions', () => {
+    expect(() => parseTranscript(transcriptJson({ version: '1' }))).toThrow('Unsupported transcript version 1.');
+    expect(() => parseTranscript(transcriptJson({ version: TRANSCRIPT_VERSION + 1 })))
+      .toThrow(`Unsupported transcript version ${TRANSCRIPT_VERSION + 1}.`);
+  });
+
+  it('rejects malformed messages with their index', () => {
+    expect(() => parseTranscript(transcriptJson({}, { messages: {} }))).toThrow('"history.messages" must be an array.');
+    expect(() => parseTranscript(transcriptJson({}, { messages: ['text'] }))).toThrow('history.messages[0] must be an object.');
+    expect(() => parseTranscript(transcriptJson({}, {
+      messages: [
+        { id: 'a', type: 'user', content: 'ok', timestamp: '2026-01-02T03:04:05.000Z' },
+        { id: 'b', type: 'robot', content: 'hi', timestamp: '2026-01-02T03:04:05.000Z' },
+        { id: 'c', type: 'user', content: 'hi', timestamp: 'yesterday' }
+      ]
+    }))).toThrow(/^history\.messages\[1\] needs .* history\.messages\[2\] needs/);
+  });
+
+  it('falls back to message timestamps for bad session dates and drops malformed optional fields', () => {
+    const parsed = parseTranscript(transcriptJson({ title: 42, exportedAt: 'soon' }, {
+      createdAt: 'not a date',
+      lastUpdated: null,
+      context: ['not', 'an', 'object'],
+      rollingSummary: { content: 'partial' },
+      title: ''
+    }));
+
+    expect(parsed.title).toBe('');
+    expect(parsed.exportedAt).toBeInstanceOf(Date);
+    expect(parsed.history.createdAt).toEqual(new Date('2026-01-02T03:04:05.000Z'));
+    expect(parsed.history.lastUpdated).toEqual(new Date('2026-01-02T03:04:05.000Z'));
+    expect(parsed.history.context).toEqual({});
+    expect(parsed.history).not.toHaveProperty('rollingSummary');
+    expect(parsed.history).not.toHaveProperty('title');
+  });
+});
+
+describe('formatTranscriptMarkdown', () => {
+  const toPath = (pathOrUri: string): string => pathOrUri.replace('/workspace/', '');
+
+  it('renders the header, summary, messages and metadata', () => {
+    const markdown = formatTranscriptMarkdown(history([
+      message(),
+      message({
+        id: 'msg-2',
+        type: 'assistant',
+        content: 'It is undefined.',
+        metadata: {
+          model: 'mistral:7b',
+          citations: [{ uri: 'file:///workspace/src/app.ts', path: 'src/app.ts', startLine: 3, endLine: 7 }],
+          relatedFiles: ['/workspace/src/util.ts']
+        }
+      })
+    ]), 'Crash investigation', toPath);
+
+    expect(markdown).toContain('# Crash investigation');
+    expect(markdown).toContain('- **Models:** `mistral:7b`');
+    expect(markdown).toContain('- **Active file:** `src/app.ts`');
+    expect(markdown).toContain('## Summary\n\nDebugging a crash');
+    expect(markdown).toContain('_model `mistral:7b`_');
+    expect(markdown).toContain('**Sources:**\n- `src/app.ts:3-7`');
+    expect(markdown).toContain('**Related files:** `src/util.ts`');
+  });
+
+  it('fences selected code with more backticks than it contains', () => {
+    const selectedText = 'const doc = `\n```ts\nnested\n````\n`;\n';
+    const markdown = formatTranscriptMarkdown(history([
+      message({ context: { activeFile: '/workspace/src/docs.ts', selectedText } })
+    ]), 'Fences', toPath);
+
+    expect(markdown).toContain('Selected code in `src/docs.ts`:\n\n`````ts\nconst doc = `\n```ts\nnested\n````\n`;\n`````');
+  });
+
+  it('uses a plain triple-backtick fence for code without backticks', () => {
+    const markdown = formatTranscriptMarkdown(history([
+      message({ context: { selectedText: 'return 1;' } })
+    ]), 'Plain', toPath);
+
+    expect(markdown).toContain('Selected code:\n\n```\nreturn 1;\n```');
+  });
+});
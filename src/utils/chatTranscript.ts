@@ -0,0 +1,218 @@
+import {
+  ChatContext,
+  ChatMessage,
+  ChatMessageMetadata,
+  ChatTranscript,
+  ConversationHistory,
+  ConversationSummary
+} from '@/types';
+import * as path from 'path';
+
+export const TRANSCRIPT_FORMAT = 'buildai-chat-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+const MESSAGE_TYPES = new Set<ChatMessage['type']>(['user', 'assistant', 'system']);
+
+const ROLE_HEADINGS: Record<ChatMessage['type'], string> = {
+  user: '🧑 You',
+  assistant: '🤖 BuildAI',
+  system: '⚙️ System'
+};
+
+export function toTranscript(history: ConversationHistory, title: string): ChatTranscript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    title,
+    exportedAt: new Date(),
+    history
+  };
+}
+
+/**
+ * Markdown rendering of a conversation for PR descriptions and design docs. toPath turns the
+ * absolute paths and file URIs recorded with the messages into workspace-relative paths.
+ */
+export function formatTranscriptMarkdown(
+  history: ConversationHistory,
+  title: string,
+  toPath: (pathOrUri: string) => string
+): string {
+  const models = [...new Set(history.messages.map(msg => msg.metadata?.model).filter((model): model is string => !!model))];
+  const lines = [
+    `# ${title}`,
+    '',
+    `- **Messages:** ${history.messages.length}`,
+    `- **Started:** ${history.createdAt.toLocaleString()}`,
+    `- **Last updated:** ${history.lastUpdated.toLocaleString()}`,
+    ...(models.length > 0 ? [`- **Models:** ${models.map(model => `\`${model}\``).join(', ')}`] : []),
+    ...(history.context.activeFile ? [`- **Active file:** \`${toPath(history.context.activeFile)}\``] : []),
+    ''
+  ];
+
+  if (history.summary) {
+    lines.push('## Summary', '', history.summary.trim(), '');
+  }
+
+  for (const message of history.messages) {
+    lines.push(...formatMessage(message, toPath));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Read a JSON transcript written from toTranscript, reviving its dates. Throws when the file is
+ * not a transcript or its messages are malformed.
+ */
+export function parseTranscript(text: string): ChatTranscript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isRecord(raw) || raw.format !== TRANSCRIPT_FORMAT || !isRecord(raw.history)) {
+    throw new Error('Not a BuildAI chat transcript.');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || version > TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported transcript version ${String(version)}. Update the extension to import it.`);
+  }
+
+  const history = raw.history;
+  if (!Array.isArray(history.messages)) {
+    throw new Error('"history.messages" must be an array.');
+  }
+
+  const errors: string[] = [];
+  const messages = (history.messages as unknown[])
+    .map((message, i) => parseMessage(message, `history.messages[${i}]`, errors))
+    .filter((message): message is ChatMessage => message !== undefined);
+  if (errors.length > 0) {
+    throw new Error(errors.slice(0, 3).join(' '));
+  }
+
+  const rollingSummary = parseRollingSummary(history.rollingSummary);
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    exportedAt: toDate(raw.exportedAt) ?? new Date(),
+    history: {
+      sessionId: typeof history.sessionId === 'string' ? history.sessionId : '',
+      messages,
+      context: isRecord(history.context) ? history.context as ChatContext : {},
+      ...(typeof history.summary === 'string' && { summary: history.summary }),
+      ...(rollingSummary && { rollingSummary }),
+      ...(typeof history.title === 'string' && history.title && { title: history.title }),
+      createdAt: toDate(history.createdAt) ?? messages[0]?.timestamp ?? new Date(),
+      lastUpdated: toDate(history.lastUpdated) ?? messages[messages.length - 1]?.timestamp ?? new Date()
+    }
+  };
+}
+
+function formatMessage(message: ChatMessage, toPath: (pathOrUri: string) => string): string[] {
+  const lines = ['---', '', `### ${ROLE_HEADINGS[message.type]} · ${message.timestamp.toLocaleString()}`, ''];
+
+  // The selection a question was asked about is part of the question
+  const selectedText = message.type === 'user' ? message.context?.selectedText : undefined;
+  if (selectedText) {
+    const file = message.context?.activeFile;
+    lines.push(
+      file ? `Selected code in \`${toPath(file)}\`:` : 'Selected code:',
+      '',
+      fence(selectedText, file ? path.extname(file).slice(1) : ''),
+      ''
+    );
+  }
+
+  lines.push(message.content.trim(), '');
+  if (message.metadata) {
+    lines.push(...formatMetadata(message.metadata, toPath));
+  }
+  return lines;
+}
+
+function formatMetadata(metadata: ChatMessageMetadata, toPath: (pathOrUri: string) => string): string[] {
+  const usage = metadata.contextUsage;
+  const details = [
+    metadata.model && `model \`${metadata.model}\``,
+    metadata.tokens && `${metadata.tokens} tokens`,
+    metadata.confidence !== undefined && `${Math.round(metadata.confidence * 100)}% confidence`,
+    usage && usage.contextLength > 0 && `${Math.round((usage.promptTokens / usage.contextLength) * 100)}% of a ${usage.contextLength}-token context`,
+    metadata.fileAnalyzed && `analyzed ${metadata.fileAnalyzed}`,
+    metadata.interrupted && 'interrupted',
+    metadata.error && `error: ${metadata.error}`
+  ].filter((detail): detail is string => typeof detail === 'string');
+
+  const lines: string[] = [];
+  if (details.length > 0) {
+    lines.push(`_${details.join(' · ')}_`, '');
+  }
+  if (metadata.citations?.length) {
+    lines.push('**Sources:**', ...metadata.citations.map(citation => `- \`${citation.path}:${citation.startLine}-${citation.endLine}\``), '');
+  }
+  if (metadata.relatedFiles?.length) {
+    lines.push(`**Related files:** ${metadata.relatedFiles.map(file => `\`${toPath(file)}\``).join(', ')}`, '');
+  }
+  if (metadata.suggestions?.length) {
+    lines.push('**Suggestions:**', ...metadata.suggestions.map(suggestion => `- **${suggestion.title}**: ${suggestion.description}`), '');
+  }
+  return lines;
+}
+
+/**
+ * Fenced code block whose fence is longer than any backtick run in the code
+ */
+function fence(code: string, language: string): string {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${code.replace(/\n$/, '')}\n${marker}`;
+}
+
+function parseMessage(raw: unknown, label: string, errors: string[]): ChatMessage | undefined {
+  if (!isRecord(raw)) {
+    errors.push(`${label} must be an object.`);
+    return undefined;
+  }
+
+  const timestamp = toDate(raw.timestamp);
+  if (typeof raw.id !== 'string' || !isMessageType(raw.type) || typeof raw.content !== 'string' || !timestamp) {
+    errors.push(`${label} needs a string id and content, a type of user, assistant or system, and a valid timestamp.`);
+    return undefined;
+  }
+
+  return {
+    id: raw.id,
+    type: raw.type,
+    content: raw.content,
+    timestamp,
+    ...(isRecord(raw.context) && { context: raw.context as ChatContext }),
+    ...(isRecord(raw.metadata) && { metadata: raw.metadata as ChatMessageMetadata })
+  };
+}
+
+function parseRollingSummary(raw: unknown): ConversationSummary | undefined {
+  if (!isRecord(raw) || typeof raw.content !== 'string' || typeof raw.throughMessageId !== 'string' || typeof raw.messageCount !== 'number') {
+    return undefined;
+  }
+  return { content: raw.content, throughMessageId: raw.throughMessageId, messageCount: raw.messageCount };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isMessageType(value: unknown): value is ChatMessage['type'] {
+  return typeof value === 'string' && MESSAGE_TYPES.has(value as ChatMessage['type']);
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,26 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { EmbeddedChunk } from '@/types';
+
+export type ContentChunk = Omit<EmbeddedChunk, 'vector'>;
+
+/**
+ * Overlapping windows of CHUNK_LINES lines; windows with nothing but whitespace are skipped
+ */
+export function chunkContent(content: string): ContentChunk[] {
+  const { CHUNK_LINES, CHUNK_OVERLAP } = DEFAULT_CONFIG.EMBEDDINGS;
+  const lines = content.split(/\r?\n/);
+  const chunks: ContentChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length) - 1;
+    const preview = lines.slice(start, end + 1).map(line => line.trim()).find(line => line.length > 0);
+    if (preview) {
+      chunks.push({ startLine: start, endLine: end, preview: preview.slice(0, 120) });
+    }
+    if (end === lines.length - 1) {
+      break;
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,133 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { AIProviderConfig, AIProviderId, ModelTask } from '@/types';
+import * as vscode from 'vscode';
+
+/**
+ * Root section for all BuildAI settings contributed in package.json
+ */
+export const CONFIG_SECTION = 'balaAnalyzer';
+
+/**
+ * Read the connection settings of the selected provider, falling back to DEFAULT_CONFIG for
+ * anything the user has not configured. Both Ollama providers share the balaAnalyzer.ollama
+ * settings. Credentials are not part of the settings; they are merged in from SecretStorage by
+ * CredentialStore.
+ */
+export function getProviderConfig(): AIProviderConfig {
+  const provider = getSelectedProvider();
+  if (provider === 'openaiCompatible') {
+    const settings = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.openaiCompatible`);
+    const defaults = DEFAULT_CONFIG.OPENAI_COMPATIBLE;
+    // No model name fits every server, so embeddings stay off until one is configured
+    const embeddingModel = settings.get<string>('embeddingModel')?.trim();
+    return {
+      provider,
+      baseURL: settings.get<string>('baseURL') || defaults.BASE_URL,
+      model: settings.get<string>('model') || defaults.MODEL,
+      ...getModelRouting(settings),
+      ...(embeddingModel && { embeddingModel }),
+      contextLength: settings.get<number>('contextLength') ?? 0,
+      timeout: settings.get<number>('timeout') || DEFAULT_CONFIG.OLLAMA.TIMEOUT,
+      maxRetries: DEFAULT_CONFIG.OLLAMA.MAX_RETRIES,
+      capabilities: {
+        streaming: settings.get<boolean>('supportsStreaming', defaults.CAPABILITIES.streaming),
+        jsonMode: settings.get<boolean>('supportsJsonMode', defaults.CAPABILITIES.jsonMode),
+        embeddings: settings.get<boolean>('supportsEmbeddings', defaults.CAPABILITIES.embeddings) && !!embeddingModel
+      }
+    };
+  }
+
+  const settings = vscode.workspace.getConfiguration(`${CONFIG_SECTION}.ollama`);
+  return {
+    provider,
+    baseURL: settings.get<string>('baseURL') || DEFAULT_CONFIG.OLLAMA.BASE_URL,
+    model: settings.get<string>('model') || DEFAULT_CONFIG.OLLAMA.MODEL,
+    ...getModelRouting(settings),
+    embeddingModel: settings.get<string>('embeddingModel') || DEFAULT_CONFIG.OLLAMA.EMBEDDING_MODEL,
+    contextLength: settings.get<number>('contextLength') ?? 0,
+    timeout: settings.get<number>('timeout') || DEFAULT_CONFIG.OLLAMA.TIMEOUT,
+    maxRetries: settings.get<number>('maxRetries') ?? DEFAULT_CONFIG.OLLAMA.MAX_RETRIES
+  };
+}
+
+/**
+ * The modelRouting and fallbackModel settings of a provider section, without unknown tasks and
+ * empty model names
+ */
+function getModelRouting(settings: vscode.WorkspaceConfiguration): Pick<AIProviderConfig, 'modelRouting' | 'fallbackModel'> {
+  const routing = settings.get<Record<string, unknown>>('modelRouting') ?? {};
+  const modelRouting: Partial<Record<ModelTask, string>> = {};
+  for (const task of Object.keys(DEFAULT_CONFIG.MODELS.TASKS) as ModelTask[]) {
+    const model = routing[task];
+    if (typeof model === 'string' && model.trim()) {
+      modelRouting[task] = model.trim();
+    }
+  }
+
+  const fallbackModel = settings.get<string>('fallbackModel')?.trim();
+  return {
+    modelRouting,
+    ...(fallbackModel && { fallbackModel })
+  };
+}
+
+export function getSelectedProvider(): AIProviderId {
+  const provider = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('provider');
+  return provider && provider in DEFAULT_CONFIG.PROVIDERS ? provider as AIProviderId : 'ollama';
+}
+
+/**
+ * Settings section below balaAnalyzer holding the connection settings of provider
+ */
+export function getProviderSection(provider: AIProviderId): 'ollama' | 'openaiCompatible' {
+  return provider === 'openaiCompatible' ? 'openaiCompatible' : 'ollama';
+}
+
+/**
+ * Store the chat and analysis model of provider. With a folder open it goes to the workspace
+ * settings, so each workspace keeps its own model.
+ */
+export async function updateModelSetting(provider: AIProviderId, model: string): Promise<void> {
+  const target = vscode.workspace.workspaceFolders?.length
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await vscode.workspace.getConfiguration(CONFIG_SECTION).update(`${getProviderSection(provider)}.model`, model, target);
+}
+
+/**
+ * Whether a configuration change touches the provider selection or its connection settings
+ */
+export function affectsProviderConfig(event: vscode.ConfigurationChangeEvent): boolean {
+  return event.affectsConfiguration(`${CONFIG_SECTION}.provider`)
+    || event.affectsConfiguration(`${CONFIG_SECTION}.ollama`)
+    || event.affectsConfiguration(`${CONFIG_SECTION}.openaiCompatible`);
+}
+
+/**
+ * Days stored context, analysis results and conversations are kept
+ */
+export function getRetentionDays(): number {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('context.retentionDays', DEFAULT_CONFIG.CONTEXT.RETENTION_DAYS);
+}
+
+/**
+ * Budget for all stored analysis data across workspaces
+ */
+export function getMaxCacheSizeMB(): number {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('cache.maxSizeMB', DEFAULT_CONFIG.CACHE.MAX_SIZE_MB);
+}
+
+/**
+ * Whether a configuration change touches the retention or cache size settings
+ */
+export function affectsHousekeepingConfig(event: vscode.ConfigurationChangeEvent): boolean {
+  return event.affectsConfiguration(`${CONFIG_SECTION}.context.retentionDays`)
+    || event.affectsConfiguration(`${CONFIG_SECTION}.cache.maxSizeMB`);
+}
+
+/**
+ * Whether workspace analysis should reuse stored results for unchanged files
+ */
+export function isIncrementalAnalysisEnabled(): boolean {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('analysis.incremental', true);
+}
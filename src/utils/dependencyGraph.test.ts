@@ -0,0 +1,84 @@
+import { FileRelationship, RelationshipType } from '@/types';
+import { buildDependencyGraph, findCycles } from '@/utils/dependencyGraph';
+import * as vscode from 'vscode';
+
+function edges(...pairs: Array<[string, string]>): Array<{ from: string; to: string }> {
+  return pairs.map(([from, to]) => ({ from, to }));
+}
+
+function sorted(components: string[][]): string[][] {
+  return components.map(component => [...component].sort()).sort((a, b) => a[0]!.localeCompare(b[0]!));
+}
+
+function uri(name: string): vscode.Uri {
+  const value = `file:///workspace/${name}`;
+  return { toString: () => value, fsPath: `/workspace/${name}` } as vscode.Uri;
+}
+
+function relationship(from: string, to: string, type: RelationshipType = RelationshipType.IMPORTS): FileRelationship {
+  return { fromFile: uri(from), toFile: uri(to), type, strength: 0.8, description: `${from} -> ${to}` };
+}
+
+describe('findCycles', () => {
+  it('does not report a self-loop as a cycle', () => {
+    expect(findCycles(['a'], edges(['a', 'a']))).toEqual([]);
+  });
+
+  it('finds a 2-cycle', () => {
+    expect(sorted(findCycles(['a', 'b', 'c'], edges(['a', 'b'], ['b', 'a'], ['b', 'c'])))).toEqual([['a', 'b']]);
+  });
+
+  it('merges nested cycles into one component and keeps separate ones apart', () => {
+    const components = findCycles(
+      ['a', 'b', 'c', 'd', 'x', 'y'],
+      edges(
+        // a -> b -> c -> a with an inner b <-> d loop
+        ['a', 'b'], ['b', 'c'], ['c', 'a'], ['b', 'd'], ['d', 'b'],
+        // A separate cycle reached from the first one
+        ['c', 'x'], ['x', 'y'], ['y', 'x']
+      )
+    );
+
+    expect(sorted(components)).toEqual([['a', 'b', 'c', 'd'], ['x', 'y']]);
+  });
+
+  it('handles a long chain without overflowing the stack', () => {
+    const ids = Array.from({ length: 50000 }, (_, i) => `n${i}`);
+    const chain = ids.slice(1).map((id, i): [string, string] => [ids[i]!, id]);
+
+    expect(findCycles(ids, edges(...chain))).toEqual([]);
+
+    const components = findCycles(ids, edges(...chain, [ids[ids.length - 1]!, ids[0]!]));
+    expect(components).toHaveLength(1);
+    expect(components[0]).toHaveLength(ids.length);
+  });
+
+  it('ignores edges to unknown nodes', () => {
+    expect(findCycles(['a'], edges(['a', 'missing']))).toEqual([]);
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  it('flags import cycles on nodes and edges but not on other relationship types', () => {
+    const graph = buildDependencyGraph([
+      relationship('a.ts', 'b.ts'),
+      relationship('b.ts', 'a.ts'),
+      relationship('b.ts', 'c.ts'),
+      relationship('c.ts', 'b.ts', RelationshipType.CALLS),
+      relationship('c.ts', 'c.ts')
+    ], fileUri => fileUri.fsPath.replace('/workspace/', 'src/'));
+
+    expect(graph.nodes.map(node => [node.label, node.path, node.inCycle])).toEqual([
+      ['a.ts', 'src/a.ts', true],
+      ['b.ts', 'src/b.ts', true],
+      ['c.ts', 'src/c.ts', false]
+    ]);
+    expect(graph.edges.map(edge => [edge.from.split('/').pop(), edge.to.split('/').pop(), edge.inCycle])).toEqual([
+      ['a.ts', 'b.ts', true],
+      ['b.ts', 'a.ts', true],
+      ['b.ts', 'c.ts', false],
+      ['c.ts', 'b.ts', false]
+    ]);
+    expect(graph.cycles).toHaveLength(1);
+  });
+});
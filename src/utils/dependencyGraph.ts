@@ -0,0 +1,125 @@
+import {
+  DependencyGraphData,
+  DependencyGraphEdge,
+  DependencyGraphNode,
+  FileRelationship,
+  RelationshipType
+} from '@/types';
+import type * as vscode from 'vscode';
+
+/**
+ * Turn stored relationships into graph nodes and edges, flagging import cycles
+ */
+export function buildDependencyGraph(relationships: FileRelationship[], toPath: (uri: vscode.Uri) => string): DependencyGraphData {
+  const nodes = new Map<string, DependencyGraphNode>();
+  const addNode = (uri: vscode.Uri): string => {
+    const id = uri.toString();
+    if (!nodes.has(id)) {
+      const relativePath = toPath(uri);
+      nodes.set(id, {
+        id,
+        label: relativePath.split(/[\\/]/).pop() || relativePath,
+        path: relativePath,
+        inCycle: false
+      });
+    }
+    return id;
+  };
+
+  const edges: DependencyGraphEdge[] = relationships
+    .filter(relationship => relationship.fromFile.toString() !== relationship.toFile.toString())
+    .map(relationship => ({
+      from: addNode(relationship.fromFile),
+      to: addNode(relationship.toFile),
+      type: relationship.type,
+      strength: relationship.strength,
+      description: relationship.description,
+      inCycle: false
+    }));
+
+  const importEdges = edges.filter(edge => edge.type === RelationshipType.IMPORTS);
+  const cycles = findCycles([...nodes.keys()], importEdges);
+
+  const componentOf = new Map<string, number>();
+  cycles.forEach((cycle, index) => cycle.forEach(id => componentOf.set(id, index)));
+  for (const id of componentOf.keys()) {
+    nodes.get(id)!.inCycle = true;
+  }
+  for (const edge of importEdges) {
+    const component = componentOf.get(edge.from);
+    edge.inCycle = component !== undefined && component === componentOf.get(edge.to);
+  }
+
+  return { nodes: [...nodes.values()], edges, cycles };
+}
+
+/**
+ * Strongly connected components with more than one node (Tarjan's algorithm, iterative so
+ * long import chains cannot overflow the stack)
+ */
+export function findCycles(nodeIds: string[], edges: Array<{ from: string; to: string }>): string[][] {
+  const adjacency = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  for (const edge of edges) {
+    adjacency.get(edge.from)?.push(edge.to);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const start of nodeIds) {
+    if (index.has(start)) {
+      continue;
+    }
+
+    const work: Array<{ id: string; next: number }> = [{ id: start, next: 0 }];
+    index.set(start, nextIndex);
+    lowLink.set(start, nextIndex++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]!;
+      const neighbours = adjacency.get(frame.id) ?? [];
+
+      if (frame.next < neighbours.length) {
+        const neighbour = neighbours[frame.next++]!;
+        if (!index.has(neighbour)) {
+          index.set(neighbour, nextIndex);
+          lowLink.set(neighbour, nextIndex++);
+          stack.push(neighbour);
+          onStack.add(neighbour);
+          work.push({ id: neighbour, next: 0 });
+        } else if (onStack.has(neighbour)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(neighbour)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLink.set(parent.id, Math.min(lowLink.get(parent.id)!, lowLink.get(frame.id)!));
+      }
+
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string | undefined;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+
+        if (component.length > 1) {
+          components.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return components;
+}
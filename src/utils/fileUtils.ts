@@ -1,3 +1,5 @@
+import { Dirent } from 'fs';
+import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
@@ -76,6 +78,29 @@ export function formatFileSize(bytes: number): string {
   return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
 }
 
+/**
+ * Total size of the files below dirPath, 0 when it does not exist
+ */
+export async function getDirectorySize(dirPath: string): Promise<number> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(entryPath);
+    } else {
+      total += (await fs.stat(entryPath).catch(() => undefined))?.size ?? 0;
+    }
+  }
+  return total;
+}
+
 export function getFileIcon(language: string): string {
   const iconMap: { [key: string]: string } = {
     'typescript': '$(symbol-namespace)',
@@ -0,0 +1,24 @@
+import { extractTerms } from '@/utils/keywords';
+
+describe('extractTerms', () => {
+  it('keeps identifiers whole and splits them at camelCase, snake_case and digit boundaries', () => {
+    expect(extractTerms('validateToken(HTTPServer, max_retry_count2)')).toEqual([
+      'validatetoken', 'validate', 'token', 'httpserver', 'http', 'server', 'max_retry_count2', 'max', 'retry', 'count'
+    ]);
+  });
+
+  it('drops plural endings so questions match singular identifiers', () => {
+    expect(extractTerms('tokens classes handlers')).toEqual(['token', 'class', 'handler']);
+    expect(extractTerms('refreshTokens')).toEqual(extractTerms('refreshToken'));
+  });
+
+  it('lists each term once and skips short words and symbols', () => {
+    expect(extractTerms('if (a.id === token) { return token; } // ok')).toEqual(['token', 'return']);
+  });
+
+  it('keeps only the most frequent terms when limited', () => {
+    expect(extractTerms('alpha beta gamma beta gamma gamma', 2)).toEqual(['gamma', 'beta']);
+    expect(extractTerms('alpha beta gamma', 2)).toEqual(['alpha', 'beta']);
+    expect(extractTerms('alpha beta', 5)).toEqual(['alpha', 'beta']);
+  });
+});
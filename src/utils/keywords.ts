@@ -0,0 +1,29 @@
+// Shorter words match too much to narrow anything down
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Lowercased search terms of text for the keyword index: every identifier whole and split at its
+ * camelCase, snake_case and digit boundaries, with plural endings dropped ("tokens" and
+ * validateToken both give "token"). Each term is listed once. With a limit, only that many of the
+ * most frequent terms are kept, earlier ones first on ties.
+ */
+export function extractTerms(text: string, limit?: number): string[] {
+  const counts = new Map<string, number>();
+  for (const [word] of text.matchAll(/[A-Za-z0-9_$]+/g)) {
+    const parts = word.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? [];
+    for (const term of parts.length > 1 ? [word, ...parts] : [word]) {
+      const stemmed = term.toLowerCase().replace(/(?<=\w{3})e?s$/, '');
+      if (stemmed.length >= MIN_TERM_LENGTH) {
+        counts.set(stemmed, (counts.get(stemmed) ?? 0) + 1);
+      }
+    }
+  }
+
+  if (limit === undefined || counts.size <= limit) {
+    return [...counts.keys()];
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([term]) => term);
+}
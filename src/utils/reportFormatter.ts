@@ -0,0 +1,226 @@
+import {
+  AnalysisReport,
+  AnalysisReportSuggestion,
+  CodeMetrics,
+  ReportFormat,
+  SuggestionCategory,
+  WorkspaceSummary
+} from '@/types';
+import type * as vscode from 'vscode';
+
+const CATEGORY_LABELS: Record<SuggestionCategory, string> = {
+  [SuggestionCategory.SECURITY]: 'Security',
+  [SuggestionCategory.PERFORMANCE]: 'Performance',
+  [SuggestionCategory.MAINTAINABILITY]: 'Maintainability',
+  [SuggestionCategory.READABILITY]: 'Readability',
+  [SuggestionCategory.BEST_PRACTICES]: 'Best Practices'
+};
+
+/**
+ * Flatten a stored WorkspaceSummary into a report. Suggestions and relationships are taken from
+ * the per-file results so that each entry carries the file it belongs to.
+ */
+export function buildAnalysisReport(summary: WorkspaceSummary, toPath: (uri: vscode.Uri) => string): AnalysisReport {
+  const suggestionsByCategory: AnalysisReport['suggestionsByCategory'] = {};
+
+  for (const result of summary.analysisResults) {
+    for (const suggestion of result.suggestions) {
+      const entry: AnalysisReportSuggestion = {
+        file: toPath(result.fileUri),
+        title: suggestion.title,
+        description: suggestion.description,
+        type: suggestion.type,
+        confidence: suggestion.confidence,
+        startLine: suggestion.range.start.line + 1,
+        endLine: suggestion.range.end.line + 1,
+        isApplied: suggestion.isApplied
+      };
+      (suggestionsByCategory[suggestion.category] ??= []).push(entry);
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    analyzedAt: summary.timestamp.toISOString(),
+    totalFiles: summary.totalFiles,
+    analyzedFiles: summary.analysisResults.length,
+    incomplete: summary.incomplete ?? false,
+    overallMetrics: summary.overallMetrics,
+    files: summary.analysisResults.map(result => ({
+      path: toPath(result.fileUri),
+      language: result.language,
+      summary: result.summary,
+      confidence: result.confidence,
+      metrics: result.metrics,
+      suggestionCount: result.suggestions.length
+    })),
+    suggestionsByCategory,
+    relationships: summary.relationships.map(relationship => ({
+      from: toPath(relationship.fromFile),
+      to: toPath(relationship.toFile),
+      type: relationship.type,
+      strength: relationship.strength,
+      description: relationship.description
+    }))
+  };
+}
+
+export function formatReport(report: AnalysisReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'html':
+      return formatHtml(report);
+    default:
+      return formatMarkdown(report);
+  }
+}
+
+/**
+ * Pick the report format from a file name chosen in the save dialog
+ */
+export function getReportFormat(fileName: string): ReportFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') {
+    return 'json';
+  }
+  if (extension === 'html' || extension === 'htm') {
+    return 'html';
+  }
+  return 'markdown';
+}
+
+function formatMarkdown(report: AnalysisReport): string {
+  const lines: string[] = [
+    '# BuildAI Analysis Report',
+    '',
+    `- **Analyzed:** ${report.analyzedAt}`,
+    `- **Files:** ${report.incomplete ? `${report.analyzedFiles} of ${report.totalFiles} (partial run)` : report.totalFiles}`,
+    `- **Lines of Code:** ${report.overallMetrics.linesOfCode}`,
+    `- **Average Complexity:** ${report.overallMetrics.complexity.toFixed(2)}`,
+    `- **Maintainability Index:** ${report.overallMetrics.maintainabilityIndex.toFixed(2)}`,
+    '',
+    '## Files',
+    '',
+    '| File | Language | LOC | Complexity | Maintainability | Tech Debt | Suggestions |',
+    '|------|----------|-----|------------|-----------------|-----------|-------------|',
+    ...report.files.map(file =>
+      `| ${escapeTableCell(file.path)} | ${file.language} | ${formatMetrics(file.metrics).join(' | ')} | ${file.suggestionCount} |`
+    ),
+    '',
+    '## Suggestions'
+  ];
+
+  const categories = getCategories(report);
+  if (categories.length === 0) {
+    lines.push('', '_No suggestions._');
+  }
+  for (const category of categories) {
+    lines.push('', `### ${CATEGORY_LABELS[category]}`, '');
+    for (const suggestion of report.suggestionsByCategory[category] ?? []) {
+      const applied = suggestion.isApplied ? ' _(applied)_' : '';
+      lines.push(
+        `- **${suggestion.title}**${applied} — \`${suggestion.file}:${suggestion.startLine}\` (${suggestion.type}, ${Math.round(suggestion.confidence * 100)}%)`,
+        `  ${suggestion.description}`
+      );
+    }
+  }
+
+  lines.push('', '## Relationships', '');
+  if (report.relationships.length === 0) {
+    lines.push('_No relationships recorded._');
+  } else {
+    lines.push('| From | Type | To | Strength |', '|------|------|----|----------|');
+    lines.push(...report.relationships.map(rel =>
+      `| ${escapeTableCell(rel.from)} | ${rel.type} | ${escapeTableCell(rel.to)} | ${rel.strength.toFixed(2)} |`
+    ));
+  }
+
+  lines.push('', '---', `*Generated by BuildAI Code Analyzer on ${report.generatedAt}*`, '');
+  return lines.join('\n');
+}
+
+function formatHtml(report: AnalysisReport): string {
+  const fileRows = report.files.map(file =>
+    `<tr><td><code>${escapeHtml(file.path)}</code></td><td>${escapeHtml(file.language)}</td>${formatMetrics(file.metrics).map(value => `<td>${value}</td>`).join('')}<td>${file.suggestionCount}</td></tr>`
+  ).join('\n');
+
+  const categories = getCategories(report);
+  const suggestionSections = categories.length === 0
+    ? '<p><em>No suggestions.</em></p>'
+    : categories.map(category => `<h3>${CATEGORY_LABELS[category]}</h3>
+<ul>
+${(report.suggestionsByCategory[category] ?? []).map(suggestion => `<li${suggestion.isApplied ? ' class="applied"' : ''}><strong>${escapeHtml(suggestion.title)}</strong> — <code>${escapeHtml(suggestion.file)}:${suggestion.startLine}</code> (${suggestion.type}, ${Math.round(suggestion.confidence * 100)}%)<br>${escapeHtml(suggestion.description)}</li>`).join('\n')}
+</ul>`).join('\n');
+
+  const relationshipRows = report.relationships.map(rel =>
+    `<tr><td><code>${escapeHtml(rel.from)}</code></td><td>${rel.type}</td><td><code>${escapeHtml(rel.to)}</code></td><td>${rel.strength.toFixed(2)}</td></tr>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>BuildAI Analysis Report</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; line-height: 1.5; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  li { margin-bottom: 0.5rem; }
+  li.applied { opacity: 0.6; }
+</style>
+</head>
+<body>
+<h1>BuildAI Analysis Report</h1>
+<ul>
+  <li><strong>Analyzed:</strong> ${escapeHtml(report.analyzedAt)}</li>
+  <li><strong>Files:</strong> ${report.incomplete ? `${report.analyzedFiles} of ${report.totalFiles} (partial run)` : report.totalFiles}</li>
+  <li><strong>Lines of Code:</strong> ${report.overallMetrics.linesOfCode}</li>
+  <li><strong>Average Complexity:</strong> ${report.overallMetrics.complexity.toFixed(2)}</li>
+  <li><strong>Maintainability Index:</strong> ${report.overallMetrics.maintainabilityIndex.toFixed(2)}</li>
+</ul>
+<h2>Files</h2>
+<table>
+<tr><th>File</th><th>Language</th><th>LOC</th><th>Complexity</th><th>Maintainability</th><th>Tech Debt</th><th>Suggestions</th></tr>
+${fileRows}
+</table>
+<h2>Suggestions</h2>
+${suggestionSections}
+<h2>Relationships</h2>
+${report.relationships.length === 0 ? '<p><em>No relationships recorded.</em></p>' : `<table>
+<tr><th>From</th><th>Type</th><th>To</th><th>Strength</th></tr>
+${relationshipRows}
+</table>`}
+<hr>
+<p><em>Generated by BuildAI Code Analyzer on ${escapeHtml(report.generatedAt)}</em></p>
+</body>
+</html>
+`;
+}
+
+function getCategories(report: AnalysisReport): SuggestionCategory[] {
+  return (Object.keys(CATEGORY_LABELS) as SuggestionCategory[])
+    .filter(category => (report.suggestionsByCategory[category]?.length ?? 0) > 0);
+}
+
+function formatMetrics(metrics: CodeMetrics): string[] {
+  return [
+    String(metrics.linesOfCode),
+    metrics.complexity.toFixed(2),
+    metrics.maintainabilityIndex.toFixed(2),
+    metrics.technicalDebt.toFixed(2)
+  ];
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,129 @@
+import { AnalysisResult, Suggestion, SuggestionCategory, SuggestionType } from '@/types';
+import { getRuleId, getSarifLevel, toSarif } from '@/utils/sarif';
+import * as vscode from 'vscode';
+
+const ROOT = 'file:///workspace/project';
+
+function suggestion(overrides: Partial<Suggestion> = {}): Suggestion {
+  return {
+    id: 'suggestion-1',
+    type: SuggestionType.BUG_FIX,
+    title: 'Check for null',
+    description: 'The value can be undefined here',
+    confidence: 0.9,
+    range: { start: { line: 0, character: 0 }, end: { line: 2, character: 4 } } as vscode.Range,
+    originalCode: 'value.length',
+    suggestedCode: 'value?.length',
+    category: SuggestionCategory.MAINTAINABILITY,
+    isApplied: false,
+    ...overrides
+  };
+}
+
+function analysisResult(uri: string, suggestions: Suggestion[]): AnalysisResult {
+  return {
+    fileUri: { toString: () => uri } as vscode.Uri,
+    language: 'typescript',
+    summary: '',
+    suggestions,
+    relationships: [],
+    metrics: { linesOfCode: 0, complexity: 0, maintainabilityIndex: 0, technicalDebt: 0 },
+    timestamp: new Date(0),
+    confidence: 0.8
+  };
+}
+
+describe('toSarif', () => {
+  it('lists each rule once and points results at its index', () => {
+    const log = toSarif([
+      analysisResult(`${ROOT}/a.ts`, [
+        suggestion({ id: 'a1' }),
+        suggestion({ id: 'a2', type: SuggestionType.SECURITY, category: SuggestionCategory.SECURITY })
+      ]),
+      analysisResult(`${ROOT}/b.ts`, [suggestion({ id: 'b1' })])
+    ], { toolVersion: '1.0.0' });
+
+    const run = log.runs[0]!;
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([
+      getRuleId(SuggestionType.BUG_FIX, SuggestionCategory.MAINTAINABILITY),
+      getRuleId(SuggestionType.SECURITY, SuggestionCategory.SECURITY)
+    ]);
+    expect(run.results.map(result => [result.properties.suggestionId, result.ruleIndex])).toEqual([
+      ['a1', 0],
+      ['a2', 1],
+      ['b1', 0]
+    ]);
+    expect(run.results.map(result => result.level)).toEqual(['warning', 'error', 'warning']);
+  });
+
+  it('converts 0-based ranges to 1-based regions', () => {
+    const log = toSarif([
+      analysisResult(`${ROOT}/a.ts`, [
+        suggestion({ range: { start: { line: 4, character: 2 }, end: { line: 6, character: 10 } } as vscode.Range })
+      ])
+    ], { toolVersion: '1.0.0' });
+
+    expect(log.runs[0]!.results[0]!.locations[0]!.physicalLocation.region).toEqual({
+      startLine: 5,
+      startColumn: 3,
+      endLine: 7,
+      endColumn: 11,
+      snippet: { text: 'value.length' }
+    });
+  });
+
+  it('skips applied suggestions', () => {
+    const log = toSarif([
+      analysisResult(`${ROOT}/a.ts`, [suggestion({ id: 'open' }), suggestion({ id: 'applied', isApplied: true })])
+    ], { toolVersion: '1.0.0' });
+
+    expect(log.runs[0]!.results.map(result => result.properties.suggestionId)).toEqual(['open']);
+  });
+
+  it('adds a fix only when the suggested code differs', () => {
+    const log = toSarif([
+      analysisResult(`${ROOT}/a.ts`, [
+        suggestion({ id: 'fix' }),
+        suggestion({ id: 'advice', suggestedCode: 'value.length' })
+      ])
+    ], { toolVersion: '1.0.0' });
+
+    const [fix, advice] = log.runs[0]!.results;
+    expect(fix!.fixes?.[0]?.artifactChanges[0]?.replacements[0]).toEqual({
+      deletedRegion: { startLine: 1, startColumn: 1, endLine: 3, endColumn: 5 },
+      insertedContent: { text: 'value?.length' }
+    });
+    expect(advice!.fixes).toBeUndefined();
+  });
+
+  it('writes files under the root relative to SRCROOT', () => {
+    const log = toSarif({
+      analysisResults: [
+        analysisResult(`${ROOT}/src/a.ts`, [suggestion()]),
+        analysisResult('file:///elsewhere/b.ts', [suggestion()])
+      ]
+    } as Parameters<typeof toSarif>[0], { toolVersion: '1.0.0', rootUri: `${ROOT}/` });
+
+    const run = log.runs[0]!;
+    expect(run.originalUriBaseIds).toEqual({ SRCROOT: { uri: `${ROOT}/` } });
+    expect(run.results.map(result => result.locations[0]!.physicalLocation.artifactLocation)).toEqual([
+      { uri: 'src/a.ts', uriBaseId: 'SRCROOT' },
+      { uri: 'file:///elsewhere/b.ts' }
+    ]);
+  });
+
+  it('leaves URIs absolute without a root', () => {
+    const log = toSarif([analysisResult(`${ROOT}/a.ts`, [suggestion()])], { toolVersion: '1.0.0' });
+
+    expect(log.runs[0]!.originalUriBaseIds).toBeUndefined();
+    expect(log.runs[0]!.results[0]!.locations[0]!.physicalLocation.artifactLocation).toEqual({ uri: `${ROOT}/a.ts` });
+  });
+});
+
+describe('getSarifLevel', () => {
+  it('maps security to error, bug fixes to warning and the rest to note', () => {
+    expect(getSarifLevel(SuggestionType.SECURITY)).toBe('error');
+    expect(getSarifLevel(SuggestionType.BUG_FIX)).toBe('warning');
+    expect(getSarifLevel(SuggestionType.STYLE)).toBe('note');
+  });
+});
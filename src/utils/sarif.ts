@@ -0,0 +1,161 @@
+import {
+  AnalysisResult,
+  SarifArtifactLocation,
+  SarifExportOptions,
+  SarifLevel,
+  SarifLog,
+  SarifRegion,
+  SarifResult,
+  SarifRule,
+  Suggestion,
+  SuggestionCategory,
+  SuggestionType,
+  WorkspaceSummary
+} from '@/types';
+
+// This module only reads plain properties of Uri/Range values and never imports 'vscode' at
+// runtime, so it can run outside the extension host (CI scripts, unit tests)
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'BuildAI Code Analyzer';
+const SRCROOT = 'SRCROOT';
+
+/**
+ * Serialize analysis results to a SARIF 2.1.0 log. Each unapplied suggestion becomes a result
+ * whose rule is derived from its type and category; suggestions with replacement code carry a fix.
+ */
+export function toSarif(source: WorkspaceSummary | AnalysisResult[], options: SarifExportOptions): SarifLog {
+  const results = Array.isArray(source) ? source : source.analysisResults;
+  const root = options.rootUri?.replace(/\/+$/, '');
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const sarifResults: SarifResult[] = [];
+
+  for (const result of results) {
+    const artifactLocation = toArtifactLocation(result.fileUri.toString(), root);
+
+    for (const suggestion of result.suggestions) {
+      if (suggestion.isApplied) {
+        continue;
+      }
+
+      const ruleId = getRuleId(suggestion.type, suggestion.category);
+      let ruleIndex = ruleIndexes.get(ruleId);
+      if (ruleIndex === undefined) {
+        ruleIndex = rules.push(createRule(suggestion.type, suggestion.category)) - 1;
+        ruleIndexes.set(ruleId, ruleIndex);
+      }
+
+      sarifResults.push(createResult(suggestion, ruleId, ruleIndex, artifactLocation));
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: options.toolVersion,
+          rules
+        }
+      },
+      ...(root && { originalUriBaseIds: { [SRCROOT]: { uri: `${root}/` } } }),
+      results: sarifResults
+    }]
+  };
+}
+
+export function getRuleId(type: SuggestionType, category: SuggestionCategory): string {
+  return `buildai/${type}/${category}`;
+}
+
+/**
+ * Same severity scale as the Problems panel diagnostics
+ */
+export function getSarifLevel(type: SuggestionType): SarifLevel {
+  switch (type) {
+    case SuggestionType.SECURITY:
+      return 'error';
+    case SuggestionType.BUG_FIX:
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+function createRule(type: SuggestionType, category: SuggestionCategory): SarifRule {
+  return {
+    id: getRuleId(type, category),
+    name: `${toPascalCase(type)}${toPascalCase(category)}`,
+    shortDescription: { text: `${toWords(type)} suggestion (${toWords(category)})` },
+    defaultConfiguration: { level: getSarifLevel(type) },
+    properties: { tags: [type, category] }
+  };
+}
+
+function createResult(
+  suggestion: Suggestion,
+  ruleId: string,
+  ruleIndex: number,
+  artifactLocation: SarifArtifactLocation
+): SarifResult {
+  const region = toRegion(suggestion);
+  const hasFix = suggestion.suggestedCode !== suggestion.originalCode;
+
+  return {
+    ruleId,
+    ruleIndex,
+    level: getSarifLevel(suggestion.type),
+    message: { text: suggestion.description ? `${suggestion.title}: ${suggestion.description}` : suggestion.title },
+    locations: [{
+      physicalLocation: {
+        artifactLocation,
+        region: suggestion.originalCode ? { ...region, snippet: { text: suggestion.originalCode } } : region
+      }
+    }],
+    ...(hasFix && {
+      fixes: [{
+        description: { text: suggestion.title },
+        artifactChanges: [{
+          artifactLocation,
+          replacements: [{ deletedRegion: region, insertedContent: { text: suggestion.suggestedCode } }]
+        }]
+      }]
+    }),
+    properties: {
+      suggestionId: suggestion.id,
+      confidence: suggestion.confidence
+    }
+  };
+}
+
+/**
+ * SARIF lines and columns are 1-based; VSCode ranges are 0-based
+ */
+function toRegion(suggestion: Suggestion): SarifRegion {
+  const { start, end } = suggestion.range;
+  return {
+    startLine: start.line + 1,
+    startColumn: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1
+  };
+}
+
+function toArtifactLocation(uri: string, root: string | undefined): SarifArtifactLocation {
+  if (root && uri.startsWith(`${root}/`)) {
+    return { uri: uri.substring(root.length + 1), uriBaseId: SRCROOT };
+  }
+  return { uri };
+}
+
+function toPascalCase(value: string): string {
+  return value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+}
+
+function toWords(value: string): string {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,148 @@
+import { SuggestionCategory, SuggestionType } from '@/types';
+import { buildRepairPrompt, numberLines, parseStructuredAnalysis, STRUCTURED_OUTPUT_SCHEMA } from '@/utils/structuredOutput';
+
+function suggestion(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    title: 'Guard against null',
+    description: 'value can be undefined',
+    type: 'bug_fix',
+    category: 'maintainability',
+    confidence: 0.8,
+    startLine: 2,
+    endLine: 3,
+    replacement: 'value?.length',
+    ...overrides
+  };
+}
+
+function response(suggestions: unknown[], summary: unknown = 'Counts items'): string {
+  return JSON.stringify({ summary, suggestions });
+}
+
+describe('parseStructuredAnalysis', () => {
+  it('returns a valid response unchanged apart from trimming', () => {
+    const result = parseStructuredAnalysis(response([suggestion({ title: '  Guard against null ' })], ' Counts items '), 10);
+
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({
+      summary: 'Counts items',
+      suggestions: [{
+        title: 'Guard against null',
+        description: 'value can be undefined',
+        type: SuggestionType.BUG_FIX,
+        category: SuggestionCategory.MAINTAINABILITY,
+        confidence: 0.8,
+        startLine: 2,
+        endLine: 3,
+        replacement: 'value?.length'
+      }]
+    });
+  });
+
+  it('reads JSON from a code fence or surrounding prose', () => {
+    const json = response([]);
+    expect(parseStructuredAnalysis(`Here you go:\n\`\`\`json\n${json}\n\`\`\`\nDone.`, 10).value).toEqual({ summary: 'Counts items', suggestions: [] });
+    expect(parseStructuredAnalysis(`Result: ${json} (end)`, 10).value).toEqual({ summary: 'Counts items', suggestions: [] });
+  });
+
+  it('reports malformed JSON and a wrong top-level shape', () => {
+    expect(parseStructuredAnalysis('No JSON here', 10)).toEqual({ errors: ['Response does not contain a JSON object.'] });
+    expect(parseStructuredAnalysis('{"summary": "x", "suggestions": [}', 10).errors[0]).toMatch(/^Invalid JSON: /);
+    expect(parseStructuredAnalysis('{"summary": 1, "suggestions": {}}', 10)).toEqual({
+      errors: ['"summary" must be a string.', '"suggestions" must be an array.']
+    });
+  });
+
+  it('drops and reports suggestions outside the file or with a reversed range', () => {
+    const result = parseStructuredAnalysis(response([
+      suggestion(),
+      suggestion({ startLine: 0, endLine: 1 }),
+      suggestion({ startLine: 4, endLine: 12 }),
+      suggestion({ startLine: 5, endLine: 4 }),
+      suggestion({ startLine: 'two', endLine: 3 })
+    ]), 10);
+
+    expect(result.value?.suggestions).toHaveLength(1);
+    expect(result.errors).toEqual([
+      'suggestions[1] has line range 0-1, but the file has lines 1-10 and endLine must not precede startLine.',
+      'suggestions[2] has line range 4-12, but the file has lines 1-10 and endLine must not precede startLine.',
+      'suggestions[3] has line range 5-4, but the file has lines 1-10 and endLine must not precede startLine.',
+      'suggestions[4].startLine and suggestions[4].endLine must be integers.'
+    ]);
+  });
+
+  it('accepts enum values in any casing and separator style but rejects unknown ones', () => {
+    const result = parseStructuredAnalysis(response([
+      suggestion({ type: 'Bug Fix', category: 'MAINTAINABILITY' }),
+      suggestion({ type: 'bug-fix', category: 'maintainability' }),
+      suggestion({ type: 'rewrite', category: 'style' })
+    ]), 10);
+
+    expect(result.value?.suggestions.map(item => [item.type, item.category])).toEqual([
+      [SuggestionType.BUG_FIX, SuggestionCategory.MAINTAINABILITY],
+      [SuggestionType.BUG_FIX, SuggestionCategory.MAINTAINABILITY]
+    ]);
+    expect(result.errors).toEqual([
+      `suggestions[2].type must be one of: ${Object.values(SuggestionType).join(', ')}.`,
+      `suggestions[2].category must be one of: ${Object.values(SuggestionCategory).join(', ')}.`
+    ]);
+  });
+
+  it('normalizes confidence labels, numeric strings and percentages', () => {
+    const confidences = ['high', 'Medium', 'low', '0.55', 85, 1, 0];
+    const result = parseStructuredAnalysis(response(confidences.map(confidence => suggestion({ confidence }))), 10);
+
+    expect(result.errors).toEqual([]);
+    expect(result.value?.suggestions.map(item => item.confidence)).toEqual([0.9, 0.7, 0.4, 0.55, 0.85, 1, 0]);
+  });
+
+  it('rejects confidence values that cannot be read as a probability', () => {
+    const result = parseStructuredAnalysis(response([
+      suggestion({ confidence: 'very sure' }),
+      suggestion({ confidence: 150 }),
+      suggestion({ confidence: -0.1 }),
+      suggestion({ confidence: null }),
+      suggestion({ confidence: 'constructor' }),
+      suggestion({ confidence: 'toString' })
+    ]), 10);
+
+    expect(result.value?.suggestions).toEqual([]);
+    expect(result.errors).toEqual([0, 1, 2, 3, 4, 5].map(index => `suggestions[${index}].confidence must be a number between 0 and 1.`));
+  });
+
+  it('validates titles, replacements and the suggestion shape', () => {
+    const result = parseStructuredAnalysis(response([
+      suggestion({ title: '   ' }),
+      suggestion({ replacement: 42 }),
+      suggestion({ replacement: undefined, description: 7 }),
+      'not an object'
+    ]), 10);
+
+    expect(result.errors).toEqual([
+      'suggestions[0].title must be a non-empty string.',
+      'suggestions[1].replacement must be a string or null.',
+      'suggestions[3] must be an object.'
+    ]);
+    expect(result.value?.suggestions).toEqual([expect.objectContaining({ description: '', replacement: null })]);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('lists every error and repeats the schema', () => {
+    const prompt = buildRepairPrompt(['"summary" must be a string.', 'suggestions[0] must be an object.']);
+
+    expect(prompt).toContain('- "summary" must be a string.\n- suggestions[0] must be an object.');
+    expect(prompt).toContain('ONLY a JSON object');
+    expect(prompt.endsWith(STRUCTURED_OUTPUT_SCHEMA)).toBe(true);
+  });
+});
+
+describe('numberLines', () => {
+  it('prefixes lines with right-aligned 1-based numbers', () => {
+    const content = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\r\n');
+    const numbered = numberLines(content).split('\n');
+
+    expect(numbered[0]).toBe(' 1| line 1');
+    expect(numbered[9]).toBe('10| line 10');
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  StructuredAnalysisPayload,
+  StructuredSuggestionPayload,
+  SuggestionCategory,
+  SuggestionType
+} from '@/types';
+
+/**
+ * JSON contract included in analysis and suggestion prompts
+ */
+export const STRUCTURED_OUTPUT_SCHEMA = `{
+  "summary": string,               // 1-3 sentences describing what the code does
+  "suggestions": [
+    {
+      "title": string,             // short imperative title
+      "description": string,       // why the change helps
+      "type": "${Object.values(SuggestionType).join('" | "')}",
+      "category": "${Object.values(SuggestionCategory).join('" | "')}",
+      "confidence": number,        // 0.0 - 1.0
+      "startLine": number,         // first affected line, 1-based, as numbered in the code
+      "endLine": number,           // last affected line, 1-based, inclusive
+      "replacement": string | null // exact code replacing lines startLine..endLine, null if advisory only
+    }
+  ]
+}`;
+
+export interface StructuredParseResult {
+  value?: StructuredAnalysisPayload; // Present once the top-level shape is valid
+  errors: string[]; // Empty when the whole response matched the schema
+}
+
+/**
+ * Parse and validate a model response against STRUCTURED_OUTPUT_SCHEMA.
+ * Recoverable deviations (code fences, "high"/"low" confidence, enum casing) are normalized;
+ * anything else is reported in errors so the caller can ask the model to repair its output.
+ */
+export function parseStructuredAnalysis(response: string, lineCount: number): StructuredParseResult {
+  const json = extractJson(response);
+  if (!json) {
+    return { errors: ['Response does not contain a JSON object.'] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!isRecord(raw)) {
+    return { errors: ['Top-level value must be an object with "summary" and "suggestions".'] };
+  }
+  const { summary, suggestions: items } = raw;
+  const errors: string[] = [];
+  if (typeof summary !== 'string') {
+    errors.push('"summary" must be a string.');
+  }
+  if (!Array.isArray(items)) {
+    errors.push('"suggestions" must be an array.');
+  }
+  if (typeof summary !== 'string' || !Array.isArray(items)) {
+    return { errors };
+  }
+
+  const suggestions: StructuredSuggestionPayload[] = [];
+  (items as unknown[]).forEach((item, index) => {
+    const suggestion = validateSuggestion(item, lineCount, `suggestions[${index}]`, errors);
+    if (suggestion) {
+      suggestions.push(suggestion);
+    }
+  });
+
+  // Invalid suggestions are dropped from value but still reported, so a caller that has run out of
+  // repair attempts can fall back to the valid part of the response
+  return { value: { summary: summary.trim(), suggestions }, errors };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous response
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response could not be used:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with ONLY a JSON object that matches this schema exactly, with no markdown fences or commentary:
+${STRUCTURED_OUTPUT_SCHEMA}`;
+}
+
+/**
+ * Prefix each line with its 1-based number so the model can report accurate line ranges
+ */
+export function numberLines(content: string): string {
+  const lines = content.split(/\r?\n/);
+  const width = String(lines.length).length;
+  return lines.map((line, index) => `${String(index + 1).padStart(width, ' ')}| ${line}`).join('\n');
+}
+
+function extractJson(response: string): string | undefined {
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const candidate = fenced?.[1] ?? response;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start >= 0 && end > start ? candidate.substring(start, end + 1) : undefined;
+}
+
+function validateSuggestion(
+  item: unknown,
+  lineCount: number,
+  label: string,
+  errors: string[]
+): StructuredSuggestionPayload | undefined {
+  if (!isRecord(item)) {
+    errors.push(`${label} must be an object.`);
+    return undefined;
+  }
+
+  const errorCount = errors.length;
+  const title = typeof item.title === 'string' ? item.title.trim() : '';
+  if (!title) {
+    errors.push(`${label}.title must be a non-empty string.`);
+  }
+
+  const type = matchEnum(Object.values(SuggestionType), item.type);
+  if (!type) {
+    errors.push(`${label}.type must be one of: ${Object.values(SuggestionType).join(', ')}.`);
+  }
+
+  const category = matchEnum(Object.values(SuggestionCategory), item.category);
+  if (!category) {
+    errors.push(`${label}.category must be one of: ${Object.values(SuggestionCategory).join(', ')}.`);
+  }
+
+  const confidence = normalizeConfidence(item.confidence);
+  if (confidence === undefined) {
+    errors.push(`${label}.confidence must be a number between 0 and 1.`);
+  }
+
+  const startLine = Number(item.startLine);
+  const endLine = Number(item.endLine);
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    errors.push(`${label}.startLine and ${label}.endLine must be integers.`);
+  } else if (startLine < 1 || endLine < startLine || endLine > lineCount) {
+    errors.push(`${label} has line range ${startLine}-${endLine}, but the file has lines 1-${lineCount} and endLine must not precede startLine.`);
+  }
+
+  if (item.replacement !== null && item.replacement !== undefined && typeof item.replacement !== 'string') {
+    errors.push(`${label}.replacement must be a string or null.`);
+  }
+
+  if (errors.length > errorCount || !type || !category || confidence === undefined) {
+    return undefined;
+  }
+
+  return {
+    title,
+    description: typeof item.description === 'string' ? item.description.trim() : '',
+    type,
+    category,
+    confidence,
+    startLine,
+    endLine,
+    replacement: typeof item.replacement === 'string' ? item.replacement : null
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function matchEnum<T extends string>(values: T[], input: unknown): T | undefined {
+  if (typeof input !== 'string') {
+    return undefined;
+  }
+  const normalized = input.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return values.find(value => value === normalized);
+}
+
+// Confidence some models give as a word instead of a number
+const CONFIDENCE_LABELS = new Map<string, number>([['high', 0.9], ['medium', 0.7], ['low', 0.4]]);
+
+function normalizeConfidence(input: unknown): number | undefined {
+  if (typeof input === 'string') {
+    const label = CONFIDENCE_LABELS.get(input.trim().toLowerCase());
+    if (label !== undefined) {
+      return label;
+    }
+    input = Number(input);
+  }
+  if (typeof input !== 'number' || Number.isNaN(input)) {
+    return undefined;
+  }
+  // Accept percentages as well as fractions
+  const value = input > 1 && input <= 100 ? input / 100 : input;
+  return value >= 0 && value <= 1 ? value : undefined;
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_CONFIG } from '@/constants/defaults';
+import { countMessageTokens, countTokens, fitMessages, getModelContextLength } from '@/utils/tokenBudget';
+
+describe('countTokens', () => {
+  it('counts o200k_base tokens', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('hello world')).toBe(2);
+    expect(countTokens('function validateToken(tokens) { return tokens.length > 0; }')).toBe(14);
+  });
+
+  it('counts special token markers as plain text', () => {
+    expect(countTokens('a <|endoftext|> b')).toBe(9);
+  });
+
+  it('tokenizes a long unbroken run in slices', () => {
+    const run = 'x'.repeat(100000);
+    const started = Date.now();
+    const count = countTokens(run);
+
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(count).toBeGreaterThan(100000 / 16);
+    expect(count).toBeLessThan(100000 / 4);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('adds the per-message overhead and the reply priming', () => {
+    expect(countMessageTokens([])).toBe(3);
+    expect(countMessageTokens([{ content: 'hello world' }, { content: '' }])).toBe(3 + (4 + 2) + 4);
+  });
+});
+
+describe('fitMessages', () => {
+  const messages = [
+    { id: 1, content: 'hello world' },
+    { id: 2, content: 'hello world' },
+    { id: 3, content: 'hello world' }
+  ];
+
+  it('keeps the newest messages that fit, in order', () => {
+    // Each message takes 4 + 2 tokens after the 3 tokens of reply priming
+    expect(fitMessages(messages, 3 + 6 * 3)).toEqual(messages);
+    expect(fitMessages(messages, 3 + 6 * 3 - 1).map(message => message.id)).toEqual([2, 3]);
+    expect(fitMessages(messages, 3 + 6).map(message => message.id)).toEqual([3]);
+  });
+
+  it('drops everything before a message that does not fit', () => {
+    const withLongMiddle = [messages[0]!, { id: 9, content: 'word '.repeat(100) }, messages[2]!];
+    expect(fitMessages(withLongMiddle, 50).map(message => message.id)).toEqual([3]);
+  });
+
+  it('returns nothing when the budget is used up', () => {
+    expect(fitMessages(messages, 5)).toEqual([]);
+    expect(fitMessages(messages, -100)).toEqual([]);
+    expect(fitMessages([], 100)).toEqual([]);
+  });
+});
+
+describe('getModelContextLength', () => {
+  it('matches the full name, then the family, then falls back to the default', () => {
+    expect(getModelContextLength('gemma3:1b')).toBe(32768);
+    expect(getModelContextLength('gemma3:27b')).toBe(131072);
+    expect(getModelContextLength('Mistral:latest')).toBe(32768);
+    expect(getModelContextLength('unknown-model:7b')).toBe(DEFAULT_CONFIG.CHAT.DEFAULT_CONTEXT_LENGTH);
+  });
+});
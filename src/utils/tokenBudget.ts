@@ -0,0 +1,56 @@
+import { DEFAULT_CONFIG, normalizeModelName } from '@/constants/defaults';
+import { countTokens as countBpeTokens } from 'gpt-tokenizer';
+
+// BPE merging slows down quadratically on a long run without spaces or punctuation, such as
+// minified code or base64, so text is tokenized in slices of at most this many characters
+const SEGMENT_PATTERN = /[\s\S]{1,4096}/gu;
+
+// Special token markers in the text, such as <|endoftext|> in a source file, count as plain text
+const ENCODE_OPTIONS = { disallowedSpecial: new Set<string>() };
+
+// Chat templates wrap every message in role markers, and the reply starts with one
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Token count of text in the o200k_base BPE vocabulary. The vocabularies of Llama 3 and Tekken
+ * (Mistral NeMo, Devstral) are built the same way and give close counts; models with a small
+ * SentencePiece vocabulary, such as Mistral 7B, split text into somewhat more tokens.
+ */
+export function countTokens(text: string): number {
+  let count = 0;
+  for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+    count += countBpeTokens(segment, ENCODE_OPTIONS);
+  }
+  return count;
+}
+
+export function countMessageTokens(messages: Array<{ content: string }>): number {
+  return messages.reduce((sum, message) => sum + MESSAGE_OVERHEAD_TOKENS + countTokens(message.content), REPLY_PRIMING_TOKENS);
+}
+
+/**
+ * The newest messages that fit in maxTokens, in their original order
+ */
+export function fitMessages<T extends { content: string }>(messages: T[], maxTokens: number): T[] {
+  let used = REPLY_PRIMING_TOKENS;
+  let start = messages.length;
+  while (start > 0) {
+    const tokens = MESSAGE_OVERHEAD_TOKENS + countTokens(messages[start - 1]!.content);
+    if (used + tokens > maxTokens) {
+      break;
+    }
+    used += tokens;
+    start--;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Context window of a model from the table of known models, by full name and then by family
+ */
+export function getModelContextLength(model: string): number {
+  const lengths: Record<string, number> = DEFAULT_CONFIG.MODEL_CONTEXT_LENGTHS;
+  const name = normalizeModelName(model);
+  return lengths[name] ?? lengths[name.split(':')[0]!] ?? DEFAULT_CONFIG.CHAT.DEFAULT_CONTEXT_LENGTH;
+}
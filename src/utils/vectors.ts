@@ -0,0 +1,28 @@
+/**
+ * Scale a vector to unit length so similarity is a plain dot product
+ */
+export function normalize(vector: number[]): Float32Array {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return Float32Array.from(vector, value => (length > 0 ? value / length : 0));
+}
+
+export function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+export function decodeVector(encoded: string): Float32Array {
+  // Copy out of the decoded buffer, whose offset into Node's pool is not 4-byte aligned
+  const bytes = Buffer.from(encoded, 'base64');
+  const vector = new Float32Array(bytes.length / Float32Array.BYTES_PER_ELEMENT);
+  new Uint8Array(vector.buffer).set(bytes);
+  return vector;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
@@ -0,0 +1,62 @@
+import { AnalysisResult, CodeMetrics, FileRelationship, WorkspaceSummary } from '@/types';
+import type * as vscode from 'vscode';
+
+export function computeOverallMetrics(results: AnalysisResult[]): CodeMetrics {
+  const totalLines = results.reduce((sum, r) => sum + r.metrics.linesOfCode, 0);
+  const avgComplexity = results.length ? results.reduce((sum, r) => sum + r.metrics.complexity, 0) / results.length : 0;
+
+  return {
+    linesOfCode: totalLines,
+    complexity: avgComplexity,
+    maintainabilityIndex: Math.max(0, 100 - avgComplexity * 2),
+    technicalDebt: Math.max(0, avgComplexity - 10)
+  };
+}
+
+/**
+ * The part of a summary whose files match contains. Files that failed to analyze have no result,
+ * so totalFiles only counts the analyzed ones.
+ */
+export function filterWorkspaceSummary(summary: WorkspaceSummary, contains: (uri: vscode.Uri) => boolean): WorkspaceSummary {
+  const analysisResults = summary.analysisResults.filter(result => contains(result.fileUri));
+
+  return {
+    totalFiles: analysisResults.length,
+    analysisResults,
+    overallMetrics: computeOverallMetrics(analysisResults),
+    relationships: summary.relationships.filter(relationship => contains(relationship.fromFile)),
+    suggestions: analysisResults.flatMap(result => result.suggestions),
+    timestamp: summary.timestamp,
+    ...(summary.incomplete && { incomplete: true })
+  };
+}
+
+/**
+ * Combine per-folder summaries of a multi-root workspace into one
+ */
+export function mergeWorkspaceSummaries(summaries: WorkspaceSummary[]): WorkspaceSummary | undefined {
+  if (summaries.length <= 1) {
+    return summaries[0];
+  }
+
+  const analysisResults = summaries.flatMap(summary => summary.analysisResults);
+  const relationships = new Map<string, FileRelationship>();
+  for (const relationship of summaries.flatMap(summary => summary.relationships)) {
+    relationships.set(`${relationship.fromFile.toString()}|${relationship.toFile.toString()}|${relationship.type}`, relationship);
+  }
+  const incremental = summaries.filter(summary => summary.skippedFiles !== undefined);
+
+  return {
+    totalFiles: summaries.reduce((sum, summary) => sum + summary.totalFiles, 0),
+    analysisResults,
+    overallMetrics: computeOverallMetrics(analysisResults),
+    relationships: [...relationships.values()],
+    suggestions: summaries.flatMap(summary => summary.suggestions),
+    timestamp: new Date(Math.max(...summaries.map(summary => summary.timestamp.getTime()))),
+    ...(summaries.some(summary => summary.incomplete) && { incomplete: true }),
+    ...(incremental.length > 0 && {
+      skippedFiles: incremental.reduce((sum, summary) => sum + (summary.skippedFiles ?? 0), 0),
+      reanalyzedFiles: incremental.reduce((sum, summary) => sum + (summary.reanalyzedFiles ?? 0), 0)
+    })
+  };
+}
@@ -10,8 +10,13 @@ const OpenAI = require('openai');
 
 // Configuration
 const OLLAMA_BASE_URL = 'https://gpu1.oginnovation.com:11434/v1';
-const OLLAMA_USERNAME = process.env.OLLAMA_USERNAME || 'bala';
-const OLLAMA_PASSWORD = process.env.OLLAMA_PASSWORD || 'Isys@969Isys@969';
+const OLLAMA_USERNAME = process.env.OLLAMA_USERNAME;
+const OLLAMA_PASSWORD = process.env.OLLAMA_PASSWORD;
+
+if (!OLLAMA_USERNAME || !OLLAMA_PASSWORD) {
+  console.error('❌ OLLAMA_USERNAME and OLLAMA_PASSWORD must be set (see .env.example)');
+  process.exit(1);
+}
 const OLLAMA_MODEL = 'mistral:7b'; // Default model
 
 // Create Basic Auth header